@@ -1,38 +1,205 @@
 import { useEffect, useMemo, useRef, useState } from "react";
 import { liveQuery } from "dexie";
-import { db, type Meta } from "./db";
-import { importCsv } from "./csvImporter";
-import { VirtualTable } from "./components/VirtualTable";
+import {
+  db,
+  type CellValue,
+  type ColumnLayout,
+  type ColumnRules,
+  type ColumnType,
+  type FilterState,
+  type ImportCheckpoint,
+  type ImportMapping,
+  type Meta,
+} from "./db";
+import {
+  IMPORT_ACCEPT,
+  detectImportFormat,
+  importFile,
+  type ImportFormat,
+  type ImportMode,
+  type ImportOptions,
+  type ImportProgress,
+  type ImportSummary,
+} from "./importer";
+import { exportCsv, exportImportReport } from "./csvExporter";
+import {
+  canResume,
+  discardImport,
+  findUnfinishedImport,
+} from "./importCheckpoints";
+import {
+  redoEdit,
+  revertEdit,
+  revertToOriginal,
+  undoEdit,
+} from "./editHistory";
+import { changedRowIds, toDirtyCells, type ChangedCell } from "./changes";
+import {
+  clearDeletedRows,
+  deleteRows,
+  duplicateRows,
+  insertRows,
+  restoreRows,
+  type InsertPlacement,
+} from "./rowEdits";
+import { deleteDataset, renameDataset, setColumnType } from "./datasets";
+import { ensureSortIndex, type SortSpec } from "./sortIndex";
+import { saveFilters } from "./filters";
+import { saveColumnLayout } from "./columnLayout";
+import { profileDataset } from "./profile";
+import {
+  previewDelimited,
+  type ImportPreview,
+  type TextDialect,
+} from "./importPreview";
+import {
+  findImportMapping,
+  headerSignature,
+  saveImportMapping,
+} from "./importMappings";
+import {
+  dataColumns,
+  defineComputedColumn,
+  removeComputedColumn,
+} from "./computedColumns";
+import {
+  computePivot,
+  drillDownFilters,
+  type PivotGroup,
+  type PivotResult,
+  type PivotSpec,
+} from "./pivot";
+import {
+  fillDown,
+  previewFind,
+  replaceAll,
+  setAllValues,
+  type BulkEditOptions,
+  type BulkEditResult,
+  type BulkTarget,
+} from "./bulkEdit";
+import {
+  saveColumnRules,
+  toInvalidCells,
+  validateDataset,
+  validateEdit,
+  validateEdits,
+  type Violation,
+} from "./validation";
+import { useFilteredView } from "./hooks/useFilteredView";
+import { useSearch } from "./hooks/useSearch";
+import { useEditHistory } from "./hooks/useEditHistory";
+import { useChanges } from "./hooks/useChanges";
+import { useDeletedRows } from "./hooks/useDeletedRows";
+import { rowPosition, viewRowIds } from "./viewPosition";
+import {
+  VirtualTable,
+  type RowSelection,
+  type SelectedCells,
+} from "./components/VirtualTable";
+import { DatasetSwitcher } from "./components/DatasetSwitcher";
+import { SearchBar } from "./components/SearchBar";
+import { HistoryPanel } from "./components/HistoryPanel";
+import { ChangesPanel } from "./components/ChangesPanel";
+import { TrashPanel } from "./components/TrashPanel";
+import { RowToolbar } from "./components/RowToolbar";
+import {
+  BulkEditPanel,
+  type FindReplaceSettings,
+} from "./components/BulkEditPanel";
+import { ExportPanel, type ExportSettings } from "./components/ExportPanel";
+import { ValidationPanel } from "./components/ValidationPanel";
+import { ColumnsPanel } from "./components/ColumnsPanel";
+import { ProfilePanel } from "./components/ProfilePanel";
+import { PivotPanel } from "./components/PivotPanel";
+import { ComputedColumnsPanel } from "./components/ComputedColumnsPanel";
+import { ImportReportPanel } from "./components/ImportReportPanel";
+import { ImportWizard } from "./components/ImportWizard";
+import { ImportProgressBar } from "./components/ImportProgressBar";
 import "./App.css";
 
+/** Where a picked file goes: a new dataset or the selected one, merged by `ImportMode` */
+type ImportTarget = "new" | ImportMode;
+
+/** Delimited file waiting in the import preview */
+interface PendingImport {
+  file: File;
+  format: ImportFormat;
+  preview: ImportPreview;
+  /** Mapping remembered for files with the same header */
+  mapping?: ImportMapping;
+}
+
 function App() {
-  const [columns, setColumns] = useState<string[]>([]);
-  const [rowCount, setRowCount] = useState<number>(0);
+  const [datasets, setDatasets] = useState<Meta[]>([]);
+  const [activeId, setActiveId] = useState<number | null>(null);
   const [importing, setImporting] = useState<boolean>(false);
-  // progress count is no longer surfaced incrementally
+  const [importProgress, setImportProgress] = useState<ImportProgress | null>(
+    null
+  );
+  const [liveImportId, setLiveImportId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const importAbortRef = useRef<AbortController | null>(null);
   const [editMode, setEditMode] = useState<boolean>(false);
+  const [importTarget, setImportTarget] = useState<ImportTarget>("new");
+  const [keyColumn, setKeyColumn] = useState<string>("");
+  const [lastSummary, setLastSummary] = useState<ImportSummary | null>(null);
+  // Strict imports fail once this many rows had errors
+  const [strictImport, setStrictImport] = useState<boolean>(false);
+  const [errorThreshold, setErrorThreshold] = useState<number>(1);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(
+    null
+  );
+  const [previewing, setPreviewing] = useState<boolean>(false);
+  const [unfinished, setUnfinished] = useState<ImportCheckpoint[]>([]);
+  const [sort, setSort] = useState<SortSpec | null>(null);
+  const [indexing, setIndexing] = useState<boolean>(false);
+  const [searchQuery, setSearchQuery] = useState<string>("");
+  const [matchIndex, setMatchIndex] = useState<number>(-1);
+  const [scrollTarget, setScrollTarget] = useState<{ index: number } | null>(
+    null
+  );
+  const [exporting, setExporting] = useState<boolean>(false);
+  const [rowsExported, setRowsExported] = useState<number>(0);
+  const exportAbortRef = useRef<AbortController | null>(null);
+  const [violations, setViolations] = useState<Violation[] | null>(null);
+  const [validating, setValidating] = useState<boolean>(false);
+  const [rowsChecked, setRowsChecked] = useState<number>(0);
+  const validateAbortRef = useRef<AbortController | null>(null);
+  const [focusRowId, setFocusRowId] = useState<number | null>(null);
+  const [rowSelection, setRowSelection] = useState<RowSelection | null>(null);
+  const [cellSelection, setCellSelection] = useState<SelectedCells | null>(
+    null
+  );
+  const [bulkProgress, setBulkProgress] = useState<{
+    processed: number;
+    total: number;
+  } | null>(null);
+  const [bulkMessage, setBulkMessage] = useState<string | null>(null);
+  const bulkAbortRef = useRef<AbortController | null>(null);
+  // Dataset being profiled; profiling goes on when another one is shown
+  const [profilingId, setProfilingId] = useState<number | null>(null);
+  const [rowsProfiled, setRowsProfiled] = useState<number>(0);
+  const profileAbortRef = useRef<AbortController | null>(null);
+  const [pivotResult, setPivotResult] = useState<PivotResult | null>(null);
+  const [pivoting, setPivoting] = useState<boolean>(false);
+  const [rowsPivoted, setRowsPivoted] = useState<number>(0);
+  const pivotAbortRef = useRef<AbortController | null>(null);
+  const [computing, setComputing] = useState<boolean>(false);
 
-  // Load meta on mount
-  useEffect(() => {
-    (async () => {
-      const meta = await db.meta.get("current");
-      if (meta) {
-        setColumns(meta.columns);
-        setRowCount(meta.rowCount);
-      }
-    })();
-  }, []);
-
-  // Reactively subscribe to meta changes (no polling)
+  // Reactively subscribe to the dataset catalog (no polling)
   useEffect(() => {
-    const subscription = liveQuery(() => db.meta.get("current")).subscribe({
-      next: (meta) => {
-        if (meta) {
-          setColumns(meta.columns);
-          setRowCount(meta.rowCount);
-        }
+    const subscription = liveQuery(() =>
+      db.datasets.orderBy("importedAt").toArray()
+    ).subscribe({
+      next: (list) => {
+        setDatasets(list);
+        // Keep the current selection if it still exists, else pick the newest
+        setActiveId((current) =>
+          list.some((d) => d.id === current)
+            ? current
+            : (list[list.length - 1]?.id ?? null)
+        );
       },
       error: (err) => {
         // Optional: surface error to UI if needed
@@ -42,24 +209,159 @@ function App() {
     return () => subscription.unsubscribe();
   }, []);
 
+  // Imports interrupted by a reload, offered for resume
+  useEffect(() => {
+    const subscription = liveQuery(() =>
+      db.importCheckpoints.toArray()
+    ).subscribe({
+      next: setUnfinished,
+      error: (err) => console.error(err),
+    });
+    return () => subscription.unsubscribe();
+  }, []);
+
+  // Sort order, search and validation results are per dataset and start empty
+  useEffect(() => {
+    setSort(null);
+    setSearchQuery("");
+    validateAbortRef.current?.abort();
+    pivotAbortRef.current?.abort();
+    setViolations(null);
+    setPivotResult(null);
+    setFocusRowId(null);
+  }, [activeId]);
+
+  const onProfile = async (datasetId: number) => {
+    profileAbortRef.current?.abort();
+    const controller = new AbortController();
+    profileAbortRef.current = controller;
+    setRowsProfiled(0);
+    setProfilingId(datasetId);
+
+    try {
+      await profileDataset(datasetId, {
+        signal: controller.signal,
+        onProgress: setRowsProfiled,
+      });
+    } catch (e) {
+      if ((e as DOMException)?.name !== "AbortError") {
+        setError((e as Error).message ?? "Profiling failed");
+      }
+    } finally {
+      // A newer run owns the state
+      if (profileAbortRef.current === controller) setProfilingId(null);
+    }
+  };
+
   const onFileSelected = async (file: File) => {
     setError(null);
+    setLastSummary(null);
+    setPreviewing(true);
+
+    try {
+      const resume = await findUnfinishedImport(file);
+      if (resume) {
+        if (
+          canResume(resume) &&
+          window.confirm(
+            `Resume the unfinished import of "${file.name}" after ${resume.rowsStaged.toLocaleString()} rows?`
+          )
+        ) {
+          onImportFile(file, { resume });
+          return;
+        }
+        await discardImport(resume.importId);
+      }
+
+      const format = await detectImportFormat(file);
+      if (format !== "csv" && format !== "tsv") {
+        onImportFile(file, { format });
+        return;
+      }
+      // Delimited files are previewed first, read as last time if known
+      let preview = await previewDelimited(
+        file,
+        format === "tsv" ? { delimiter: "\t" } : {}
+      );
+      const saved = await findImportMapping(preview.records);
+      if (
+        saved &&
+        (saved.delimiter !== preview.dialect.delimiter ||
+          saved.quoteChar !== preview.dialect.quoteChar ||
+          saved.encoding !== preview.dialect.encoding)
+      ) {
+        preview = await previewDelimited(file, saved);
+      }
+      setPendingImport({ file, format, preview, mapping: saved?.mapping });
+    } catch (e) {
+      setError((e as Error).message ?? "Preview failed");
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const onPreviewDialect = async (dialect: TextDialect) => {
+    if (!pendingImport) return;
+    setPreviewing(true);
+    try {
+      const preview = await previewDelimited(pendingImport.file, dialect);
+      // A remembered mapping belongs to the header read before
+      setPendingImport({ ...pendingImport, preview, mapping: undefined });
+    } catch (e) {
+      setError((e as Error).message ?? "Preview failed");
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const onImportMapped = async (mapping: ImportMapping) => {
+    if (!pendingImport) return;
+    const { file, format, preview } = pendingImport;
+    setPendingImport(null);
+    try {
+      await saveImportMapping(
+        headerSignature(preview.records, mapping.headerRow),
+        preview.dialect,
+        mapping
+      );
+    } catch (e) {
+      setError((e as Error).message ?? "Saving the mapping failed");
+    }
+    onImportFile(file, { format, ...preview.dialect, mapping });
+  };
+
+  const onImportFile = async (
+    file: File,
+    fileOptions: Pick<
+      ImportOptions,
+      "resume" | "encoding" | "delimiter" | "quoteChar" | "mapping"
+    > & { format?: ImportFormat }
+  ) => {
     setImporting(true);
+    setImportProgress(null);
+    setLiveImportId(null);
     importAbortRef.current?.abort();
     const controller = new AbortController();
     importAbortRef.current = controller;
 
     try {
-      await importCsv(file, {
+      const summary = await importFile(file, {
+        ...fileOptions,
         signal: controller.signal,
-        // no incremental UI updates during import
-        onProgress: () => {},
+        datasetId: importTarget === "new" ? undefined : (activeId ?? undefined),
+        mode: importTarget === "new" ? "replace" : importTarget,
+        keyColumn: importTarget === "upsert" ? keyColumn : undefined,
+        strict: strictImport,
+        errorThreshold,
+        onProgress: setImportProgress,
+        onStart: setLiveImportId,
       });
-      const meta = (await db.meta.get("current")) as Meta | undefined;
-      if (meta) {
-        setColumns(meta.columns);
-        setRowCount(meta.rowCount);
-      }
+      setActiveId(summary.datasetId);
+      setLastSummary(summary);
+      // Imports drop the dataset's sort indexes
+      setSort(null);
+      // Profile the fresh data right away, in the background
+      onProfile(summary.datasetId);
     } catch (e) {
       if ((e as DOMException)?.name === "AbortError") {
         setError("Import aborted");
@@ -71,16 +373,537 @@ function App() {
     }
   };
 
+  const onDownloadImportReport = async () => {
+    if (activeId === null) return;
+    try {
+      await exportImportReport(activeId);
+    } catch (e) {
+      if ((e as DOMException)?.name !== "AbortError") {
+        setError((e as Error).message ?? "Download failed");
+      }
+    }
+  };
+
+  const onRenameDataset = async (datasetId: number, name: string) => {
+    try {
+      await renameDataset(datasetId, name);
+    } catch (e) {
+      setError((e as Error).message ?? "Rename failed");
+    }
+  };
+
+  const onDeleteDataset = async (datasetId: number) => {
+    try {
+      await deleteDataset(datasetId);
+    } catch (e) {
+      setError((e as Error).message ?? "Delete failed");
+    }
+  };
+
+  const onColumnTypeChange = async (column: string, type: ColumnType) => {
+    if (activeId === null) return;
+    try {
+      await setColumnType(activeId, column, type);
+      // The column's sort index was dropped with the old values
+      if (sort?.column === column) setSort(null);
+    } catch (e) {
+      setError((e as Error).message ?? "Type change failed");
+    }
+  };
+
+  const onSaveComputed = async (name: string, expression: string) => {
+    if (activeId === null) return;
+    setComputing(true);
+    try {
+      await defineComputedColumn(activeId, name, expression);
+      // Recomputed columns lost their sort index
+      if (sort && active?.computed?.some((col) => col.name === sort.column)) {
+        setSort(null);
+      }
+    } catch (e) {
+      setError((e as Error).message ?? "Saving the computed column failed");
+    } finally {
+      setComputing(false);
+    }
+  };
+
+  const onRemoveComputed = async (name: string) => {
+    if (activeId === null) return;
+    setComputing(true);
+    try {
+      await removeComputedColumn(activeId, name);
+      if (sort?.column === name) setSort(null);
+    } catch (e) {
+      setError((e as Error).message ?? "Removing the computed column failed");
+    } finally {
+      setComputing(false);
+    }
+  };
+
+  const onSortChange = async (next: SortSpec | null) => {
+    if (!next || activeId === null) {
+      setSort(null);
+      return;
+    }
+    setIndexing(true);
+    try {
+      await ensureSortIndex(activeId, next.column);
+      setSort(next);
+    } catch (e) {
+      setError((e as Error).message ?? "Sorting failed");
+    } finally {
+      setIndexing(false);
+    }
+  };
+
+  const onFiltersChange = async (filters: FilterState) => {
+    if (activeId === null) return;
+    try {
+      await saveFilters(activeId, filters);
+    } catch (e) {
+      setError((e as Error).message ?? "Saving filters failed");
+    }
+  };
+
+  const onLayoutChange = async (layout: ColumnLayout) => {
+    if (activeId === null) return;
+    try {
+      await saveColumnLayout(activeId, layout);
+    } catch (e) {
+      setError((e as Error).message ?? "Saving column layout failed");
+    }
+  };
+
+  const onRunPivot = async (spec: PivotSpec) => {
+    if (activeId === null) return;
+    setError(null);
+    setRowsPivoted(0);
+    setPivoting(true);
+    const controller = new AbortController();
+    pivotAbortRef.current = controller;
+
+    try {
+      setPivotResult(
+        await computePivot(activeId, spec, {
+          signal: controller.signal,
+          onProgress: setRowsPivoted,
+        })
+      );
+    } catch (e) {
+      if ((e as DOMException)?.name !== "AbortError") {
+        setError((e as Error).message ?? "Summarizing failed");
+      }
+    } finally {
+      setPivoting(false);
+    }
+  };
+
+  // Drilling down replaces the table's filters with the group's values
+  const onSelectPivotGroup = (group: PivotGroup, pivotIndex: number | null) => {
+    if (!active || !pivotResult) return;
+    const { spec, pivotKeys } = pivotResult;
+    const filterColumns = [
+      ...spec.groupBy,
+      ...(pivotIndex !== null ? spec.pivotBy : []),
+    ];
+    const values = [
+      ...group.key,
+      ...(pivotIndex !== null ? pivotKeys[pivotIndex] : []),
+    ];
+    onFiltersChange(
+      drillDownFilters(
+        filterColumns,
+        values,
+        filterColumns.map((col) => active.schema[col] ?? "string")
+      )
+    );
+  };
+
+  const onExport = async ({
+    currentView,
+    changedOnly,
+    ...settings
+  }: ExportSettings) => {
+    if (activeId === null) return;
+    setError(null);
+    setRowsExported(0);
+    setExporting(true);
+    const controller = new AbortController();
+    exportAbortRef.current = controller;
+
+    try {
+      let rowIds = currentView ? filteredView.rowIds : null;
+      if (changedOnly) {
+        // Changed rows keep the filtered order, else id order
+        const changed = await changedRowIds(activeId);
+        if (rowIds) {
+          const keep = new Set(changed);
+          rowIds = rowIds.filter((id) => keep.has(id));
+        } else {
+          rowIds = changed;
+        }
+      }
+
+      await exportCsv(activeId, {
+        ...settings,
+        signal: controller.signal,
+        onProgress: setRowsExported,
+        sort: currentView ? sort : null,
+        rowIds,
+      });
+    } catch (e) {
+      if ((e as DOMException)?.name !== "AbortError") {
+        setError((e as Error).message ?? "Export failed");
+      }
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const onSaveRules = async (column: string, rules: ColumnRules) => {
+    if (activeId === null) return;
+    try {
+      await saveColumnRules(activeId, column, rules);
+    } catch (e) {
+      setError((e as Error).message ?? "Saving rules failed");
+    }
+  };
+
+  const onValidate = async () => {
+    if (activeId === null) return;
+    setError(null);
+    setRowsChecked(0);
+    setValidating(true);
+    const controller = new AbortController();
+    validateAbortRef.current = controller;
+
+    try {
+      const found = await validateDataset(activeId, {
+        signal: controller.signal,
+        onProgress: setRowsChecked,
+      });
+      setViolations(found);
+    } catch (e) {
+      if ((e as DOMException)?.name !== "AbortError") {
+        setError((e as Error).message ?? "Validation failed");
+      }
+    } finally {
+      setValidating(false);
+    }
+  };
+
+  // An accepted edit clears the cell's flag; other rows keep theirs until revalidated
+  const onCellEdit = (rowId: number, column: string) => {
+    setViolations((prev) =>
+      prev ? prev.filter((v) => v.rowId !== rowId || v.column !== column) : prev
+    );
+  };
+
+  const onSelectViolation = async (violation: Violation) => {
+    if (activeId === null) return;
+    const index = await rowPosition(
+      activeId,
+      violation.rowId,
+      sort,
+      filteredView.rowIds
+    );
+    if (index < 0) {
+      setError(`Row ${violation.rowId} is hidden by the current filter`);
+      return;
+    }
+    setFocusRowId(violation.rowId);
+    setScrollTarget({ index });
+  };
+
+  const onUndo = async () => {
+    if (activeId === null) return;
+    try {
+      await undoEdit(activeId);
+    } catch (e) {
+      setError((e as Error).message ?? "Undo failed");
+    }
+  };
+
+  const onRedo = async () => {
+    if (activeId === null) return;
+    try {
+      await redoEdit(activeId);
+    } catch (e) {
+      setError((e as Error).message ?? "Redo failed");
+    }
+  };
+
+  const onRevertEdit = async (editId: number) => {
+    try {
+      await revertEdit(editId);
+    } catch (e) {
+      setError((e as Error).message ?? "Revert failed");
+    }
+  };
+
+  const onRevertChanges = async (cells: ChangedCell[]) => {
+    if (activeId === null) return;
+    try {
+      await revertToOriginal(activeId, cells);
+    } catch (e) {
+      setError((e as Error).message ?? "Revert failed");
+    }
+  };
+
+  // Ids of the selected rows in view order
+  const selectedRowIds = async (): Promise<number[]> => {
+    if (activeId === null || !rowSelection) return [];
+    return viewRowIds(
+      activeId,
+      Math.min(rowSelection.anchor, rowSelection.focus),
+      Math.max(rowSelection.anchor, rowSelection.focus),
+      sort,
+      filteredView.rowIds
+    );
+  };
+
+  const onInsertRows = async (placement: InsertPlacement) => {
+    if (activeId === null) return;
+    try {
+      const ids = await selectedRowIds();
+      if (ids.length === 0) return;
+      // Positions are in dataset order, next to the selection's outermost row
+      const anchor = ids.reduce((a, b) =>
+        placement === "above" ? Math.min(a, b) : Math.max(a, b)
+      );
+      await insertRows(activeId, anchor, placement, ids.length);
+    } catch (e) {
+      setError((e as Error).message ?? "Insert failed");
+    }
+  };
+
+  const onDuplicateRows = async () => {
+    if (activeId === null) return;
+    try {
+      await duplicateRows(activeId, await selectedRowIds());
+    } catch (e) {
+      setError((e as Error).message ?? "Duplicate failed");
+    }
+  };
+
+  const onDeleteRows = async () => {
+    if (activeId === null) return;
+    try {
+      const count = await deleteRows(activeId, await selectedRowIds());
+      if (count > 0) setRowSelection(null);
+    } catch (e) {
+      setError((e as Error).message ?? "Delete failed");
+    }
+  };
+
+  const onRestoreRows = async (rowIds: number[]) => {
+    if (activeId === null) return;
+    try {
+      await restoreRows(activeId, rowIds);
+    } catch (e) {
+      setError((e as Error).message ?? "Restore failed");
+    }
+  };
+
+  const onEmptyTrash = async () => {
+    if (activeId === null) return;
+    try {
+      await clearDeletedRows(activeId);
+    } catch (e) {
+      setError((e as Error).message ?? "Emptying trash failed");
+    }
+  };
+
+  // Cells of the table's selected range
+  const selectedCellsTarget = async (): Promise<
+    BulkTarget & { rowIds: number[] }
+  > => {
+    if (activeId === null || !cellSelection) return { rowIds: [], columns: [] };
+    return {
+      rowIds: await viewRowIds(
+        activeId,
+        cellSelection.top,
+        cellSelection.bottom,
+        sort,
+        filteredView.rowIds
+      ),
+      columns: cellSelection.columns,
+    };
+  };
+
+  const findTarget = async ({
+    scope,
+    column,
+  }: FindReplaceSettings): Promise<BulkTarget> => {
+    if (scope === "selection") return selectedCellsTarget();
+    return { columns: scope === "column" ? [column] : columns };
+  };
+
+  // Runs one abortable bulk operation with progress; resolves to null when it did not finish
+  const runBulk = async <T,>(
+    fallbackError: string,
+    run: (options: BulkEditOptions) => Promise<T>
+  ): Promise<T | null> => {
+    setError(null);
+    setBulkMessage(null);
+    setBulkProgress({ processed: 0, total: 0 });
+    const controller = new AbortController();
+    bulkAbortRef.current = controller;
+
+    try {
+      return await run({
+        signal: controller.signal,
+        onProgress: (processed, total) => setBulkProgress({ processed, total }),
+      });
+    } catch (e) {
+      if ((e as DOMException)?.name === "AbortError") {
+        setBulkMessage("Cancelled; nothing was changed");
+      } else {
+        setError((e as Error).message ?? fallbackError);
+      }
+      return null;
+    } finally {
+      setBulkProgress(null);
+    }
+  };
+
+  const reportBulkEdit = (result: BulkEditResult | null) => {
+    if (!result) return;
+    setBulkMessage(
+      `Changed ${result.cells.toLocaleString()} cells in ${result.rows.toLocaleString()} rows` +
+        (result.rejected > 0
+          ? `; ${result.rejected.toLocaleString()} values broke validation rules and were skipped`
+          : "")
+    );
+  };
+
+  const onPreviewFind = async (settings: FindReplaceSettings) => {
+    if (activeId === null) return null;
+    return runBulk("Preview failed", async (options) =>
+      previewFind(activeId, await findTarget(settings), settings, options)
+    );
+  };
+
+  const onReplaceAll = async (settings: FindReplaceSettings) => {
+    if (activeId === null) return;
+    reportBulkEdit(
+      await runBulk("Replace failed", async (options) =>
+        replaceAll(
+          activeId,
+          await findTarget(settings),
+          settings,
+          settings.replacement,
+          options
+        )
+      )
+    );
+  };
+
+  const onFillDown = async () => {
+    if (activeId === null) return;
+    reportBulkEdit(
+      await runBulk("Fill down failed", async (options) =>
+        fillDown(activeId, await selectedCellsTarget(), options)
+      )
+    );
+  };
+
+  const onSetValue = async (text: string) => {
+    if (activeId === null) return;
+    reportBulkEdit(
+      await runBulk("Setting values failed", async (options) =>
+        setAllValues(activeId, await selectedCellsTarget(), text, options)
+      )
+    );
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS) outside text fields, which keep their own undo
+  const historyKeysRef = useRef({ onUndo, onRedo });
+  historyKeysRef.current = { onUndo, onRedo };
+  const historyKeysEnabled = editMode && !importing && activeId !== null;
+  useEffect(() => {
+    if (!historyKeysEnabled) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== "z") return;
+      const target = e.target as HTMLElement | null;
+      if (target?.closest("input, textarea, select, [contenteditable]")) {
+        return;
+      }
+      e.preventDefault();
+      if (e.shiftKey) historyKeysRef.current.onRedo();
+      else historyKeysRef.current.onUndo();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [historyKeysEnabled]);
+
   const onPickFile = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) onFileSelected(file);
     e.currentTarget.value = "";
   };
 
-  const formattedProgress = useMemo(() => {
-    if (!importing) return "";
-    return `Loading...`;
-  }, [importing]);
+  const active = datasets.find((d) => d.id === activeId);
+  // Checkpoint of the running import, kept current by its liveQuery
+  const liveImport = importing
+    ? unfinished.find((checkpoint) => checkpoint.importId === liveImportId)
+    : undefined;
+  const stagedRows = liveImport?.rowsWritten ?? 0;
+  // Appends and upserts add to the rows already in the dataset
+  const importBase =
+    liveImport && liveImport.mode !== "replace"
+      ? datasets.find((d) => d.id === liveImport.datasetId)
+      : undefined;
+  const columns = active?.columns ?? [];
+  const rowCount = active?.rowCount ?? 0;
+  const filteredView = useFilteredView(active, sort);
+  const history = useEditHistory(activeId);
+  const changes = useChanges(activeId);
+  const dirtyCells = useMemo(() => toDirtyCells(changes), [changes]);
+  const trash = useDeletedRows(activeId);
+
+  // Selections are positions in the view, so any change of view drops them
+  useEffect(() => {
+    setRowSelection(null);
+  }, [activeId, sort, filteredView.rowIds, editMode]);
+
+  useEffect(() => {
+    setBulkMessage(null);
+  }, [activeId]);
+  const invalidCells = useMemo(
+    () => toInvalidCells(violations ?? []),
+    [violations]
+  );
+  // While a filter scan runs its id list is incomplete, so search everything
+  const search = useSearch(
+    activeId,
+    searchQuery,
+    filteredView.scanning ? null : filteredView.rowIds
+  );
+
+  // A new result set starts before the first match
+  useEffect(() => {
+    setMatchIndex(-1);
+  }, [search.matches]);
+
+  const jumpToMatch = async (step: 1 | -1) => {
+    const count = search.matches.length;
+    if (count === 0 || activeId === null) return;
+    const next =
+      matchIndex < 0
+        ? step > 0
+          ? 0
+          : count - 1
+        : (matchIndex + step + count) % count;
+    setMatchIndex(next);
+    const index = await rowPosition(
+      activeId,
+      search.matches[next],
+      sort,
+      filteredView.rowIds
+    );
+    if (index >= 0) setScrollTarget({ index });
+  };
 
   return (
     <>
@@ -94,12 +917,82 @@ function App() {
           marginBottom: 12,
         }}
       >
+        <DatasetSwitcher
+          datasets={datasets}
+          activeId={activeId}
+          disabled={importing}
+          onSelect={setActiveId}
+          onRename={onRenameDataset}
+          onDelete={onDeleteDataset}
+        />
+        <select
+          aria-label="Import target"
+          value={importTarget}
+          onChange={(e) => setImportTarget(e.target.value as ImportTarget)}
+          disabled={importing}
+        >
+          <option value="new">New dataset</option>
+          <option value="replace" disabled={!active}>
+            Replace selected
+          </option>
+          <option value="append" disabled={!active}>
+            Append to selected
+          </option>
+          <option value="upsert" disabled={!active}>
+            Upsert into selected
+          </option>
+        </select>
+        {importTarget === "upsert" && (
+          <select
+            aria-label="Key column"
+            value={keyColumn}
+            onChange={(e) => setKeyColumn(e.target.value)}
+            disabled={importing}
+          >
+            <option value="">Key column…</option>
+            {columns.map((col) => (
+              <option key={col} value={col}>
+                {col}
+              </option>
+            ))}
+          </select>
+        )}
         <input
           type="file"
-          accept=".csv,text/csv"
+          accept={IMPORT_ACCEPT}
           onChange={onPickFile}
-          disabled={importing}
+          disabled={
+            importing ||
+            previewing ||
+            pendingImport !== null ||
+            (importTarget === "upsert" && !keyColumn)
+          }
         />
+        <label
+          title="Fail the import once this many rows have errors"
+          style={{ display: "inline-flex", alignItems: "center", gap: 6 }}
+        >
+          <input
+            type="checkbox"
+            checked={strictImport}
+            onChange={(e) => setStrictImport(e.target.checked)}
+            disabled={importing}
+          />
+          Strict
+        </label>
+        {strictImport && (
+          <input
+            type="number"
+            aria-label="Error threshold"
+            min={1}
+            value={errorThreshold}
+            onChange={(e) =>
+              setErrorThreshold(Math.max(1, Math.floor(Number(e.target.value))))
+            }
+            disabled={importing}
+            style={{ width: 60 }}
+          />
+        )}
         <label style={{ display: "inline-flex", alignItems: "center", gap: 6 }}>
           <input
             type="checkbox"
@@ -109,41 +1002,323 @@ function App() {
           />
           Edit mode
         </label>
-        <button
-          onClick={() => {
-            importAbortRef.current?.abort();
-          }}
-          disabled={!importing}
-        >
-          Abort import
-        </button>
-        {importing && <span>{formattedProgress}</span>}
+        <SearchBar
+          query={searchQuery}
+          onQueryChange={setSearchQuery}
+          matchCount={search.matches.length}
+          currentIndex={matchIndex}
+          searching={search.searching}
+          disabled={importing || activeId === null}
+          onNext={() => jumpToMatch(1)}
+          onPrevious={() => jumpToMatch(-1)}
+        />
+        {indexing && <span>Building sort index...</span>}
+        {search.error && (
+          <span style={{ color: "crimson" }}>{search.error.message}</span>
+        )}
+        {filteredView.error && (
+          <span style={{ color: "crimson" }}>{filteredView.error.message}</span>
+        )}
+        {lastSummary && (
+          <span>
+            Inserted {lastSummary.inserted.toLocaleString()}, updated{" "}
+            {lastSummary.updated.toLocaleString()}, skipped{" "}
+            {lastSummary.skipped.toLocaleString()}
+          </span>
+        )}
         {error && <span style={{ color: "crimson" }}>{error}</span>}
       </div>
 
+      {importing && (
+        <ImportProgressBar
+          progress={importProgress}
+          onCancel={() => importAbortRef.current?.abort()}
+        />
+      )}
+
+      {pendingImport && (
+        <ImportWizard
+          key={JSON.stringify(pendingImport.preview.dialect)}
+          fileName={pendingImport.file.name}
+          preview={pendingImport.preview}
+          initialMapping={pendingImport.mapping}
+          busy={previewing}
+          onDialectChange={onPreviewDialect}
+          onImport={onImportMapped}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+
+      {!importing &&
+        unfinished.map((checkpoint) => (
+          <div
+            key={checkpoint.importId}
+            role="status"
+            style={{ marginBottom: 8, color: "#8a6d00" }}
+          >
+            Unfinished import of "{checkpoint.fileName}" (
+            {checkpoint.rowsStaged.toLocaleString()} rows staged).{" "}
+            {canResume(checkpoint)
+              ? "Select the same file again to resume."
+              : "Selecting the same file again starts it over."}{" "}
+            <button onClick={() => discardImport(checkpoint.importId)}>
+              Discard
+            </button>
+          </div>
+        ))}
+
+      {active?.importReport && !importing && (
+        <ImportReportPanel
+          report={active.importReport}
+          onDownload={onDownloadImportReport}
+        />
+      )}
+
+      {active?.id !== undefined && !importing && (
+        <ExportPanel
+          key={active.id}
+          columns={columns}
+          exporting={exporting}
+          rowsExported={rowsExported}
+          disabled={filteredView.scanning || indexing}
+          onExport={onExport}
+          onCancel={() => exportAbortRef.current?.abort()}
+        />
+      )}
+
+      {active?.id !== undefined && !importing && (
+        <ColumnsPanel
+          columns={columns}
+          layout={active.layout}
+          onChange={onLayoutChange}
+        />
+      )}
+
+      {active?.id !== undefined && !importing && (
+        <ComputedColumnsPanel
+          key={active.id}
+          columns={dataColumns(active)}
+          computed={active.computed ?? []}
+          busy={computing}
+          disabled={filteredView.scanning || indexing}
+          onSave={onSaveComputed}
+          onRemove={onRemoveComputed}
+        />
+      )}
+
+      {active?.id !== undefined && !importing && (
+        <ProfilePanel
+          columns={columns}
+          profile={active.profile}
+          rowCount={rowCount}
+          profiling={profilingId === active.id}
+          rowsProfiled={rowsProfiled}
+          disabled={rowCount === 0 || profilingId !== null}
+          onProfile={() => onProfile(active.id!)}
+          onCancel={() => profileAbortRef.current?.abort()}
+        />
+      )}
+
+      {active?.id !== undefined && !importing && (
+        <ValidationPanel
+          key={active.id}
+          columns={columns}
+          rules={active.rules ?? {}}
+          violations={violations}
+          validating={validating}
+          rowsChecked={rowsChecked}
+          onSaveRules={onSaveRules}
+          onValidate={onValidate}
+          onCancel={() => validateAbortRef.current?.abort()}
+          onSelect={onSelectViolation}
+        />
+      )}
+
+      {active?.id !== undefined && !importing && (
+        <BulkEditPanel
+          key={active.id}
+          columns={dataColumns(active)}
+          selection={
+            cellSelection
+              ? {
+                  rows: cellSelection.bottom - cellSelection.top + 1,
+                  columns: cellSelection.columns.length,
+                }
+              : null
+          }
+          progress={bulkProgress}
+          message={bulkMessage}
+          disabled={!editMode || filteredView.scanning || indexing}
+          onPreview={onPreviewFind}
+          onReplace={onReplaceAll}
+          onFillDown={onFillDown}
+          onSetValue={onSetValue}
+          onCancel={() => bulkAbortRef.current?.abort()}
+        />
+      )}
+
+      {active?.id !== undefined && !importing && (
+        <HistoryPanel
+          entries={history}
+          schema={active.schema}
+          disabled={!editMode}
+          onUndo={onUndo}
+          onRedo={onRedo}
+          onRevert={onRevertEdit}
+        />
+      )}
+
+      {active?.id !== undefined && !importing && (
+        <TrashPanel
+          key={active.id}
+          rows={trash.rows}
+          total={trash.total}
+          columns={columns}
+          schema={active.schema}
+          disabled={!editMode}
+          onRestore={onRestoreRows}
+          onEmpty={onEmptyTrash}
+        />
+      )}
+
+      {active?.id !== undefined && !importing && (
+        <ChangesPanel
+          key={active.id}
+          cells={changes}
+          schema={active.schema}
+          disabled={!editMode}
+          onRevert={onRevertChanges}
+        />
+      )}
+
       <div style={{ marginBottom: 8, color: "#666" }}>
         {importing ? (
-          <span>Loading...</span>
+          <>
+            <span>Columns: {liveImport?.columns.length ?? 0}</span>
+            <span style={{ marginLeft: 12 }}>
+              Rows:{" "}
+              {importBase
+                ? `${importBase.rowCount.toLocaleString()} + ${stagedRows.toLocaleString()} staged`
+                : `${stagedRows.toLocaleString()} staged`}
+            </span>
+          </>
         ) : (
           <>
             <span>Columns: {columns.length}</span>
             <span style={{ marginLeft: 12 }}>
-              Rows: {rowCount.toLocaleString()}
+              Rows:{" "}
+              {filteredView.rowIds
+                ? `${filteredView.matchCount.toLocaleString()} of ${rowCount.toLocaleString()}`
+                : rowCount.toLocaleString()}
+              {filteredView.scanning && " (filtering...)"}
             </span>
           </>
         )}
       </div>
 
-      {importing ? null : columns.length > 0 && rowCount > 0 ? (
+      {editMode && !importing && active?.id !== undefined && (
+        <RowToolbar
+          selectedCount={
+            rowSelection
+              ? Math.abs(rowSelection.focus - rowSelection.anchor) + 1
+              : 0
+          }
+          disabled={filteredView.scanning || indexing}
+          onInsert={onInsertRows}
+          onDuplicate={onDuplicateRows}
+          onDelete={onDeleteRows}
+          onClearSelection={() => setRowSelection(null)}
+        />
+      )}
+
+      {importing ? (
+        // Both stay read-only until the import is committed
+        <>
+          {importBase?.id !== undefined && importBase.rowCount > 0 && (
+            <VirtualTable
+              datasetId={importBase.id}
+              columns={importBase.columns}
+              layout={importBase.layout}
+              schema={importBase.schema}
+              rowCount={importBase.rowCount}
+              height={300}
+              rowHeight={36}
+              computed={importBase.computed}
+            />
+          )}
+          {liveImport && liveImport.columns.length > 0 && stagedRows > 0 && (
+            <>
+              {importBase && (
+                <div style={{ margin: "8px 0", color: "#666" }}>
+                  Staged rows
+                </div>
+              )}
+              <VirtualTable
+                datasetId={liveImport.datasetId ?? 0}
+                importId={liveImport.importId}
+                columns={liveImport.columns}
+                rowCount={stagedRows}
+                height={importBase ? 300 : 600}
+                rowHeight={36}
+              />
+            </>
+          )}
+        </>
+      ) : active?.id !== undefined && columns.length > 0 && rowCount > 0 ? (
         <VirtualTable
+          datasetId={active.id}
           columns={columns}
-          rowCount={rowCount}
+          layout={active.layout}
+          onLayoutChange={onLayoutChange}
+          schema={active.schema}
+          rowCount={filteredView.rowIds ? filteredView.matchCount : rowCount}
+          rowIds={filteredView.rowIds}
           height={600}
           rowHeight={36}
           editMode={editMode}
+          onCellEdit={onCellEdit}
+          onColumnTypeChange={onColumnTypeChange}
+          sort={sort}
+          onSortChange={indexing ? undefined : onSortChange}
+          filters={active.filters}
+          onFiltersChange={onFiltersChange}
+          highlightTokens={search.tokens}
+          activeRowId={
+            matchIndex >= 0 ? search.matches[matchIndex] : focusRowId
+          }
+          scrollTarget={scrollTarget}
+          dirtyCells={dirtyCells}
+          selection={editMode ? rowSelection : null}
+          onSelectionChange={editMode ? setRowSelection : undefined}
+          onCellSelectionChange={setCellSelection}
+          invalidCells={invalidCells}
+          profile={active.profile}
+          computed={active.computed}
+          validateEdit={(rowId: number, column: string, value: CellValue) =>
+            validateEdit(active, rowId, column, value)
+          }
+          validateEdits={(cells) => validateEdits(active, cells)}
         />
       ) : (
-        <div style={{ color: "#777" }}>Import a CSV file to begin...</div>
+        <div style={{ color: "#777" }}>
+          Import a CSV, TSV or JSON file to begin...
+        </div>
+      )}
+
+      {active?.id !== undefined && !importing && rowCount > 0 && (
+        <div style={{ marginTop: 12 }}>
+          <PivotPanel
+            key={active.id}
+            columns={columns}
+            schema={active.schema}
+            result={pivotResult}
+            running={pivoting}
+            rowsScanned={rowsPivoted}
+            onRun={onRunPivot}
+            onCancel={() => pivotAbortRef.current?.abort()}
+            onSelect={onSelectPivotGroup}
+          />
+        </div>
       )}
     </>
   );
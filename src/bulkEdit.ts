@@ -0,0 +1,352 @@
+import {
+  db,
+  type CellEdit,
+  type CellValue,
+  type ColumnSchema,
+  type Row,
+} from "./db";
+import { cellToText, parseCell } from "./columnTypes";
+import { createMicroYield } from "./microYield";
+import { createRowPageReader } from "./rowPages";
+import { syncSortKeys } from "./sortIndex";
+import { syncRowTokens } from "./searchIndex";
+import { trackOriginal } from "./changes";
+import { discardUndone, notifyEditedRows } from "./editHistory";
+import { createEditValidator } from "./validation";
+import { notifyRowChanges } from "./rowEdits";
+import { applyProfileChanges, type ProfileChange } from "./profile";
+import { compileDatasetColumns, computeRow } from "./computedColumns";
+
+/**
+ * Rows read and rewritten per chunk of a bulk edit.
+ */
+const BULK_CHUNK_SIZE = 1000;
+
+/**
+ * Cells a bulk operation works on.
+ */
+export interface BulkTarget {
+  /** Rows in order; every row of the dataset (in id order) when omitted */
+  readonly rowIds?: readonly number[];
+  readonly columns: readonly string[];
+}
+
+export interface FindOptions {
+  readonly find: string;
+  /** Treat `find` as a regular expression instead of literal text */
+  readonly regex: boolean;
+  readonly caseSensitive: boolean;
+}
+
+export interface BulkEditOptions {
+  readonly signal?: AbortSignal;
+  /** Called after every chunk with the rows processed and the rows in scope */
+  readonly onProgress?: (rowsProcessed: number, rowsTotal: number) => void;
+}
+
+export interface BulkEditResult {
+  /** Rows with at least one changed cell */
+  readonly rows: number;
+  readonly cells: number;
+  /** Cells left unchanged because the new value broke the column's rules */
+  readonly rejected: number;
+}
+
+/**
+ * New value of a cell, or undefined to leave it unchanged.
+ */
+type CellTransform = (
+  value: CellValue,
+  column: string
+) => CellValue | undefined;
+
+/**
+ * Global regular expression matching `find` as configured.
+ *
+ * Throws on invalid regex syntax.
+ */
+export function compileFind(options: FindOptions): RegExp {
+  const source = options.regex
+    ? options.find
+    : options.find.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(source, options.caseSensitive ? "g" : "gi");
+}
+
+/**
+ * Cell transform replacing every match in the cell's text. Regex
+ * replacements may use `$1`-style groups; literal ones are inserted as is.
+ */
+function replaceTransform(
+  options: FindOptions,
+  replacement: string,
+  schema: ColumnSchema
+): CellTransform {
+  const pattern = compileFind(options);
+  return (value, column) => {
+    const type = schema[column] ?? "string";
+    const text = cellToText(value, type);
+    pattern.lastIndex = 0;
+    if (!pattern.test(text)) return undefined;
+    const replaced = options.regex
+      ? text.replace(pattern, replacement)
+      : text.replace(pattern, () => replacement);
+    return parseCell(replaced, type);
+  };
+}
+
+async function rowsInScope(
+  datasetId: number,
+  target: BulkTarget
+): Promise<number> {
+  if (target.rowIds) return target.rowIds.length;
+  return (await db.datasets.get(datasetId))?.rowCount ?? 0;
+}
+
+/**
+ * Counts the cells and rows a find would touch, without writing anything.
+ */
+export async function previewFind(
+  datasetId: number,
+  target: BulkTarget,
+  options: FindOptions,
+  progress: BulkEditOptions = {}
+): Promise<{ rows: number; cells: number }> {
+  const meta = await db.datasets.get(datasetId);
+  if (!meta) throw new Error(`Dataset ${datasetId} no longer exists`);
+
+  const pattern = compileFind(options);
+  const total = await rowsInScope(datasetId, target);
+  const nextPage = createRowPageReader(
+    datasetId,
+    { rowIds: target.rowIds },
+    BULK_CHUNK_SIZE
+  );
+  const microYield = createMicroYield();
+  let processed = 0;
+  let rows = 0;
+  let cells = 0;
+
+  for (;;) {
+    if (progress.signal?.aborted) {
+      throw new DOMException("Preview aborted", "AbortError");
+    }
+    const page = await nextPage();
+    if (page.length === 0) break;
+
+    for (const row of page) {
+      let matched = 0;
+      for (const column of target.columns) {
+        pattern.lastIndex = 0;
+        const text = cellToText(
+          row.data[column],
+          meta.schema[column] ?? "string"
+        );
+        if (pattern.test(text)) matched++;
+      }
+      if (matched > 0) rows++;
+      cells += matched;
+    }
+
+    processed += page.length;
+    progress.onProgress?.(processed, total);
+    await microYield();
+  }
+
+  return { rows, cells };
+}
+
+/**
+ * Rewrites cells chunk by chunk inside one read-write transaction, so an
+ * abort or error rolls back every chunk already written.
+ *
+ * Changed cells keep their original values for the changes view and the
+ * indexes and computed columns stay in step. The changed cells are recorded
+ * in the undo history as one batch, undone as a whole, discarding the redo
+ * stack. New values breaking a column's rules are skipped and counted as
+ * rejected; for unique columns that includes values held by another row or
+ * written earlier in the edit.
+ */
+async function applyBulkEdit(
+  datasetId: number,
+  target: BulkTarget,
+  transform: CellTransform,
+  options: BulkEditOptions
+): Promise<BulkEditResult> {
+  const total = await rowsInScope(datasetId, target);
+  const editedIds: number[] = [];
+
+  const result = await db.transaction(
+    "rw",
+    [
+      db.rows,
+      db.datasets,
+      db.sortEntries,
+      db.sortIndexes,
+      db.searchTokens,
+      db.cellEdits,
+      db.originals,
+    ],
+    async () => {
+      const meta = await db.datasets.get(datasetId);
+      if (!meta) throw new Error(`Dataset ${datasetId} no longer exists`);
+      await discardUndone(datasetId);
+      const validate = createEditValidator(meta);
+      // The edit is undone and redone as a whole
+      const batch = crypto.randomUUID();
+      const compiled = compileDatasetColumns(meta);
+      // Computed columns are read-only; they follow the columns they use
+      const columns = target.columns.filter(
+        (column) => !compiled.some((computed) => computed.name === column)
+      );
+
+      const nextPage = createRowPageReader(
+        datasetId,
+        { rowIds: target.rowIds },
+        BULK_CHUNK_SIZE
+      );
+      let processed = 0;
+      let rows = 0;
+      let cells = 0;
+      let rejected = 0;
+
+      for (;;) {
+        // Throwing inside the transaction aborts it, undoing earlier chunks
+        if (options.signal?.aborted) {
+          throw new DOMException("Bulk edit aborted", "AbortError");
+        }
+        const page = await nextPage();
+        if (page.length === 0) break;
+
+        const changed: Row[] = [];
+        const edits: CellEdit[] = [];
+        const profileChanges: ProfileChange[] = [];
+        for (const row of page) {
+          let data: Record<string, CellValue> | null = null;
+          for (const column of columns) {
+            const type = meta.schema[column] ?? "string";
+            const previous = row.data[column] ?? null;
+            const next = transform(previous, column);
+            if (
+              next === undefined ||
+              cellToText(next, type) === cellToText(previous, type)
+            ) {
+              continue;
+            }
+            if ((await validate(row.id!, column, next)) !== null) {
+              rejected++;
+              continue;
+            }
+
+            data ??= { ...row.data };
+            data[column] = next;
+            cells++;
+            profileChanges.push({ column, removed: previous, added: next });
+            edits.push({
+              datasetId,
+              rowId: row.id!,
+              column,
+              oldValue: previous,
+              newValue: next,
+              editedAt: Date.now(),
+              undone: 0,
+              batch,
+            });
+            await trackOriginal(
+              datasetId,
+              row.id!,
+              column,
+              previous,
+              next,
+              type
+            );
+          }
+          if (data) {
+            const updated = { ...row, data };
+            profileChanges.push(...computeRow(updated, compiled));
+            changed.push(updated);
+          }
+        }
+
+        if (changed.length > 0) {
+          await db.rows.bulkPut(changed);
+          await db.cellEdits.bulkAdd(edits);
+          await syncSortKeys(datasetId, changed);
+          await syncRowTokens(datasetId, changed, meta.schema);
+          await applyProfileChanges(datasetId, profileChanges);
+          rows += changed.length;
+          editedIds.push(...changed.map((row) => row.id!));
+        }
+
+        processed += page.length;
+        options.onProgress?.(processed, total);
+      }
+
+      return { rows, cells, rejected };
+    }
+  );
+
+  if (result.cells > 0) {
+    notifyRowChanges(datasetId);
+    notifyEditedRows(datasetId, editedIds);
+  }
+  return result;
+}
+
+/**
+ * Replaces every match of `options.find` in the target cells.
+ */
+export async function replaceAll(
+  datasetId: number,
+  target: BulkTarget,
+  find: FindOptions,
+  replacement: string,
+  options: BulkEditOptions = {}
+): Promise<BulkEditResult> {
+  const meta = await db.datasets.get(datasetId);
+  if (!meta) throw new Error(`Dataset ${datasetId} no longer exists`);
+  return applyBulkEdit(
+    datasetId,
+    target,
+    replaceTransform(find, replacement, meta.schema),
+    options
+  );
+}
+
+/**
+ * Copies the first target row's values down into the other target rows.
+ */
+export async function fillDown(
+  datasetId: number,
+  target: BulkTarget & { readonly rowIds: readonly number[] },
+  options: BulkEditOptions = {}
+): Promise<BulkEditResult> {
+  const [firstId, ...rest] = target.rowIds;
+  const first = firstId === undefined ? undefined : await db.rows.get(firstId);
+  if (!first || rest.length === 0) return { rows: 0, cells: 0, rejected: 0 };
+
+  return applyBulkEdit(
+    datasetId,
+    { rowIds: rest, columns: target.columns },
+    (_, column) => first.data[column] ?? null,
+    options
+  );
+}
+
+/**
+ * Sets every target cell to `text`, read in each column's type.
+ */
+export async function setAllValues(
+  datasetId: number,
+  target: BulkTarget,
+  text: string,
+  options: BulkEditOptions = {}
+): Promise<BulkEditResult> {
+  const meta = await db.datasets.get(datasetId);
+  if (!meta) throw new Error(`Dataset ${datasetId} no longer exists`);
+  return applyBulkEdit(
+    datasetId,
+    target,
+    (_, column) => parseCell(text, meta.schema[column] ?? "string"),
+    options
+  );
+}
@@ -0,0 +1,146 @@
+import Dexie from "dexie";
+import { db, type CellValue, type ColumnType, type OriginalValue } from "./db";
+import { cellToText, parseCell } from "./columnTypes";
+
+/**
+ * A modified cell with its imported and current values.
+ */
+export interface ChangedCell {
+  readonly rowId: number;
+  readonly column: string;
+  readonly original: CellValue;
+  /** `undefined` when the row itself no longer exists */
+  readonly current: CellValue | undefined;
+}
+
+/**
+ * Modified cells of a dataset as row id → columns, for marking table cells.
+ */
+export type DirtyCells = ReadonlyMap<number, ReadonlySet<string>>;
+
+function datasetOriginals(datasetId: number) {
+  return db.originals
+    .where("[datasetId+rowId+column]")
+    .between(
+      [datasetId, Dexie.minKey, Dexie.minKey],
+      [datasetId, Dexie.maxKey, Dexie.maxKey]
+    );
+}
+
+/**
+ * Keeps the imported value of a cell being written.
+ *
+ * The first change stores `previous` as the original; writing the original
+ * back forgets it, so the cell is clean again. Call inside the write's
+ * transaction.
+ */
+export async function trackOriginal(
+  datasetId: number,
+  rowId: number,
+  column: string,
+  previous: CellValue,
+  next: CellValue,
+  type: ColumnType
+): Promise<void> {
+  const existing = await db.originals.get([datasetId, rowId, column]);
+  const original = existing ? existing.value : previous;
+
+  if (cellToText(original, type) === cellToText(next, type)) {
+    if (existing) await db.originals.delete([datasetId, rowId, column]);
+  } else if (!existing) {
+    await db.originals.add({ datasetId, rowId, column, value: previous });
+  }
+}
+
+/**
+ * Groups modified cells by row id.
+ */
+export function toDirtyCells(
+  cells: readonly { readonly rowId: number; readonly column: string }[]
+): DirtyCells {
+  const dirty = new Map<number, Set<string>>();
+  for (const { rowId, column } of cells) {
+    let columns = dirty.get(rowId);
+    if (!columns) {
+      columns = new Set();
+      dirty.set(rowId, columns);
+    }
+    columns.add(column);
+  }
+  return dirty;
+}
+
+/**
+ * Every modified cell with its original and current value, by row id.
+ */
+export async function changedCells(datasetId: number): Promise<ChangedCell[]> {
+  const originals = await datasetOriginals(datasetId).toArray();
+  const rowIds = [...new Set(originals.map((entry) => entry.rowId))];
+  const rows = await db.rows.bulkGet(rowIds);
+  const dataById = new Map(
+    rows.map((row, i) => [rowIds[i], row?.data] as const)
+  );
+
+  return originals.map((entry: OriginalValue) => {
+    const data = dataById.get(entry.rowId);
+    return {
+      rowId: entry.rowId,
+      column: entry.column,
+      original: entry.value,
+      current: data ? (data[entry.column] ?? null) : undefined,
+    };
+  });
+}
+
+/**
+ * Ids (ascending) of rows with at least one modified cell.
+ */
+export async function changedRowIds(datasetId: number): Promise<number[]> {
+  const keys = (await datasetOriginals(datasetId).primaryKeys()) as [
+    number,
+    number,
+    string,
+  ][];
+  return [...new Set(keys.map(([, rowId]) => rowId))];
+}
+
+/**
+ * Treats the current values as original again, e.g. after rows were
+ * re-imported. Limited to some columns when `columns` is given.
+ */
+export async function forgetOriginals(
+  datasetId: number,
+  rowIds: readonly number[],
+  columns?: readonly string[]
+): Promise<void> {
+  const wanted = columns ? new Set(columns) : null;
+  await db.originals
+    .where("[datasetId+rowId]")
+    .anyOf(rowIds.map((rowId) => [datasetId, rowId]))
+    .filter((entry) => !wanted || wanted.has(entry.column))
+    .delete();
+}
+
+/**
+ * Reads the original values of a column in its new type, as its cells are
+ * when the column's type changes. Call inside the change's transaction.
+ */
+export async function convertOriginals(
+  datasetId: number,
+  column: string,
+  from: ColumnType,
+  to: ColumnType
+): Promise<void> {
+  await datasetOriginals(datasetId)
+    .filter((entry) => entry.column === column)
+    .modify((entry) => {
+      entry.value = parseCell(cellToText(entry.value, from), to);
+    });
+}
+
+/**
+ * Forgets every original value of a dataset.
+ */
+export async function clearOriginals(datasetId: number): Promise<void> {
+  await datasetOriginals(datasetId).delete();
+}
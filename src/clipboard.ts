@@ -0,0 +1,23 @@
+import Papa from "papaparse";
+
+/**
+ * Serializes a block of cells as TSV the way spreadsheets put it on the
+ * clipboard: fields holding tabs, line breaks or quotes are quoted.
+ */
+export function toTsv(cells: readonly (readonly string[])[]): string {
+  return Papa.unparse(cells as string[][], {
+    delimiter: "\t",
+    newline: "\r\n",
+  });
+}
+
+/**
+ * Parses clipboard TSV into rows of fields.
+ *
+ * The line break spreadsheets append after the last row is not an extra row.
+ */
+export function parseTsv(text: string): string[][] {
+  const trimmed = text.replace(/\r?\n$/, "");
+  if (trimmed === "") return [[""]];
+  return Papa.parse<string[]>(trimmed, { delimiter: "\t" }).data;
+}
@@ -0,0 +1,94 @@
+import { db, type ColumnLayout } from "./db";
+
+/**
+ * Width bounds of data columns, in pixels.
+ */
+export const MIN_COLUMN_WIDTH_PX = 48;
+const MAX_AUTO_WIDTH_PX = 480;
+/**
+ * Width of columns not yet fitted to any loaded rows.
+ */
+export const DEFAULT_COLUMN_WIDTH_PX = 160;
+/**
+ * Cell padding plus room for the header's sort marker.
+ */
+const CELL_CHROME_PX = 32;
+
+/**
+ * Columns in display order: pinned ones first, then the rest, both in the
+ * layout's order, without hidden ones.
+ */
+export function displayColumns(
+  columns: readonly string[],
+  layout: ColumnLayout | undefined
+): string[] {
+  const known = new Set(columns);
+  const ordered = [
+    ...(layout?.order ?? []).filter((col) => known.has(col)),
+    ...columns.filter((col) => !layout?.order?.includes(col)),
+  ];
+  const hidden = new Set(layout?.hidden);
+  const pinned = new Set(layout?.pinned);
+  const visible = ordered.filter((col) => !hidden.has(col));
+  return [
+    ...visible.filter((col) => pinned.has(col)),
+    ...visible.filter((col) => !pinned.has(col)),
+  ];
+}
+
+/**
+ * Layout with `column` moved in front of `before`, or to the end.
+ */
+export function moveColumn(
+  columns: readonly string[],
+  layout: ColumnLayout | undefined,
+  column: string,
+  before: string | null
+): ColumnLayout {
+  const known = new Set(columns);
+  const order = [
+    ...(layout?.order ?? []).filter((col) => known.has(col)),
+    ...columns.filter((col) => !layout?.order?.includes(col)),
+  ].filter((col) => col !== column);
+  const at = before === null ? -1 : order.indexOf(before);
+  order.splice(at < 0 ? order.length : at, 0, column);
+  return { ...layout, order };
+}
+
+/**
+ * Stores the column layout of a dataset.
+ */
+export async function saveColumnLayout(
+  datasetId: number,
+  layout: ColumnLayout
+): Promise<void> {
+  await db.datasets.update(datasetId, { layout });
+}
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+/**
+ * Width a column needs to show its header and the given cell texts in
+ * `font` (a CSS font shorthand), within sensible bounds.
+ */
+export function fitColumnWidth(
+  header: string,
+  texts: Iterable<string>,
+  font: string
+): number {
+  measureContext ??= document.createElement("canvas").getContext("2d");
+  if (!measureContext) return DEFAULT_COLUMN_WIDTH_PX;
+  measureContext.font = font;
+
+  // Headers are bold, so measure them a little wider
+  let widest = measureContext.measureText(header).width * 1.1;
+  for (const text of texts) {
+    widest = Math.max(widest, measureContext.measureText(text).width);
+  }
+  return Math.round(
+    Math.min(
+      MAX_AUTO_WIDTH_PX,
+      Math.max(MIN_COLUMN_WIDTH_PX, widest + CELL_CHROME_PX)
+    )
+  );
+}
@@ -0,0 +1,225 @@
+import type { CellValue, ColumnSchema, ColumnType } from "./db";
+
+export const COLUMN_TYPES: readonly ColumnType[] = [
+  "string",
+  "integer",
+  "decimal",
+  "boolean",
+  "date",
+  "datetime",
+];
+
+const PATTERNS = {
+  /** No leading zeros, so identifiers like "007" or zip codes stay strings */
+  integer: /^[+-]?(0|[1-9]\d*)$/,
+  decimal: /^[+-]?(0|[1-9]\d*)?(\.\d+)?([eE][+-]?\d+)?$/,
+  boolean: /^(true|false|yes|no)$/i,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  datetime:
+    /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/,
+} as const;
+
+/**
+ * Candidate types checked in order of preference; the first one every sampled
+ * value satisfies wins. Date values also satisfy `datetime`, integers `decimal`.
+ */
+const INFERENCE_ORDER = [
+  "boolean",
+  "integer",
+  "decimal",
+  "date",
+  "datetime",
+] as const satisfies readonly ColumnType[];
+
+type InferableType = (typeof INFERENCE_ORDER)[number];
+
+/**
+ * Significant digits of a number's text, without sign, point, exponent or
+ * leading and trailing zeros.
+ */
+function significantDigits(text: string): string {
+  return text
+    .replace(/[eE].*$/, "")
+    .replace(/[^\d]/g, "")
+    .replace(/^0+|0+$/g, "");
+}
+
+function matches(type: InferableType, text: string): boolean {
+  if (!PATTERNS[type].test(text)) return false;
+  switch (type) {
+    case "integer":
+      return Number.isSafeInteger(Number(text));
+    case "decimal": {
+      // Wider numbers would be rounded, e.g. account numbers beyond 2^53
+      const value = Number(text);
+      return (
+        Number.isFinite(value) &&
+        significantDigits(String(value)) === significantDigits(text)
+      );
+    }
+    case "date":
+    case "datetime":
+      return !Number.isNaN(parseDate(text, type).getTime());
+    default:
+      return true;
+  }
+}
+
+/**
+ * Parses date text; an invalid date when it names a day that does not
+ * exist, which `Date` would otherwise roll over (2024-02-30 to March 1st).
+ */
+function parseDate(text: string, type: "date" | "datetime"): Date {
+  const [year, month, day] = text.slice(0, 10).split("-").map(Number);
+  // Any day of the month exists in every timezone, so check it in UTC
+  const calendar = new Date(0);
+  calendar.setUTCFullYear(year, month - 1, day);
+  if (
+    calendar.getUTCFullYear() !== year ||
+    calendar.getUTCMonth() !== month - 1 ||
+    calendar.getUTCDate() !== day
+  ) {
+    return new Date(NaN);
+  }
+
+  // Date-only values are pinned to UTC midnight so they never shift by timezone
+  if (type === "date" || PATTERNS.date.test(text)) {
+    return new Date(`${text}T00:00:00Z`);
+  }
+  return new Date(text.replace(" ", "T"));
+}
+
+/**
+ * Incrementally narrows the possible type of every column from sampled rows.
+ */
+export class ColumnTypeInferrer {
+  /** Types still possible per column; absent until a non-empty value is seen */
+  private readonly candidates = new Map<string, Set<InferableType>>();
+  private sampled = 0;
+  private readonly sampleSize: number;
+
+  constructor(sampleSize: number) {
+    this.sampleSize = sampleSize;
+  }
+
+  isSaturated(): boolean {
+    return this.sampled >= this.sampleSize;
+  }
+
+  observe(row: Record<string, string>): void {
+    if (this.isSaturated()) return;
+    this.sampled++;
+
+    for (const [col, raw] of Object.entries(row)) {
+      const text = raw?.trim() ?? "";
+      if (text === "") continue;
+
+      let remaining = this.candidates.get(col);
+      if (!remaining) {
+        remaining = new Set(INFERENCE_ORDER);
+        this.candidates.set(col, remaining);
+      }
+
+      for (const type of remaining) {
+        if (!matches(type, text)) remaining.delete(type);
+      }
+    }
+  }
+
+  /**
+   * Inferred type per column; columns without any sampled value are strings.
+   */
+  result(columns: readonly string[]): ColumnSchema {
+    const schema: ColumnSchema = {};
+    for (const col of columns) {
+      const remaining = this.candidates.get(col);
+      schema[col] = remaining
+        ? (INFERENCE_ORDER.find((type) => remaining.has(type)) ?? "string")
+        : "string";
+    }
+    return schema;
+  }
+}
+
+/**
+ * Converts raw text to the stored value of a column type.
+ *
+ * Empty text becomes `null`. Text that does not fit the type is kept as-is,
+ * so a bad sample never loses data.
+ */
+export function parseCell(raw: string, type: ColumnType): CellValue {
+  const text = raw.trim();
+  if (text === "") return null;
+  if (type === "string") return raw;
+  if (!matches(type, text)) return raw;
+
+  switch (type) {
+    case "integer":
+    case "decimal":
+      return Number(text);
+    case "boolean":
+      return /^(true|yes)$/i.test(text);
+    case "date":
+    case "datetime":
+      return parseDate(text, type);
+  }
+}
+
+/**
+ * Canonical text form of a stored value; `parseCell` reads it back unchanged.
+ */
+export function cellToText(
+  value: CellValue | undefined,
+  type: ColumnType
+): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) {
+    return type === "date"
+      ? value.toISOString().slice(0, 10)
+      : value.toISOString();
+  }
+  return String(value);
+}
+
+/**
+ * Human-friendly rendering of a stored value for table cells.
+ */
+export function formatCell(
+  value: CellValue | undefined,
+  type: ColumnType
+): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "number") return value.toLocaleString();
+  if (value instanceof Date) {
+    return type === "date"
+      ? value.toLocaleDateString(undefined, { timeZone: "UTC" })
+      : value.toLocaleString();
+  }
+  return String(value);
+}
+
+/**
+ * Whether cells of this type are right-aligned like numbers.
+ */
+export function isRightAligned(type: ColumnType): boolean {
+  return (
+    type === "integer" ||
+    type === "decimal" ||
+    type === "date" ||
+    type === "datetime"
+  );
+}
+
+/**
+ * Converts every value of a raw row according to the schema.
+ */
+export function convertRow(
+  data: Record<string, string>,
+  schema: ColumnSchema
+): Record<string, CellValue> {
+  const converted: Record<string, CellValue> = {};
+  for (const [col, raw] of Object.entries(data)) {
+    converted[col] = parseCell(raw ?? "", schema[col] ?? "string");
+  }
+  return converted;
+}
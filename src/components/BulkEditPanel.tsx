@@ -0,0 +1,246 @@
+import { useState, type JSX } from "react";
+import type { FindOptions } from "../bulkEdit";
+
+/** Cells find and replace works on */
+export type FindScope = "dataset" | "column" | "selection";
+
+/** Options chosen in the panel; the caller resolves the scope to cells */
+export type FindReplaceSettings = FindOptions & {
+  readonly replacement: string;
+  readonly scope: FindScope;
+  /** Column searched when `scope` is "column" */
+  readonly column: string;
+};
+
+export interface BulkEditPanelProps {
+  columns: readonly string[];
+  /** Size of the table's selected cell range, or null without one */
+  selection: { readonly rows: number; readonly columns: number } | null;
+  /** Rows processed and in scope while an operation runs, else null */
+  progress: { readonly processed: number; readonly total: number } | null;
+  /** Outcome of the last operation */
+  message?: string | null;
+  disabled?: boolean;
+  /** Counts matches; resolves to null when cancelled or failed */
+  onPreview: (
+    settings: FindReplaceSettings
+  ) => Promise<{ rows: number; cells: number } | null>;
+  onReplace: (settings: FindReplaceSettings) => void;
+  onFillDown: () => void;
+  onSetValue: (text: string) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Collapsible find and replace form with a match preview, plus bulk edits of
+ * the selected cells. Key it by dataset so choices reset on switch.
+ */
+export function BulkEditPanel({
+  columns,
+  selection,
+  progress,
+  message = null,
+  disabled = false,
+  onPreview,
+  onReplace,
+  onFillDown,
+  onSetValue,
+  onCancel,
+}: BulkEditPanelProps): JSX.Element {
+  const [find, setFind] = useState<string>("");
+  const [replacement, setReplacement] = useState<string>("");
+  const [regex, setRegex] = useState<boolean>(false);
+  const [caseSensitive, setCaseSensitive] = useState<boolean>(false);
+  const [scope, setScope] = useState<FindScope>("dataset");
+  const [column, setColumn] = useState<string>(columns[0] ?? "");
+  const [value, setValue] = useState<string>("");
+  const [preview, setPreview] = useState<{
+    rows: number;
+    cells: number;
+  } | null>(null);
+
+  const settings: FindReplaceSettings = {
+    find,
+    replacement,
+    regex,
+    caseSensitive,
+    scope,
+    column,
+  };
+  // Any change of the search makes the preview stale
+  const change =
+    <T,>(set: (value: T) => void) =>
+    (value: T) => {
+      set(value);
+      setPreview(null);
+    };
+
+  let invalidRegex: string | null = null;
+  if (regex && find) {
+    try {
+      new RegExp(find);
+    } catch (e) {
+      invalidRegex = (e as Error).message;
+    }
+  }
+
+  const busy = progress !== null;
+  const locked = disabled || busy;
+  const canFind =
+    find !== "" &&
+    invalidRegex === null &&
+    (scope !== "selection" || selection !== null);
+
+  return (
+    <details style={{ marginBottom: 12 }}>
+      <summary>Find and replace</summary>
+      <div
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          gap: 8,
+          alignItems: "center",
+          marginTop: 8,
+        }}
+      >
+        <input
+          aria-label="Find"
+          placeholder="Find"
+          value={find}
+          onChange={(e) => change(setFind)(e.target.value)}
+          disabled={locked}
+        />
+        <input
+          aria-label="Replace with"
+          placeholder={regex ? "Replace with ($1 for groups)" : "Replace with"}
+          value={replacement}
+          onChange={(e) => setReplacement(e.target.value)}
+          disabled={locked}
+        />
+        <label style={{ display: "inline-flex", alignItems: "center", gap: 4 }}>
+          <input
+            type="checkbox"
+            checked={regex}
+            onChange={(e) => change(setRegex)(e.target.checked)}
+            disabled={locked}
+          />
+          Regex
+        </label>
+        <label style={{ display: "inline-flex", alignItems: "center", gap: 4 }}>
+          <input
+            type="checkbox"
+            checked={caseSensitive}
+            onChange={(e) => change(setCaseSensitive)(e.target.checked)}
+            disabled={locked}
+          />
+          Match case
+        </label>
+        <select
+          aria-label="Find scope"
+          value={scope}
+          onChange={(e) => change(setScope)(e.target.value as FindScope)}
+          disabled={locked}
+        >
+          <option value="dataset">Whole dataset</option>
+          <option value="column">One column</option>
+          <option value="selection" disabled={selection === null}>
+            Selected cells
+          </option>
+        </select>
+        {scope === "column" && (
+          <select
+            aria-label="Find in column"
+            value={column}
+            onChange={(e) => change(setColumn)(e.target.value)}
+            disabled={locked}
+          >
+            {columns.map((col) => (
+              <option key={col} value={col}>
+                {col}
+              </option>
+            ))}
+          </select>
+        )}
+        <button
+          onClick={async () => setPreview(await onPreview(settings))}
+          disabled={locked || !canFind}
+        >
+          Preview
+        </button>
+        <button
+          onClick={() => {
+            onReplace(settings);
+            setPreview(null);
+          }}
+          disabled={locked || !canFind}
+        >
+          Replace all
+        </button>
+        {invalidRegex && (
+          <span style={{ color: "crimson" }}>{invalidRegex}</span>
+        )}
+        {preview && !busy && (
+          <span>
+            {preview.cells.toLocaleString()} cells in{" "}
+            {preview.rows.toLocaleString()} rows match
+          </span>
+        )}
+      </div>
+
+      <div
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          gap: 8,
+          alignItems: "center",
+          marginTop: 8,
+        }}
+      >
+        <span style={{ color: "#666" }}>
+          {selection
+            ? `Selected: ${selection.rows.toLocaleString()} rows × ${selection.columns} columns`
+            : "Select cells in the table for bulk edits"}
+        </span>
+        <button
+          onClick={onFillDown}
+          disabled={locked || !selection || selection.rows < 2}
+          title="Copy the first selected row's values into the rows below it"
+        >
+          Fill down
+        </button>
+        <input
+          aria-label="Value for selected cells"
+          placeholder="Value"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          disabled={locked}
+        />
+        <button
+          onClick={() => onSetValue(value)}
+          disabled={locked || !selection}
+        >
+          Set all selected
+        </button>
+      </div>
+
+      {message && !busy && <div style={{ marginTop: 8 }}>{message}</div>}
+
+      {busy && (
+        <div
+          style={{
+            display: "flex",
+            gap: 8,
+            alignItems: "center",
+            marginTop: 8,
+          }}
+        >
+          <span>
+            Processed {progress.processed.toLocaleString()} of{" "}
+            {progress.total.toLocaleString()} rows...
+          </span>
+          <button onClick={onCancel}>Cancel</button>
+        </div>
+      )}
+    </details>
+  );
+}
@@ -0,0 +1,118 @@
+import { useState, type JSX } from "react";
+import type { ColumnSchema } from "../db";
+import type { ChangedCell } from "../changes";
+import { formatCell } from "../columnTypes";
+
+export interface ChangesPanelProps {
+  cells: ChangedCell[];
+  schema: ColumnSchema;
+  disabled?: boolean;
+  /** Puts the imported values back into the given cells */
+  onRevert: (cells: ChangedCell[]) => void;
+}
+
+const cellKey = (cell: ChangedCell) => `${cell.rowId}\u0000${cell.column}`;
+
+/**
+ * Collapsible diff of modified cells against the imported data, with
+ * selection and revert.
+ */
+export function ChangesPanel({
+  cells,
+  schema,
+  disabled = false,
+  onRevert,
+}: ChangesPanelProps): JSX.Element {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const selectedCells = cells.filter((cell) => selected.has(cellKey(cell)));
+  const allSelected = cells.length > 0 && selectedCells.length === cells.length;
+  const show = (cell: ChangedCell, value: ChangedCell["current"]) =>
+    value === undefined
+      ? "(row deleted)"
+      : formatCell(value, schema[cell.column] ?? "string") || "(empty)";
+
+  const toggle = (cell: ChangedCell, checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(cellKey(cell));
+      else next.delete(cellKey(cell));
+      return next;
+    });
+  };
+
+  const cellStyle = { padding: "2px 8px", borderBottom: "1px solid #f1f1f1" };
+
+  return (
+    <details style={{ marginBottom: 12 }}>
+      <summary>Changes ({cells.length.toLocaleString()} cells)</summary>
+      <div style={{ display: "flex", gap: 8, marginTop: 8 }}>
+        <button
+          onClick={() => {
+            onRevert(selectedCells);
+            setSelected(new Set());
+          }}
+          disabled={disabled || selectedCells.length === 0}
+        >
+          Revert selected ({selectedCells.length.toLocaleString()})
+        </button>
+      </div>
+      {cells.length === 0 ? (
+        <div style={{ color: "#777", marginTop: 8 }}>
+          No changes since import
+        </div>
+      ) : (
+        <div style={{ maxHeight: 240, overflow: "auto", marginTop: 8 }}>
+          <table style={{ borderCollapse: "collapse" }}>
+            <thead>
+              <tr>
+                <th style={cellStyle}>
+                  <input
+                    type="checkbox"
+                    aria-label="Select all changes"
+                    checked={allSelected}
+                    onChange={(e) =>
+                      setSelected(
+                        e.target.checked
+                          ? new Set(cells.map(cellKey))
+                          : new Set()
+                      )
+                    }
+                  />
+                </th>
+                <th style={{ ...cellStyle, textAlign: "left" }}>Row</th>
+                <th style={{ ...cellStyle, textAlign: "left" }}>Column</th>
+                <th style={{ ...cellStyle, textAlign: "left" }}>Original</th>
+                <th style={{ ...cellStyle, textAlign: "left" }}>Current</th>
+              </tr>
+            </thead>
+            <tbody>
+              {cells.map((cell) => (
+                <tr key={cellKey(cell)}>
+                  <td style={cellStyle}>
+                    <input
+                      type="checkbox"
+                      aria-label={`Select row ${cell.rowId}, ${cell.column}`}
+                      checked={selected.has(cellKey(cell))}
+                      onChange={(e) => toggle(cell, e.target.checked)}
+                    />
+                  </td>
+                  <td style={{ ...cellStyle, fontFamily: "monospace" }}>
+                    {cell.rowId}
+                  </td>
+                  <td style={cellStyle}>{cell.column}</td>
+                  <td style={{ ...cellStyle, color: "#888" }}>
+                    {show(cell, cell.original)}
+                  </td>
+                  <td style={{ ...cellStyle, background: "#fdf0dc" }}>
+                    {show(cell, cell.current)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </details>
+  );
+}
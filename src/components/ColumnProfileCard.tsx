@@ -0,0 +1,98 @@
+import type { JSX } from "react";
+import type { ColumnProfile, ColumnType } from "../db";
+import { formatCell } from "../columnTypes";
+import { profileMean } from "../profile";
+
+export interface ColumnProfileCardProps {
+  column: string;
+  type: ColumnType;
+  profile: ColumnProfile;
+}
+
+function percent(part: number, whole: number): string {
+  return whole > 0 ? ` (${((part / whole) * 100).toFixed(1)}%)` : "";
+}
+
+/**
+ * Statistics of one column, as shown in the header popover.
+ */
+export function ColumnProfileCard({
+  column,
+  type,
+  profile,
+}: ColumnProfileCardProps): JSX.Element {
+  const mean = profileMean(profile);
+  const stale = profile.boundsStale ? " (may be outdated)" : "";
+  const cellStyle = { padding: "2px 8px", borderBottom: "1px solid #f1f1f1" };
+  const stats: [string, string][] = [
+    ["Cells", profile.count.toLocaleString()],
+    [
+      "Empty",
+      profile.empty.toLocaleString() + percent(profile.empty, profile.count),
+    ],
+    [
+      "Distinct",
+      (profile.distinctApproximate ? "~" : "") +
+        profile.distinct.toLocaleString(),
+    ],
+    [
+      "Type mismatches",
+      profile.mismatches.toLocaleString() +
+        percent(profile.mismatches, profile.count),
+    ],
+    ["Min", formatCell(profile.min, type) + stale],
+    ["Max", formatCell(profile.max, type) + stale],
+  ];
+  if (mean !== null) stats.push(["Mean", mean.toLocaleString()]);
+
+  return (
+    <div style={{ fontWeight: 400, textAlign: "left" }}>
+      <div style={{ fontWeight: 600, marginBottom: 4 }}>
+        {column} <span style={{ color: "#888" }}>({type})</span>
+      </div>
+      <table style={{ borderCollapse: "collapse" }}>
+        <tbody>
+          {stats.map(([label, value]) => (
+            <tr key={label}>
+              <th style={{ ...cellStyle, textAlign: "left", fontWeight: 400 }}>
+                {label}
+              </th>
+              <td style={cellStyle}>{value}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {profile.top.length > 0 && (
+        <>
+          <div style={{ fontWeight: 600, margin: "8px 0 4px" }}>
+            Most frequent{profile.topApproximate ? " (approximate)" : ""}
+          </div>
+          <table style={{ borderCollapse: "collapse" }}>
+            <tbody>
+              {profile.top.map((entry) => (
+                <tr key={entry.value}>
+                  <td
+                    style={{
+                      ...cellStyle,
+                      maxWidth: 200,
+                      overflow: "hidden",
+                      textOverflow: "ellipsis",
+                      whiteSpace: "nowrap",
+                    }}
+                    title={entry.value}
+                  >
+                    {entry.value}
+                  </td>
+                  <td style={{ ...cellStyle, textAlign: "right" }}>
+                    {entry.count.toLocaleString()}
+                    {percent(entry.count, profile.count)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import type { JSX } from "react";
+import type { ColumnLayout } from "../db";
+import { displayColumns, moveColumn } from "../columnLayout";
+
+export interface ColumnsPanelProps {
+  columns: readonly string[];
+  layout?: ColumnLayout;
+  disabled?: boolean;
+  onChange: (layout: ColumnLayout) => void;
+}
+
+/**
+ * Collapsible list of columns in table order, to show, hide, pin and move
+ * them and to reset widths or the whole layout.
+ */
+export function ColumnsPanel({
+  columns,
+  layout,
+  disabled = false,
+  onChange,
+}: ColumnsPanelProps): JSX.Element {
+  // Table order, hidden columns included
+  const ordered = displayColumns(columns, { ...layout, hidden: [] });
+  const hidden = new Set(layout?.hidden);
+  const pinned = new Set(layout?.pinned);
+
+  const toggle = (
+    key: "hidden" | "pinned",
+    column: string,
+    on: boolean
+  ): void => {
+    const current = (layout?.[key] ?? []).filter((col) => col !== column);
+    onChange({ ...layout, [key]: on ? [...current, column] : current });
+  };
+
+  // Moves a column past its neighbour in table order
+  const move = (index: number, by: -1 | 1): void => {
+    const column = ordered[index];
+    const before = by < 0 ? ordered[index - 1] : (ordered[index + 2] ?? null);
+    onChange(moveColumn(columns, layout, column, before));
+  };
+
+  const cellStyle = { padding: "2px 8px", borderBottom: "1px solid #f1f1f1" };
+
+  return (
+    <details style={{ marginBottom: 12 }}>
+      <summary>
+        Columns ({(columns.length - hidden.size).toLocaleString()} of{" "}
+        {columns.length.toLocaleString()} shown)
+      </summary>
+      <div style={{ display: "flex", gap: 8, marginTop: 8 }}>
+        <button
+          onClick={() => onChange({ ...layout, widths: {} })}
+          disabled={disabled || !layout?.widths}
+          title="Fit every column to its loaded rows again"
+        >
+          Reset widths
+        </button>
+        <button onClick={() => onChange({})} disabled={disabled || !layout}>
+          Reset layout
+        </button>
+      </div>
+      <div style={{ maxHeight: 240, overflow: "auto", marginTop: 8 }}>
+        <table style={{ borderCollapse: "collapse" }}>
+          <thead>
+            <tr>
+              <th style={{ ...cellStyle, textAlign: "left" }}>Column</th>
+              <th style={cellStyle}>Visible</th>
+              <th style={cellStyle}>Pinned</th>
+              <th style={cellStyle}>Move</th>
+            </tr>
+          </thead>
+          <tbody>
+            {ordered.map((col, index) => (
+              <tr key={col}>
+                <td style={cellStyle}>{col}</td>
+                <td style={{ ...cellStyle, textAlign: "center" }}>
+                  <input
+                    type="checkbox"
+                    aria-label={`Show ${col}`}
+                    checked={!hidden.has(col)}
+                    onChange={(e) => toggle("hidden", col, !e.target.checked)}
+                    disabled={disabled}
+                  />
+                </td>
+                <td style={{ ...cellStyle, textAlign: "center" }}>
+                  <input
+                    type="checkbox"
+                    aria-label={`Pin ${col}`}
+                    checked={pinned.has(col)}
+                    onChange={(e) => toggle("pinned", col, e.target.checked)}
+                    disabled={disabled}
+                  />
+                </td>
+                <td style={cellStyle}>
+                  <button
+                    aria-label={`Move ${col} left`}
+                    onClick={() => move(index, -1)}
+                    disabled={disabled || index === 0}
+                  >
+                    ↑
+                  </button>
+                  <button
+                    aria-label={`Move ${col} right`}
+                    onClick={() => move(index, 1)}
+                    disabled={disabled || index === ordered.length - 1}
+                  >
+                    ↓
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,138 @@
+import { useState, type JSX } from "react";
+import type { ComputedColumn } from "../db";
+import { compileComputedColumns } from "../computedColumns";
+import { FUNCTION_NAMES } from "../expressions";
+
+export interface ComputedColumnsPanelProps {
+  /** Imported (not computed) columns */
+  columns: readonly string[];
+  computed: readonly ComputedColumn[];
+  /** Set while values are being computed */
+  busy: boolean;
+  disabled?: boolean;
+  onSave: (name: string, expression: string) => void;
+  onRemove: (name: string) => void;
+}
+
+/**
+ * Collapsible list of computed columns with a form adding or changing one.
+ * Expressions are checked as they are typed.
+ */
+export function ComputedColumnsPanel({
+  columns,
+  computed,
+  busy,
+  disabled = false,
+  onSave,
+  onRemove,
+}: ComputedColumnsPanelProps): JSX.Element {
+  const [name, setName] = useState("");
+  const [expression, setExpression] = useState("");
+
+  const locked = disabled || busy;
+  const cellStyle = { padding: "2px 8px", borderBottom: "1px solid #f1f1f1" };
+  const existing = computed.findIndex((column) => column.name === name);
+  // Same check as on save: the column sees only the ones defined before it
+  let problem: string | null = null;
+  if (columns.includes(name)) {
+    problem = `"${name}" is already an imported column`;
+  } else if (expression.trim() !== "") {
+    const next =
+      existing < 0
+        ? [...computed, { name, expression }]
+        : computed.map((column, i) =>
+            i === existing ? { name, expression } : column
+          );
+    try {
+      compileComputedColumns(next, columns);
+    } catch (e) {
+      problem = (e as Error).message;
+    }
+  }
+
+  return (
+    <details style={{ marginBottom: 12 }}>
+      <summary>Computed columns</summary>
+      {computed.length > 0 && (
+        <table style={{ borderCollapse: "collapse", marginTop: 8 }}>
+          <tbody>
+            {computed.map((column) => (
+              <tr key={column.name}>
+                <td style={cellStyle}>{column.name}</td>
+                <td style={{ ...cellStyle, fontFamily: "monospace" }}>
+                  {column.expression}
+                </td>
+                <td style={cellStyle}>
+                  <button
+                    onClick={() => {
+                      setName(column.name);
+                      setExpression(column.expression);
+                    }}
+                    disabled={locked}
+                  >
+                    Edit
+                  </button>{" "}
+                  <button
+                    aria-label={`Remove ${column.name}`}
+                    onClick={() => onRemove(column.name)}
+                    disabled={locked}
+                  >
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      <div
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          gap: 8,
+          alignItems: "center",
+          marginTop: 8,
+        }}
+      >
+        <input
+          aria-label="Computed column name"
+          placeholder="Name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          disabled={locked}
+        />
+        <input
+          aria-label="Expression"
+          placeholder='e.g. [unit price] * qty or upper(name) & "!"'
+          value={expression}
+          onChange={(e) => setExpression(e.target.value)}
+          aria-invalid={problem !== null}
+          disabled={locked}
+          style={{ flex: 1, minWidth: 240, fontFamily: "monospace" }}
+        />
+        <button
+          onClick={() => onSave(name.trim(), expression)}
+          disabled={
+            locked ||
+            name.trim() === "" ||
+            expression.trim() === "" ||
+            problem !== null
+          }
+        >
+          {existing < 0 ? "Add column" : "Update column"}
+        </button>
+        {busy && <span>Computing values...</span>}
+      </div>
+      {problem && (
+        <div role="alert" style={{ color: "#c0392b", marginTop: 4 }}>
+          {problem}
+        </div>
+      )}
+      <div style={{ color: "#666", marginTop: 4 }}>
+        Use columns by name, or in brackets when the name has spaces. Operators:
+        + - * / % &amp; (join text), = != &lt; &lt;= &gt; &gt;=, and, or, not,
+        test ? a : b. Functions: {FUNCTION_NAMES.join(", ")}.
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,64 @@
+import { useCallback, type JSX } from "react";
+import type { Meta } from "../db";
+
+export interface DatasetSwitcherProps {
+  datasets: readonly Meta[];
+  activeId: number | null;
+  disabled?: boolean;
+  onSelect: (datasetId: number) => void;
+  onRename: (datasetId: number, name: string) => void;
+  onDelete: (datasetId: number) => void;
+}
+
+/**
+ * Dataset catalog picker with rename and delete actions for the selected entry.
+ */
+export function DatasetSwitcher({
+  datasets,
+  activeId,
+  disabled = false,
+  onSelect,
+  onRename,
+  onDelete,
+}: DatasetSwitcherProps): JSX.Element {
+  const active = datasets.find((d) => d.id === activeId);
+
+  const handleRename = useCallback((): void => {
+    if (active?.id === undefined) return;
+    const name = window.prompt("Rename dataset", active.name);
+    if (name !== null && name.trim() && name !== active.name) {
+      onRename(active.id, name);
+    }
+  }, [active, onRename]);
+
+  const handleDelete = useCallback((): void => {
+    if (active?.id === undefined) return;
+    if (window.confirm(`Delete dataset "${active.name}" and all its rows?`)) {
+      onDelete(active.id);
+    }
+  }, [active, onDelete]);
+
+  return (
+    <div style={{ display: "inline-flex", alignItems: "center", gap: 6 }}>
+      <select
+        aria-label="Dataset"
+        value={activeId ?? ""}
+        onChange={(e) => onSelect(Number(e.target.value))}
+        disabled={disabled || datasets.length === 0}
+      >
+        {datasets.length === 0 && <option value="">No datasets</option>}
+        {datasets.map((d) => (
+          <option key={d.id} value={d.id}>
+            {d.name} ({d.rowCount.toLocaleString()} rows)
+          </option>
+        ))}
+      </select>
+      <button onClick={handleRename} disabled={disabled || !active}>
+        Rename
+      </button>
+      <button onClick={handleDelete} disabled={disabled || !active}>
+        Delete
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+import { useState, type JSX } from "react";
+import type { ExportOptions, LineEnding, QuoteStyle } from "../csvExporter";
+
+/** Options chosen in the panel; order and progress are supplied by the caller */
+export type ExportSettings = Pick<
+  ExportOptions,
+  "delimiter" | "quoteStyle" | "lineEnding" | "bom" | "columns"
+> & {
+  /** Keep the table's current sort/filter order instead of id order */
+  readonly currentView: boolean;
+  /** Write only rows with cells modified since import */
+  readonly changedOnly: boolean;
+};
+
+export interface ExportPanelProps {
+  columns: string[];
+  exporting: boolean;
+  /** Rows written so far by the running export */
+  rowsExported: number;
+  disabled?: boolean;
+  onExport: (settings: ExportSettings) => void;
+  onCancel: () => void;
+}
+
+const DELIMITERS: { label: string; value: string }[] = [
+  { label: "Comma", value: "," },
+  { label: "Semicolon", value: ";" },
+  { label: "Tab", value: "\t" },
+  { label: "Pipe", value: "|" },
+];
+
+/**
+ * Collapsible "Export CSV" form with delimiter, quoting, line ending, BOM
+ * and column selection. Key it by dataset so choices reset on switch.
+ */
+export function ExportPanel({
+  columns,
+  exporting,
+  rowsExported,
+  disabled = false,
+  onExport,
+  onCancel,
+}: ExportPanelProps): JSX.Element {
+  const [delimiter, setDelimiter] = useState<string>(",");
+  const [quoteStyle, setQuoteStyle] = useState<QuoteStyle>("minimal");
+  const [lineEnding, setLineEnding] = useState<LineEnding>("crlf");
+  const [bom, setBom] = useState<boolean>(false);
+  const [currentView, setCurrentView] = useState<boolean>(true);
+  const [changedOnly, setChangedOnly] = useState<boolean>(false);
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+
+  const toggleColumn = (col: string, included: boolean) => {
+    setExcluded((prev) => {
+      const next = new Set(prev);
+      if (included) next.delete(col);
+      else next.add(col);
+      return next;
+    });
+  };
+
+  const selected = columns.filter((col) => !excluded.has(col));
+  const locked = disabled || exporting;
+
+  return (
+    <details style={{ marginBottom: 12 }}>
+      <summary>Export CSV</summary>
+      <div
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          gap: 8,
+          alignItems: "center",
+          marginTop: 8,
+        }}
+      >
+        <select
+          aria-label="Delimiter"
+          value={delimiter}
+          onChange={(e) => setDelimiter(e.target.value)}
+          disabled={locked}
+        >
+          {DELIMITERS.map(({ label, value }) => (
+            <option key={label} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <select
+          aria-label="Quoting"
+          value={quoteStyle}
+          onChange={(e) => setQuoteStyle(e.target.value as QuoteStyle)}
+          disabled={locked}
+        >
+          <option value="minimal">Quote when needed</option>
+          <option value="all">Quote all fields</option>
+        </select>
+        <select
+          aria-label="Line endings"
+          value={lineEnding}
+          onChange={(e) => setLineEnding(e.target.value as LineEnding)}
+          disabled={locked}
+        >
+          <option value="crlf">CRLF (Windows)</option>
+          <option value="lf">LF (Unix)</option>
+        </select>
+        <select
+          aria-label="Row order"
+          value={currentView ? "view" : "id"}
+          onChange={(e) => setCurrentView(e.target.value === "view")}
+          disabled={locked}
+        >
+          <option value="view">Current sort/filter</option>
+          <option value="id">All rows, import order</option>
+        </select>
+        <label style={{ display: "inline-flex", alignItems: "center", gap: 6 }}>
+          <input
+            type="checkbox"
+            checked={bom}
+            onChange={(e) => setBom(e.target.checked)}
+            disabled={locked}
+          />
+          UTF-8 BOM
+        </label>
+        <label style={{ display: "inline-flex", alignItems: "center", gap: 6 }}>
+          <input
+            type="checkbox"
+            checked={changedOnly}
+            onChange={(e) => setChangedOnly(e.target.checked)}
+            disabled={locked}
+          />
+          Only changed rows
+        </label>
+        {exporting ? (
+          <>
+            <span>Exported {rowsExported.toLocaleString()} rows...</span>
+            <button onClick={onCancel}>Cancel export</button>
+          </>
+        ) : (
+          <button
+            onClick={() =>
+              onExport({
+                delimiter,
+                quoteStyle,
+                lineEnding,
+                bom,
+                columns: selected,
+                currentView,
+                changedOnly,
+              })
+            }
+            disabled={disabled || selected.length === 0}
+          >
+            Export
+          </button>
+        )}
+      </div>
+      <fieldset
+        disabled={locked}
+        style={{ display: "flex", flexWrap: "wrap", gap: 12, marginTop: 8 }}
+      >
+        <legend>Columns</legend>
+        {columns.map((col) => (
+          <label
+            key={col}
+            style={{ display: "inline-flex", alignItems: "center", gap: 4 }}
+          >
+            <input
+              type="checkbox"
+              checked={!excluded.has(col)}
+              onChange={(e) => toggleColumn(col, e.target.checked)}
+            />
+            {col}
+          </label>
+        ))}
+      </fieldset>
+    </details>
+  );
+}
@@ -0,0 +1,126 @@
+import { useEffect, useState, type JSX } from "react";
+import type { ColumnFilter, ColumnType, FilterOperator } from "../db";
+import { OPERATOR_LABELS, operatorsFor } from "../filters";
+
+export interface FilterCellProps {
+  column: string;
+  type: ColumnType;
+  condition?: ColumnFilter;
+  /** Receives the updated condition, or null when the filter is cleared */
+  onChange: (condition: ColumnFilter | null) => void;
+}
+
+const inputStyle = {
+  width: "100%",
+  minWidth: 0,
+  font: "inherit",
+  fontSize: "0.85em",
+  padding: "2px 4px",
+} as const;
+
+/**
+ * Filter editor for one column of the filter row.
+ *
+ * Operands are edited as a local draft and applied on Enter or blur, so
+ * typing does not restart the filter scan on every keystroke.
+ */
+export function FilterCell({
+  column,
+  type,
+  condition,
+  onChange,
+}: FilterCellProps): JSX.Element {
+  const operators = operatorsFor(type);
+  const operator = condition?.operator ?? "";
+  const [draft, setDraft] = useState({
+    value: condition?.value ?? "",
+    min: condition?.min ?? "",
+    max: condition?.max ?? "",
+  });
+
+  // Follow external changes (dataset switch, cleared filters)
+  useEffect(() => {
+    setDraft({
+      value: condition?.value ?? "",
+      min: condition?.min ?? "",
+      max: condition?.max ?? "",
+    });
+  }, [condition]);
+
+  const apply = (): void => {
+    if (!condition) return;
+    if (
+      draft.value === (condition.value ?? "") &&
+      draft.min === (condition.min ?? "") &&
+      draft.max === (condition.max ?? "")
+    ) {
+      return;
+    }
+    onChange({ ...condition, ...draft });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>): void => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      apply();
+    }
+  };
+
+  const inputType =
+    type === "date" ? "date" : type === "datetime" ? "datetime-local" : "text";
+
+  return (
+    <div style={{ display: "flex", gap: 4, alignItems: "center" }}>
+      <select
+        aria-label={`Filter operator for ${column}`}
+        value={operator}
+        onChange={(e) => {
+          const next = e.target.value as FilterOperator | "";
+          onChange(next ? { column, operator: next, ...draft } : null);
+        }}
+        style={{ ...inputStyle, width: "auto", flex: "none" }}
+      >
+        <option value="">—</option>
+        {operators.map((op) => (
+          <option key={op} value={op}>
+            {OPERATOR_LABELS[op]}
+          </option>
+        ))}
+      </select>
+
+      {operator === "range" ? (
+        <>
+          <input
+            aria-label={`Minimum ${column}`}
+            type={inputType}
+            placeholder="min"
+            value={draft.min}
+            onChange={(e) => setDraft({ ...draft, min: e.target.value })}
+            onBlur={apply}
+            onKeyDown={handleKeyDown}
+            style={inputStyle}
+          />
+          <input
+            aria-label={`Maximum ${column}`}
+            type={inputType}
+            placeholder="max"
+            value={draft.max}
+            onChange={(e) => setDraft({ ...draft, max: e.target.value })}
+            onBlur={apply}
+            onKeyDown={handleKeyDown}
+            style={inputStyle}
+          />
+        </>
+      ) : operator && operator !== "empty" && operator !== "notEmpty" ? (
+        <input
+          aria-label={`Filter value for ${column}`}
+          value={draft.value}
+          onChange={(e) => setDraft({ ...draft, value: e.target.value })}
+          onBlur={apply}
+          onKeyDown={handleKeyDown}
+          style={inputStyle}
+        />
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import type { JSX } from "react";
+import type { CellEdit, ColumnSchema } from "../db";
+import { formatCell } from "../columnTypes";
+
+export interface HistoryPanelProps {
+  /** Most recent edits first */
+  entries: CellEdit[];
+  schema: ColumnSchema;
+  disabled?: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onRevert: (editId: number) => void;
+}
+
+/**
+ * Collapsible list of cell edits with undo/redo and per-entry revert.
+ */
+export function HistoryPanel({
+  entries,
+  schema,
+  disabled = false,
+  onUndo,
+  onRedo,
+  onRevert,
+}: HistoryPanelProps): JSX.Element {
+  const canUndo = entries.some((entry) => entry.undone === 0);
+  const canRedo = entries.some((entry) => entry.undone === 1);
+  const show = (entry: CellEdit, value: CellEdit["oldValue"]) =>
+    formatCell(value, schema[entry.column] ?? "string") || "(empty)";
+
+  return (
+    <details style={{ marginBottom: 12 }}>
+      <summary>History ({entries.length.toLocaleString()})</summary>
+      <div style={{ display: "flex", gap: 8, marginTop: 8 }}>
+        <button onClick={onUndo} disabled={disabled || !canUndo} title="Ctrl+Z">
+          Undo
+        </button>
+        <button
+          onClick={onRedo}
+          disabled={disabled || !canRedo}
+          title="Ctrl+Shift+Z"
+        >
+          Redo
+        </button>
+      </div>
+      {entries.length === 0 ? (
+        <div style={{ color: "#777", marginTop: 8 }}>No edits yet</div>
+      ) : (
+        <ol
+          style={{
+            maxHeight: 240,
+            overflow: "auto",
+            margin: "8px 0 0",
+            paddingLeft: 24,
+          }}
+        >
+          {entries.map((entry) => (
+            <li
+              key={entry.id}
+              style={{
+                padding: "2px 0",
+                color: entry.undone ? "#999" : undefined,
+                textDecoration: entry.undone ? "line-through" : undefined,
+              }}
+            >
+              <span style={{ color: "#888" }}>
+                {new Date(entry.editedAt).toLocaleString()}
+              </span>{" "}
+              Row {entry.rowId}, {entry.column}: {show(entry, entry.oldValue)} →{" "}
+              {show(entry, entry.newValue)}{" "}
+              {!entry.undone && (
+                <button
+                  onClick={() => onRevert(entry.id!)}
+                  disabled={disabled}
+                  aria-label={`Revert edit of row ${entry.rowId}, ${entry.column}`}
+                >
+                  Revert
+                </button>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </details>
+  );
+}
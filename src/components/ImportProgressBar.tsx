@@ -0,0 +1,74 @@
+import type { JSX } from "react";
+import type { ImportPhase, ImportProgress } from "../importer";
+
+const PHASE_LABELS: Record<ImportPhase, string> = {
+  parsing: "Parsing",
+  writing: "Writing",
+  finalizing: "Finalizing",
+  "retrying-in-worker": "Retrying in background",
+};
+
+function formatBytes(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds < 60) return `${seconds} s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes} min ${seconds % 60} s`;
+  return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+}
+
+export interface ImportProgressBarProps {
+  /** Null until the import reports for the first time */
+  progress: ImportProgress | null;
+  onCancel: () => void;
+}
+
+/**
+ * Share of the file read, with the phase, rows written, throughput and time
+ * left of a running import.
+ */
+export function ImportProgressBar({
+  progress,
+  onCancel,
+}: ImportProgressBarProps): JSX.Element {
+  return (
+    <div
+      role="status"
+      style={{ display: "flex", gap: 8, alignItems: "center", marginBottom: 8 }}
+    >
+      {/* Without a value the bar shows activity only */}
+      <progress
+        aria-label="Import progress"
+        max={progress?.totalBytes || 1}
+        value={
+          progress?.phase === "finalizing" ? undefined : progress?.bytesRead
+        }
+        style={{ width: 240 }}
+      />
+      {progress ? (
+        <span>
+          {PHASE_LABELS[progress.phase]}: {formatBytes(progress.bytesRead)} of{" "}
+          {formatBytes(progress.totalBytes)},{" "}
+          {progress.rowsCommitted.toLocaleString()} rows
+          {progress.rowsPerSecond > 0 &&
+            ` at ${Math.round(progress.rowsPerSecond).toLocaleString()} rows/s`}
+          {progress.etaMs !== null &&
+            `, about ${formatDuration(progress.etaMs)} left`}
+        </span>
+      ) : (
+        <span>Starting import...</span>
+      )}
+      <button onClick={onCancel}>Cancel</button>
+    </div>
+  );
+}
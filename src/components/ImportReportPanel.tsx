@@ -0,0 +1,119 @@
+import type { JSX } from "react";
+import type { ImportIssueAction, ImportIssueType, ImportReport } from "../db";
+
+/** Issues listed in the panel; the download has all kept ones */
+const MAX_LISTED_ISSUES = 100;
+
+const TYPE_LABELS: Record<ImportIssueType, string> = {
+  "too-many-fields": "Too many fields",
+  "too-few-fields": "Too few fields",
+  "bad-quotes": "Malformed quotes",
+  "invalid-json": "Invalid JSON",
+};
+
+const ACTION_LABELS: Record<ImportIssueAction, string> = {
+  truncated: "Extra fields dropped",
+  padded: "Missing fields left empty",
+  imported: "Imported as parsed",
+  skipped: "Row skipped",
+};
+
+export interface ImportReportPanelProps {
+  report: ImportReport;
+  onDownload: () => void;
+}
+
+/**
+ * Collapsible list of the problems found by the latest import, with the
+ * issue count as a badge.
+ */
+export function ImportReportPanel({
+  report,
+  onDownload,
+}: ImportReportPanelProps): JSX.Element {
+  const cellStyle = { padding: "2px 8px", borderBottom: "1px solid #f1f1f1" };
+  const listed = report.issues.slice(0, MAX_LISTED_ISSUES);
+
+  return (
+    <details style={{ marginBottom: 12 }}>
+      <summary>
+        Import report{" "}
+        <span
+          aria-label={`${report.total} import issues`}
+          style={{
+            padding: "0 6px",
+            borderRadius: 8,
+            background: report.total > 0 ? "#c0392b" : "#2e7d32",
+            color: "white",
+            fontSize: "0.85em",
+          }}
+        >
+          {report.total.toLocaleString()}
+        </span>
+      </summary>
+      {report.total === 0 ? (
+        <div style={{ color: "#666", marginTop: 8 }}>
+          No problems found in {report.fileName}.
+        </div>
+      ) : (
+        <>
+          <div
+            style={{
+              display: "flex",
+              gap: 8,
+              alignItems: "center",
+              marginTop: 8,
+            }}
+          >
+            <span>
+              {report.total.toLocaleString()} problems in {report.fileName}
+              {report.total > report.issues.length &&
+                `; the first ${report.issues.length.toLocaleString()} are kept`}
+              .
+            </span>
+            <button onClick={onDownload}>Download list</button>
+          </div>
+          <table style={{ borderCollapse: "collapse", marginTop: 8 }}>
+            <thead>
+              <tr>
+                <th style={{ ...cellStyle, textAlign: "right" }}>Line</th>
+                <th style={{ ...cellStyle, textAlign: "left" }}>Problem</th>
+                <th style={{ ...cellStyle, textAlign: "left" }}>Action</th>
+                <th style={{ ...cellStyle, textAlign: "left" }}>Text</th>
+              </tr>
+            </thead>
+            <tbody>
+              {listed.map((issue, i) => (
+                <tr key={i}>
+                  <td style={{ ...cellStyle, textAlign: "right" }}>
+                    {issue.line.toLocaleString()}
+                  </td>
+                  <td style={cellStyle}>{TYPE_LABELS[issue.type]}</td>
+                  <td style={cellStyle}>{ACTION_LABELS[issue.action]}</td>
+                  <td
+                    title={issue.raw}
+                    style={{
+                      ...cellStyle,
+                      fontFamily: "monospace",
+                      maxWidth: 400,
+                      overflow: "hidden",
+                      textOverflow: "ellipsis",
+                      whiteSpace: "nowrap",
+                    }}
+                  >
+                    {issue.raw}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {report.issues.length > listed.length && (
+            <div style={{ color: "#666", marginTop: 4 }}>
+              Download the list to see all of them.
+            </div>
+          )}
+        </>
+      )}
+    </details>
+  );
+}
@@ -0,0 +1,307 @@
+import { useState, type JSX } from "react";
+import type { ImportMapping, MappedColumn } from "../db";
+import { ENCODING_LABELS, type TextEncodingName } from "../encoding";
+import {
+  MAX_HEADER_ROW,
+  defaultMapping,
+  mappingProblem,
+} from "../importMappings";
+import type { ImportPreview, TextDialect } from "../importPreview";
+
+/** Data rows shown below the header */
+const PREVIEW_ROWS = 50;
+
+const DELIMITER_LABELS: Record<string, string> = {
+  ",": "Comma",
+  ";": "Semicolon",
+  "\t": "Tab",
+  "|": "Pipe",
+};
+
+const QUOTE_LABELS: Record<string, string> = {
+  '"': 'Double (")',
+  "'": "Single (')",
+};
+
+/**
+ * Source field in the column list; only included ones are imported.
+ */
+interface DraftColumn extends MappedColumn {
+  readonly included: boolean;
+}
+
+/**
+ * Column list of a mapping: its columns in order, then the fields it skips
+ * under their default names.
+ */
+function draftOf(
+  records: readonly (readonly string[])[],
+  mapping: ImportMapping
+): DraftColumn[] {
+  const fields = defaultMapping(records, mapping.headerRow).columns;
+  const mapped = mapping.columns.filter(
+    (column) => column.source < fields.length
+  );
+  const sources = new Set(mapped.map((column) => column.source));
+  return [
+    ...mapped.map((column) => ({ ...column, included: true })),
+    ...fields
+      .filter((column) => !sources.has(column.source))
+      .map((column) => ({ ...column, included: false })),
+  ];
+}
+
+export interface ImportWizardProps {
+  fileName: string;
+  preview: ImportPreview;
+  /** Mapping remembered for files like this one; every field when omitted */
+  initialMapping?: ImportMapping;
+  /** Set while the preview is read again */
+  busy: boolean;
+  onDialectChange: (dialect: TextDialect) => void;
+  onImport: (mapping: ImportMapping) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Preview of a delimited file before it is imported. The delimiter, quote
+ * and encoding can be corrected, the header row chosen, and columns renamed,
+ * skipped or reordered.
+ */
+export function ImportWizard({
+  fileName,
+  preview,
+  initialMapping,
+  busy,
+  onDialectChange,
+  onImport,
+  onCancel,
+}: ImportWizardProps): JSX.Element {
+  const { records, dialect } = preview;
+  const [headerRow, setHeaderRow] = useState(
+    initialMapping?.headerRow ?? (records.length > 0 ? 1 : 0)
+  );
+  const [draft, setDraft] = useState<DraftColumn[]>(() =>
+    draftOf(records, initialMapping ?? defaultMapping(records, headerRow))
+  );
+
+  const cellStyle = { padding: "2px 8px", borderBottom: "1px solid #f1f1f1" };
+  const header = headerRow > 0 ? (records[headerRow - 1] ?? []) : [];
+  const mapping: ImportMapping = {
+    headerRow,
+    fieldCount: defaultMapping(records, headerRow).fieldCount,
+    columns: draft
+      .filter((column) => column.included)
+      .map(({ source, name }) => ({ source, name })),
+  };
+  const problem = mappingProblem(mapping);
+  const rows = records.slice(headerRow, headerRow + PREVIEW_ROWS);
+
+  const onHeaderRowChange = (row: number) => {
+    setHeaderRow(row);
+    setDraft(draftOf(records, defaultMapping(records, row)));
+  };
+  const update = (index: number, change: Partial<DraftColumn>) =>
+    setDraft(
+      draft.map((column, i) =>
+        i === index ? { ...column, ...change } : column
+      )
+    );
+  const move = (index: number, by: number) => {
+    const next = [...draft];
+    [next[index], next[index + by]] = [next[index + by], next[index]];
+    setDraft(next);
+  };
+
+  return (
+    <section
+      aria-label="Import preview"
+      style={{
+        marginBottom: 12,
+        padding: 8,
+        border: "1px solid #ddd",
+        borderRadius: 8,
+      }}
+    >
+      <strong>Import {fileName}</strong>
+      <div
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          gap: 8,
+          alignItems: "center",
+          marginTop: 8,
+        }}
+      >
+        <label>
+          Delimiter{" "}
+          <select
+            value={dialect.delimiter}
+            onChange={(e) =>
+              onDialectChange({ ...dialect, delimiter: e.target.value })
+            }
+            disabled={busy}
+          >
+            {!(dialect.delimiter in DELIMITER_LABELS) && (
+              <option value={dialect.delimiter}>"{dialect.delimiter}"</option>
+            )}
+            {Object.entries(DELIMITER_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Quote{" "}
+          <select
+            value={dialect.quoteChar}
+            onChange={(e) =>
+              onDialectChange({ ...dialect, quoteChar: e.target.value })
+            }
+            disabled={busy}
+          >
+            {Object.entries(QUOTE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Encoding{" "}
+          <select
+            value={dialect.encoding}
+            onChange={(e) =>
+              onDialectChange({
+                ...dialect,
+                encoding: e.target.value as TextEncodingName,
+              })
+            }
+            disabled={busy}
+          >
+            {Object.entries(ENCODING_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Header{" "}
+          <select
+            value={headerRow}
+            onChange={(e) => onHeaderRowChange(Number(e.target.value))}
+            disabled={busy}
+          >
+            <option value={0}>None; name columns column_1, …</option>
+            {records.slice(0, MAX_HEADER_ROW).map((_, i) => (
+              <option key={i} value={i + 1}>
+                Row {i + 1}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <table style={{ borderCollapse: "collapse", marginTop: 8 }}>
+        <thead>
+          <tr>
+            <th style={{ ...cellStyle, textAlign: "left" }}>Import</th>
+            <th style={{ ...cellStyle, textAlign: "left" }}>Source field</th>
+            <th style={{ ...cellStyle, textAlign: "left" }}>Column name</th>
+            <th style={cellStyle} />
+          </tr>
+        </thead>
+        <tbody>
+          {draft.map((column, i) => (
+            <tr key={column.source}>
+              <td style={cellStyle}>
+                <input
+                  type="checkbox"
+                  aria-label={`Import field ${column.source + 1}`}
+                  checked={column.included}
+                  onChange={(e) => update(i, { included: e.target.checked })}
+                  disabled={busy}
+                />
+              </td>
+              <td style={{ ...cellStyle, color: "#666" }}>
+                {column.source + 1}
+                {header[column.source] !== undefined &&
+                  `: ${header[column.source]}`}
+              </td>
+              <td style={cellStyle}>
+                <input
+                  aria-label={`Name of field ${column.source + 1}`}
+                  value={column.name}
+                  onChange={(e) => update(i, { name: e.target.value })}
+                  disabled={busy || !column.included}
+                />
+              </td>
+              <td style={cellStyle}>
+                <button
+                  aria-label={`Move field ${column.source + 1} up`}
+                  onClick={() => move(i, -1)}
+                  disabled={busy || i === 0}
+                >
+                  ↑
+                </button>{" "}
+                <button
+                  aria-label={`Move field ${column.source + 1} down`}
+                  onClick={() => move(i, 1)}
+                  disabled={busy || i === draft.length - 1}
+                >
+                  ↓
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div style={{ maxHeight: 300, overflow: "auto", marginTop: 8 }}>
+        <table style={{ borderCollapse: "collapse" }}>
+          <thead>
+            <tr>
+              {mapping.columns.map((column) => (
+                <th
+                  key={column.source}
+                  style={{ ...cellStyle, textAlign: "left" }}
+                >
+                  {column.name}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((record, r) => (
+              <tr key={r}>
+                {mapping.columns.map((column) => (
+                  <td key={column.source} style={cellStyle}>
+                    {record[column.source] ?? ""}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {rows.length === 0 && (
+          <div style={{ color: "#666" }}>No rows below the header.</div>
+        )}
+      </div>
+
+      <div
+        style={{ display: "flex", gap: 8, alignItems: "center", marginTop: 8 }}
+      >
+        <button
+          onClick={() => onImport(mapping)}
+          disabled={busy || problem !== null}
+        >
+          Import
+        </button>
+        <button onClick={onCancel}>Cancel</button>
+        {problem && <span style={{ color: "crimson" }}>{problem}</span>}
+      </div>
+    </section>
+  );
+}
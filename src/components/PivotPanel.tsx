@@ -0,0 +1,219 @@
+import { useState, type JSX } from "react";
+import type { ColumnSchema } from "../db";
+import {
+  AGGREGATE_LABELS,
+  type AggregateFunction,
+  type PivotAggregate,
+  type PivotGroup,
+  type PivotResult,
+  type PivotSpec,
+} from "../pivot";
+import { PivotTable } from "./PivotTable";
+
+const AGGREGATE_FUNCTIONS = Object.keys(
+  AGGREGATE_LABELS
+) as AggregateFunction[];
+
+export interface PivotPanelProps {
+  columns: readonly string[];
+  schema: ColumnSchema;
+  /** Latest result, kept until the next run */
+  result: PivotResult | null;
+  running: boolean;
+  rowsScanned: number;
+  disabled?: boolean;
+  onRun: (spec: PivotSpec) => void;
+  onCancel: () => void;
+  onSelect: (group: PivotGroup, pivotIndex: number | null) => void;
+}
+
+/**
+ * Ordered pick of columns: chosen ones with a remove button, then a select
+ * adding another.
+ */
+function ColumnList({
+  label,
+  columns,
+  chosen,
+  disabled,
+  onChange,
+}: {
+  label: string;
+  columns: readonly string[];
+  chosen: readonly string[];
+  disabled: boolean;
+  onChange: (chosen: string[]) => void;
+}): JSX.Element {
+  const available = columns.filter((col) => !chosen.includes(col));
+  return (
+    <div style={{ display: "flex", flexWrap: "wrap", gap: 8, marginTop: 8 }}>
+      <span style={{ minWidth: 70 }}>{label}</span>
+      {chosen.map((col) => (
+        <button
+          key={col}
+          aria-label={`Remove ${col} from ${label.toLocaleLowerCase()}`}
+          onClick={() => onChange(chosen.filter((c) => c !== col))}
+          disabled={disabled}
+        >
+          {col} ✕
+        </button>
+      ))}
+      <select
+        aria-label={`Add column to ${label.toLocaleLowerCase()}`}
+        value=""
+        onChange={(e) => onChange([...chosen, e.target.value])}
+        disabled={disabled || available.length === 0}
+      >
+        <option value="">Add column...</option>
+        {available.map((col) => (
+          <option key={col} value={col}>
+            {col}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+/**
+ * Collapsible group-by and pivot builder with its result table. Key it by
+ * dataset so choices reset on switch.
+ */
+export function PivotPanel({
+  columns,
+  schema,
+  result,
+  running,
+  rowsScanned,
+  disabled = false,
+  onRun,
+  onCancel,
+  onSelect,
+}: PivotPanelProps): JSX.Element {
+  const [groupBy, setGroupBy] = useState<string[]>([]);
+  const [pivotBy, setPivotBy] = useState<string[]>([]);
+  const [aggregates, setAggregates] = useState<PivotAggregate[]>([
+    { fn: "count", column: "" },
+  ]);
+
+  const locked = disabled || running;
+  const updateAggregate = (index: number, next: Partial<PivotAggregate>) =>
+    setAggregates((prev) =>
+      prev.map((aggregate, i) =>
+        i === index ? { ...aggregate, ...next } : aggregate
+      )
+    );
+  const complete = aggregates.every(
+    (aggregate) => aggregate.fn === "count" || aggregate.column !== ""
+  );
+
+  return (
+    <details style={{ marginBottom: 12 }}>
+      <summary>Group and pivot</summary>
+      <ColumnList
+        label="Group by"
+        columns={columns}
+        chosen={groupBy}
+        disabled={locked}
+        onChange={setGroupBy}
+      />
+      <ColumnList
+        label="Pivot by"
+        columns={columns.filter((col) => !groupBy.includes(col))}
+        chosen={pivotBy}
+        disabled={locked}
+        onChange={setPivotBy}
+      />
+      {aggregates.map((aggregate, index) => (
+        <div
+          key={index}
+          style={{
+            display: "flex",
+            gap: 8,
+            alignItems: "center",
+            marginTop: 8,
+          }}
+        >
+          <span style={{ minWidth: 70 }}>{index === 0 ? "Values" : ""}</span>
+          <select
+            aria-label={`Aggregate ${index + 1}`}
+            value={aggregate.fn}
+            onChange={(e) =>
+              updateAggregate(index, {
+                fn: e.target.value as AggregateFunction,
+              })
+            }
+            disabled={locked}
+          >
+            {AGGREGATE_FUNCTIONS.map((fn) => (
+              <option key={fn} value={fn}>
+                {AGGREGATE_LABELS[fn]}
+              </option>
+            ))}
+          </select>
+          {aggregate.fn !== "count" && (
+            <select
+              aria-label={`Column of aggregate ${index + 1}`}
+              value={aggregate.column}
+              onChange={(e) =>
+                updateAggregate(index, { column: e.target.value })
+              }
+              disabled={locked}
+            >
+              <option value="">Column...</option>
+              {columns.map((col) => (
+                <option key={col} value={col}>
+                  {col}
+                </option>
+              ))}
+            </select>
+          )}
+          <button
+            aria-label={`Remove aggregate ${index + 1}`}
+            onClick={() =>
+              setAggregates((prev) => prev.filter((_, i) => i !== index))
+            }
+            disabled={locked || aggregates.length === 1}
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+      <div
+        style={{ display: "flex", gap: 8, alignItems: "center", marginTop: 8 }}
+      >
+        <button
+          onClick={() =>
+            setAggregates((prev) => [...prev, { fn: "sum", column: "" }])
+          }
+          disabled={locked}
+        >
+          Add value
+        </button>
+        {running ? (
+          <>
+            <button onClick={onCancel}>Cancel</button>
+            <span>Aggregated {rowsScanned.toLocaleString()} rows...</span>
+          </>
+        ) : (
+          <button
+            onClick={() => onRun({ groupBy, pivotBy, aggregates })}
+            disabled={locked || !complete}
+          >
+            Summarize
+          </button>
+        )}
+      </div>
+      {result && !running && (
+        <div style={{ marginTop: 8 }}>
+          <div style={{ color: "#666", marginBottom: 4 }}>
+            {result.groups.length.toLocaleString()} groups from{" "}
+            {result.rowsScanned.toLocaleString()} rows. Click a group to show
+            its rows in the table.
+          </div>
+          <PivotTable result={result} schema={schema} onSelect={onSelect} />
+        </div>
+      )}
+    </details>
+  );
+}
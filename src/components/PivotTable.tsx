@@ -0,0 +1,231 @@
+import { useRef, type JSX } from "react";
+import { useVirtualizer } from "@tanstack/react-virtual";
+import type { CellValue, ColumnSchema } from "../db";
+import { formatCell, isRightAligned } from "../columnTypes";
+import {
+  AGGREGATE_LABELS,
+  type PivotAggregate,
+  type PivotGroup,
+  type PivotResult,
+} from "../pivot";
+
+const CONFIG = {
+  HEIGHT_PX: 400,
+  ROW_HEIGHT_PX: 30,
+  COLUMN_WIDTH_PX: 140,
+  VIRTUAL_OVERSCAN: 20,
+} as const;
+
+export interface PivotTableProps {
+  result: PivotResult;
+  schema: ColumnSchema;
+  /** Called with the group and the index of the clicked pivot key, if any */
+  onSelect: (group: PivotGroup, pivotIndex: number | null) => void;
+}
+
+function formatAggregate(
+  value: CellValue | null,
+  aggregate: PivotAggregate,
+  schema: ColumnSchema
+): string {
+  if (value === null) return "";
+  // Min and max keep the column's values; the others are plain numbers
+  if (aggregate.fn === "min" || aggregate.fn === "max") {
+    return formatCell(value, schema[aggregate.column] ?? "string");
+  }
+  return formatCell(value, "decimal");
+}
+
+/**
+ * Virtualized grid of pivot results: one row per group, one column per pivot
+ * key and aggregate. Clicking a group or one of its values selects it.
+ */
+export function PivotTable({
+  result,
+  schema,
+  onSelect,
+}: PivotTableProps): JSX.Element {
+  const parentRef = useRef<HTMLDivElement | null>(null);
+  const { spec, pivotKeys, groups } = result;
+
+  const virtualizer = useVirtualizer({
+    count: groups.length,
+    getScrollElement: () => parentRef.current,
+    estimateSize: () => CONFIG.ROW_HEIGHT_PX,
+    overscan: CONFIG.VIRTUAL_OVERSCAN,
+  });
+  const virtualItems = virtualizer.getVirtualItems();
+  const paddingTop = virtualItems[0]?.start ?? 0;
+  const paddingBottom =
+    virtualItems.length > 0
+      ? virtualizer.getTotalSize() - virtualItems[virtualItems.length - 1].end
+      : 0;
+
+  const valueColumns = pivotKeys.flatMap((pivotKey, pivotIndex) =>
+    spec.aggregates.map((aggregate, aggIndex) => {
+      const aggregateLabel =
+        aggregate.fn === "count"
+          ? AGGREGATE_LABELS.count
+          : `${AGGREGATE_LABELS[aggregate.fn]} of ${aggregate.column}`;
+      const pivotLabel = pivotKey
+        .map(
+          (value, i) =>
+            formatCell(value, schema[spec.pivotBy[i]] ?? "string") || "(empty)"
+        )
+        .join(" / ");
+      return {
+        pivotIndex,
+        aggIndex,
+        aggregate,
+        label: pivotLabel
+          ? `${pivotLabel} · ${aggregateLabel}`
+          : aggregateLabel,
+      };
+    })
+  );
+  const columnCount = spec.groupBy.length + 1 + valueColumns.length;
+
+  const headerStyle = {
+    position: "sticky" as const,
+    top: 0,
+    background: "#fafafa",
+    borderBottom: "1px solid #ddd",
+    padding: "4px 8px",
+    fontWeight: 600,
+    whiteSpace: "nowrap" as const,
+    overflow: "hidden",
+    textOverflow: "ellipsis",
+  };
+  const cellStyle = {
+    padding: "4px 8px",
+    borderRight: "1px solid #f5f5f5",
+    whiteSpace: "nowrap" as const,
+    overflow: "hidden",
+    textOverflow: "ellipsis",
+    cursor: "pointer",
+  };
+
+  return (
+    <div
+      ref={parentRef}
+      style={{
+        maxHeight: CONFIG.HEIGHT_PX,
+        overflow: "auto",
+        border: "1px solid #ddd",
+        borderRadius: 8,
+        background: "#fff",
+      }}
+    >
+      <table
+        aria-label="Pivot results"
+        aria-rowcount={groups.length + 1}
+        style={{
+          width: columnCount * CONFIG.COLUMN_WIDTH_PX,
+          borderCollapse: "collapse",
+          tableLayout: "fixed",
+        }}
+      >
+        <thead>
+          <tr>
+            {spec.groupBy.map((col) => (
+              <th key={col} style={{ ...headerStyle, textAlign: "left" }}>
+                {col}
+              </th>
+            ))}
+            <th style={{ ...headerStyle, textAlign: "right" }}>Rows</th>
+            {valueColumns.map((column) => (
+              <th
+                key={`${column.pivotIndex}:${column.aggIndex}`}
+                title={column.label}
+                style={{ ...headerStyle, textAlign: "right" }}
+              >
+                {column.label}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {paddingTop > 0 && (
+            <tr style={{ height: paddingTop }} aria-hidden="true">
+              <td colSpan={columnCount} />
+            </tr>
+          )}
+          {virtualItems.map((virtualRow) => {
+            const group = groups[virtualRow.index];
+            return (
+              <tr
+                key={virtualRow.key}
+                aria-rowindex={virtualRow.index + 2}
+                style={{
+                  height: virtualRow.size,
+                  borderBottom: "1px solid #f1f1f1",
+                }}
+              >
+                {group.key.map((value, i) => {
+                  const text = formatCell(
+                    value,
+                    schema[spec.groupBy[i]] ?? "string"
+                  );
+                  return (
+                    <td
+                      key={spec.groupBy[i]}
+                      title="Show these rows in the table"
+                      onClick={() => onSelect(group, null)}
+                      style={{
+                        ...cellStyle,
+                        color: text ? undefined : "#888",
+                      }}
+                    >
+                      {text || "(empty)"}
+                    </td>
+                  );
+                })}
+                <td
+                  onClick={() => onSelect(group, null)}
+                  style={{ ...cellStyle, textAlign: "right" }}
+                >
+                  {group.rows.toLocaleString()}
+                </td>
+                {valueColumns.map((column) => {
+                  const value = group.cells[column.pivotIndex][column.aggIndex];
+                  const type =
+                    column.aggregate.fn === "min" ||
+                    column.aggregate.fn === "max"
+                      ? (schema[column.aggregate.column] ?? "string")
+                      : "decimal";
+                  return (
+                    <td
+                      key={`${column.pivotIndex}:${column.aggIndex}`}
+                      title={
+                        spec.pivotBy.length > 0
+                          ? "Show these rows in the table"
+                          : undefined
+                      }
+                      onClick={() =>
+                        onSelect(
+                          group,
+                          spec.pivotBy.length > 0 ? column.pivotIndex : null
+                        )
+                      }
+                      style={{
+                        ...cellStyle,
+                        textAlign: isRightAligned(type) ? "right" : "left",
+                      }}
+                    >
+                      {formatAggregate(value, column.aggregate, schema)}
+                    </td>
+                  );
+                })}
+              </tr>
+            );
+          })}
+          {paddingBottom > 0 && (
+            <tr style={{ height: paddingBottom }} aria-hidden="true">
+              <td colSpan={columnCount} />
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import type { JSX } from "react";
+import type { DatasetProfile } from "../db";
+
+export interface ProfilePanelProps {
+  columns: readonly string[];
+  profile?: DatasetProfile;
+  rowCount: number;
+  profiling: boolean;
+  rowsProfiled: number;
+  disabled?: boolean;
+  onProfile: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Collapsible data quality overview of the profiled columns, with the
+ * profiling job's controls. Details per column open from the table headers.
+ */
+export function ProfilePanel({
+  columns,
+  profile,
+  rowCount,
+  profiling,
+  rowsProfiled,
+  disabled = false,
+  onProfile,
+  onCancel,
+}: ProfilePanelProps): JSX.Element {
+  const profiled = columns.filter((col) => profile?.columns[col]);
+  const cellStyle = { padding: "2px 8px", borderBottom: "1px solid #f1f1f1" };
+  const right = { ...cellStyle, textAlign: "right" as const };
+
+  return (
+    <details style={{ marginBottom: 12 }}>
+      <summary>
+        Data profile
+        {profile
+          ? ` (profiled ${new Date(profile.profiledAt).toLocaleString()})`
+          : " (not profiled)"}
+      </summary>
+      <div
+        style={{ display: "flex", gap: 8, alignItems: "center", marginTop: 8 }}
+      >
+        {profiling ? (
+          <>
+            <button onClick={onCancel}>Cancel</button>
+            <span>
+              Profiled {rowsProfiled.toLocaleString()} of{" "}
+              {rowCount.toLocaleString()} rows...
+            </span>
+          </>
+        ) : (
+          <button onClick={onProfile} disabled={disabled}>
+            {profile ? "Profile again" : "Profile columns"}
+          </button>
+        )}
+      </div>
+      {profiled.length > 0 && (
+        <div style={{ maxHeight: 240, overflow: "auto", marginTop: 8 }}>
+          <table style={{ borderCollapse: "collapse" }}>
+            <thead>
+              <tr>
+                <th style={{ ...cellStyle, textAlign: "left" }}>Column</th>
+                <th style={right}>Empty</th>
+                <th style={right}>Distinct</th>
+                <th style={right}>Type mismatches</th>
+              </tr>
+            </thead>
+            <tbody>
+              {profiled.map((col) => {
+                const stats = profile!.columns[col];
+                return (
+                  <tr key={col}>
+                    <td style={cellStyle}>{col}</td>
+                    <td style={right}>{stats.empty.toLocaleString()}</td>
+                    <td style={right}>
+                      {stats.distinctApproximate ? "~" : ""}
+                      {stats.distinct.toLocaleString()}
+                    </td>
+                    <td
+                      style={{
+                        ...right,
+                        color: stats.mismatches > 0 ? "#c0392b" : undefined,
+                      }}
+                    >
+                      {stats.mismatches.toLocaleString()}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </details>
+  );
+}
@@ -0,0 +1,58 @@
+import type { JSX } from "react";
+import type { InsertPlacement } from "../rowEdits";
+
+export interface RowToolbarProps {
+  /** Number of rows selected in the table */
+  selectedCount: number;
+  disabled?: boolean;
+  onInsert: (placement: InsertPlacement) => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+  onClearSelection: () => void;
+}
+
+/**
+ * Row operations on the table's selected rows.
+ *
+ * Inserting adds as many blank rows as are selected, next to the selection
+ * in dataset order.
+ */
+export function RowToolbar({
+  selectedCount,
+  disabled = false,
+  onInsert,
+  onDuplicate,
+  onDelete,
+  onClearSelection,
+}: RowToolbarProps): JSX.Element {
+  const none = disabled || selectedCount === 0;
+
+  return (
+    <div
+      role="toolbar"
+      aria-label="Row operations"
+      style={{ display: "flex", gap: 8, alignItems: "center", marginBottom: 8 }}
+    >
+      <span style={{ color: "#666" }}>
+        {selectedCount === 0
+          ? "Click a row number to select rows (Shift+click for a range)"
+          : `${selectedCount.toLocaleString()} rows selected`}
+      </span>
+      <button onClick={() => onInsert("above")} disabled={none}>
+        Insert above
+      </button>
+      <button onClick={() => onInsert("below")} disabled={none}>
+        Insert below
+      </button>
+      <button onClick={onDuplicate} disabled={none}>
+        Duplicate
+      </button>
+      <button onClick={onDelete} disabled={none}>
+        Delete
+      </button>
+      <button onClick={onClearSelection} disabled={selectedCount === 0}>
+        Clear selection
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import type { JSX } from "react";
+
+export interface SearchBarProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  matchCount: number;
+  /** Index of the match currently jumped to, or -1 before the first jump */
+  currentIndex: number;
+  searching?: boolean;
+  disabled?: boolean;
+  onNext: () => void;
+  onPrevious: () => void;
+}
+
+/**
+ * Global search box with match count and previous/next navigation.
+ */
+export function SearchBar({
+  query,
+  onQueryChange,
+  matchCount,
+  currentIndex,
+  searching = false,
+  disabled = false,
+  onNext,
+  onPrevious,
+}: SearchBarProps): JSX.Element {
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>): void => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      if (e.shiftKey) onPrevious();
+      else onNext();
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      onQueryChange("");
+    }
+  };
+
+  const status = searching
+    ? "Searching..."
+    : query.trim()
+      ? `${currentIndex >= 0 ? currentIndex + 1 : 0} / ${matchCount.toLocaleString()}`
+      : "";
+
+  return (
+    <div
+      role="search"
+      style={{ display: "inline-flex", alignItems: "center", gap: 6 }}
+    >
+      <input
+        type="search"
+        aria-label="Search all cells"
+        placeholder="Search..."
+        value={query}
+        onChange={(e) => onQueryChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        disabled={disabled}
+      />
+      <span aria-live="polite" style={{ color: "#666", minWidth: 70 }}>
+        {status}
+      </span>
+      <button
+        onClick={onPrevious}
+        disabled={disabled || matchCount === 0}
+        aria-label="Previous match"
+      >
+        ↑
+      </button>
+      <button
+        onClick={onNext}
+        disabled={disabled || matchCount === 0}
+        aria-label="Next match"
+      >
+        ↓
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import { useState, type JSX } from "react";
+import type { ColumnSchema, DeletedRow } from "../db";
+import { formatCell } from "../columnTypes";
+
+export interface TrashPanelProps {
+  /** Most recently deleted first */
+  rows: DeletedRow[];
+  total: number;
+  columns: readonly string[];
+  schema: ColumnSchema;
+  disabled?: boolean;
+  /** Puts rows back at their old position */
+  onRestore: (rowIds: number[]) => void;
+  onEmpty: () => void;
+}
+
+/** Leading columns previewed per deleted row */
+const PREVIEW_COLUMNS = 3;
+
+/**
+ * Collapsible list of deleted rows with selection and restore.
+ */
+export function TrashPanel({
+  rows,
+  total,
+  columns,
+  schema,
+  disabled = false,
+  onRestore,
+  onEmpty,
+}: TrashPanelProps): JSX.Element {
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+
+  const selectedIds = rows
+    .map((row) => row.id)
+    .filter((id) => selected.has(id));
+  const allSelected = rows.length > 0 && selectedIds.length === rows.length;
+  const preview = columns.slice(0, PREVIEW_COLUMNS);
+
+  const toggle = (rowId: number, checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(rowId);
+      else next.delete(rowId);
+      return next;
+    });
+  };
+
+  const cellStyle = { padding: "2px 8px", borderBottom: "1px solid #f1f1f1" };
+
+  return (
+    <details style={{ marginBottom: 12 }}>
+      <summary>Deleted rows ({total.toLocaleString()})</summary>
+      <div style={{ display: "flex", gap: 8, marginTop: 8 }}>
+        <button
+          onClick={() => {
+            onRestore(selectedIds);
+            setSelected(new Set());
+          }}
+          disabled={disabled || selectedIds.length === 0}
+        >
+          Restore selected ({selectedIds.length.toLocaleString()})
+        </button>
+        <button
+          onClick={() => {
+            if (
+              window.confirm(
+                `Permanently remove ${total.toLocaleString()} deleted rows?`
+              )
+            ) {
+              onEmpty();
+            }
+          }}
+          disabled={disabled || total === 0}
+        >
+          Empty trash
+        </button>
+      </div>
+      {rows.length === 0 ? (
+        <div style={{ color: "#777", marginTop: 8 }}>No deleted rows</div>
+      ) : (
+        <div style={{ maxHeight: 240, overflow: "auto", marginTop: 8 }}>
+          <table style={{ borderCollapse: "collapse" }}>
+            <thead>
+              <tr>
+                <th style={cellStyle}>
+                  <input
+                    type="checkbox"
+                    aria-label="Select all deleted rows"
+                    checked={allSelected}
+                    onChange={(e) =>
+                      setSelected(
+                        e.target.checked
+                          ? new Set(rows.map((row) => row.id))
+                          : new Set()
+                      )
+                    }
+                  />
+                </th>
+                <th style={{ ...cellStyle, textAlign: "left" }}>Row</th>
+                <th style={{ ...cellStyle, textAlign: "left" }}>Deleted</th>
+                {preview.map((col) => (
+                  <th key={col} style={{ ...cellStyle, textAlign: "left" }}>
+                    {col}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.id}>
+                  <td style={cellStyle}>
+                    <input
+                      type="checkbox"
+                      aria-label={`Select deleted row ${row.id}`}
+                      checked={selected.has(row.id)}
+                      onChange={(e) => toggle(row.id, e.target.checked)}
+                    />
+                  </td>
+                  <td style={{ ...cellStyle, fontFamily: "monospace" }}>
+                    {row.id}
+                  </td>
+                  <td style={{ ...cellStyle, color: "#888" }}>
+                    {new Date(row.deletedAt).toLocaleString()}
+                  </td>
+                  {preview.map((col) => (
+                    <td key={col} style={cellStyle}>
+                      {formatCell(row.data[col], schema[col] ?? "string")}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {total > rows.length && (
+            <div style={{ color: "#777", marginTop: 4 }}>
+              Showing the {rows.length.toLocaleString()} most recent
+            </div>
+          )}
+        </div>
+      )}
+    </details>
+  );
+}
@@ -0,0 +1,257 @@
+import { useState, type JSX } from "react";
+import type { ColumnRules } from "../db";
+import type { Violation } from "../validation";
+
+export interface ValidationPanelProps {
+  columns: readonly string[];
+  rules: Readonly<Record<string, ColumnRules>>;
+  /** Result of the last validation pass, or null before the first */
+  violations: readonly Violation[] | null;
+  validating: boolean;
+  rowsChecked: number;
+  disabled?: boolean;
+  onSaveRules: (column: string, rules: ColumnRules) => void;
+  onValidate: () => void;
+  onCancel: () => void;
+  /** Scrolls the table to a violating cell */
+  onSelect: (violation: Violation) => void;
+}
+
+/** Rule fields as typed; numbers stay text until saved */
+interface RuleDraft {
+  required: boolean;
+  pattern: string;
+  min: string;
+  max: string;
+  allowed: string;
+  maxLength: string;
+  unique: boolean;
+}
+
+function toDraft(rules: ColumnRules | undefined): RuleDraft {
+  return {
+    required: rules?.required ?? false,
+    pattern: rules?.pattern ?? "",
+    min: rules?.min?.toString() ?? "",
+    max: rules?.max?.toString() ?? "",
+    allowed: rules?.allowed?.join(", ") ?? "",
+    maxLength: rules?.maxLength?.toString() ?? "",
+    unique: rules?.unique ?? false,
+  };
+}
+
+function fromDraft(draft: RuleDraft): ColumnRules {
+  const number = (text: string) =>
+    text.trim() === "" || !Number.isFinite(Number(text))
+      ? undefined
+      : Number(text);
+  const allowed = draft.allowed
+    .split(",")
+    .map((value) => value.trim())
+    .filter((value) => value !== "");
+
+  return {
+    required: draft.required || undefined,
+    pattern: draft.pattern || undefined,
+    min: number(draft.min),
+    max: number(draft.max),
+    allowed: allowed.length > 0 ? allowed : undefined,
+    maxLength: number(draft.maxLength),
+    unique: draft.unique || undefined,
+  };
+}
+
+interface RuleEditorProps {
+  column: string;
+  rules: ColumnRules | undefined;
+  disabled: boolean;
+  onSave: (rules: ColumnRules) => void;
+}
+
+function RuleEditor({
+  column,
+  rules,
+  disabled,
+  onSave,
+}: RuleEditorProps): JSX.Element {
+  const [draft, setDraft] = useState<RuleDraft>(() => toDraft(rules));
+  const set = <K extends keyof RuleDraft>(key: K, value: RuleDraft[K]) =>
+    setDraft((prev) => ({ ...prev, [key]: value }));
+
+  const label = { display: "inline-flex", alignItems: "center", gap: 4 };
+
+  return (
+    <div
+      style={{
+        display: "flex",
+        flexWrap: "wrap",
+        gap: 8,
+        alignItems: "center",
+      }}
+    >
+      <label style={label}>
+        <input
+          type="checkbox"
+          checked={draft.required}
+          onChange={(e) => set("required", e.target.checked)}
+        />
+        Required
+      </label>
+      <label style={label}>
+        <input
+          type="checkbox"
+          checked={draft.unique}
+          onChange={(e) => set("unique", e.target.checked)}
+        />
+        Unique
+      </label>
+      <input
+        aria-label={`Pattern for ${column}`}
+        placeholder="Regex"
+        value={draft.pattern}
+        onChange={(e) => set("pattern", e.target.value)}
+      />
+      <input
+        type="number"
+        aria-label={`Minimum for ${column}`}
+        placeholder="Min"
+        value={draft.min}
+        onChange={(e) => set("min", e.target.value)}
+        style={{ width: 80 }}
+      />
+      <input
+        type="number"
+        aria-label={`Maximum for ${column}`}
+        placeholder="Max"
+        value={draft.max}
+        onChange={(e) => set("max", e.target.value)}
+        style={{ width: 80 }}
+      />
+      <input
+        type="number"
+        min={0}
+        aria-label={`Maximum length for ${column}`}
+        placeholder="Max length"
+        value={draft.maxLength}
+        onChange={(e) => set("maxLength", e.target.value)}
+        style={{ width: 100 }}
+      />
+      <input
+        aria-label={`Allowed values for ${column}`}
+        placeholder="Allowed values, comma separated"
+        value={draft.allowed}
+        onChange={(e) => set("allowed", e.target.value)}
+        style={{ minWidth: 220 }}
+      />
+      <button onClick={() => onSave(fromDraft(draft))} disabled={disabled}>
+        Save rules
+      </button>
+    </div>
+  );
+}
+
+/**
+ * Collapsible editor of per-column validation rules with a validation pass
+ * and a navigable list of violations.
+ */
+export function ValidationPanel({
+  columns,
+  rules,
+  violations,
+  validating,
+  rowsChecked,
+  disabled = false,
+  onSaveRules,
+  onValidate,
+  onCancel,
+  onSelect,
+}: ValidationPanelProps): JSX.Element {
+  const [column, setColumn] = useState<string>(columns[0] ?? "");
+  const ruled = Object.keys(rules).filter((col) => columns.includes(col));
+
+  const cellStyle = { padding: "2px 8px", borderBottom: "1px solid #f1f1f1" };
+
+  return (
+    <details style={{ marginBottom: 12 }}>
+      <summary>
+        Validation ({ruled.length} ruled columns
+        {violations && `, ${violations.length.toLocaleString()} violations`})
+      </summary>
+      <div style={{ display: "flex", gap: 8, marginTop: 8 }}>
+        <select
+          aria-label="Column to edit rules for"
+          value={column}
+          onChange={(e) => setColumn(e.target.value)}
+        >
+          {columns.map((col) => (
+            <option key={col} value={col}>
+              {col}
+              {ruled.includes(col) ? " *" : ""}
+            </option>
+          ))}
+        </select>
+      </div>
+      {column && (
+        <div style={{ marginTop: 8 }}>
+          <RuleEditor
+            key={column}
+            column={column}
+            rules={rules[column]}
+            disabled={disabled}
+            onSave={(next) => onSaveRules(column, next)}
+          />
+        </div>
+      )}
+      <div
+        style={{ display: "flex", gap: 8, alignItems: "center", marginTop: 8 }}
+      >
+        {validating ? (
+          <>
+            <button onClick={onCancel}>Cancel</button>
+            <span>Checked {rowsChecked.toLocaleString()} rows...</span>
+          </>
+        ) : (
+          <button
+            onClick={onValidate}
+            disabled={disabled || ruled.length === 0}
+          >
+            Validate dataset
+          </button>
+        )}
+      </div>
+      {violations &&
+        (violations.length === 0 ? (
+          <div style={{ color: "#777", marginTop: 8 }}>No violations</div>
+        ) : (
+          <div style={{ maxHeight: 240, overflow: "auto", marginTop: 8 }}>
+            <table style={{ borderCollapse: "collapse" }}>
+              <thead>
+                <tr>
+                  <th style={{ ...cellStyle, textAlign: "left" }}>Row</th>
+                  <th style={{ ...cellStyle, textAlign: "left" }}>Column</th>
+                  <th style={{ ...cellStyle, textAlign: "left" }}>Reason</th>
+                </tr>
+              </thead>
+              <tbody>
+                {violations.map((violation) => (
+                  <tr
+                    key={`${violation.rowId}\u0000${violation.column}`}
+                    onClick={() => onSelect(violation)}
+                    style={{ cursor: "pointer" }}
+                  >
+                    <td style={{ ...cellStyle, fontFamily: "monospace" }}>
+                      {violation.rowId}
+                    </td>
+                    <td style={cellStyle}>{violation.column}</td>
+                    <td style={{ ...cellStyle, color: "#c0392b" }}>
+                      {violation.reason}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ))}
+    </details>
+  );
+}
@@ -1,32 +1,205 @@
-import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type JSX,
+  type ReactNode,
+} from "react";
 import { useVirtualizer } from "@tanstack/react-virtual";
-import { db, type Row } from "../db";
+import {
+  db,
+  type CellValue,
+  type ColumnLayout,
+  type ColumnSchema,
+  type ColumnFilter,
+  type ColumnType,
+  type ComputedColumn,
+  type DatasetProfile,
+  type FilterState,
+  type Row,
+} from "../db";
+import { datasetRowsPage, type RowAnchor } from "../datasets";
+import { sortedRowsPage, type SortSpec } from "../sortIndex";
+import { editCell, editCells, subscribeCellChanges } from "../editHistory";
+import type { DirtyCells } from "../changes";
+import type { InvalidCells, Violation } from "../validation";
+import { subscribeRowChanges } from "../rowEdits";
+import { viewRows } from "../viewPosition";
+import { stagedRowsPage } from "../staging";
+import { parseTsv, toTsv } from "../clipboard";
+import {
+  DEFAULT_COLUMN_WIDTH_PX,
+  MIN_COLUMN_WIDTH_PX,
+  displayColumns,
+  fitColumnWidth,
+  moveColumn,
+} from "../columnLayout";
+import { FilterCell } from "./FilterCell";
+import { ColumnProfileCard } from "./ColumnProfileCard";
+import {
+  COLUMN_TYPES,
+  cellToText,
+  formatCell,
+  isRightAligned,
+  parseCell,
+} from "../columnTypes";
 
 const CONFIG = {
   DEFAULT_HEIGHT_PX: 600,
   DEFAULT_ROW_HEIGHT_PX: 36,
   ID_COLUMN_WIDTH_PX: 60,
-  DATA_COLUMN_MIN_WIDTH_PX: 160,
+  RESIZE_HANDLE_WIDTH_PX: 6,
   VIRTUAL_OVERSCAN: 50,
   FETCH_PREFETCH: 10,
   CACHE_KEEP_BEFORE: 50,
   CACHE_KEEP_AFTER: 50,
   MAX_CACHED_ROWS: 100,
+  MAX_CLIPBOARD_ROWS: 100_000,
 } as const;
 
+/**
+ * Rows selected through the `#` column, as view indices; `anchor` is where
+ * the selection started and `focus` where it was extended to.
+ */
+export interface RowSelection {
+  readonly anchor: number;
+  readonly focus: number;
+}
+
+/**
+ * Selected cell range: view row indices (inclusive) and its columns.
+ */
+export interface SelectedCells {
+  readonly top: number;
+  readonly bottom: number;
+  readonly columns: readonly string[];
+}
+
 export interface VirtualTableProps {
+  datasetId: number;
+  /**
+   * Running import whose staged rows are shown instead of the dataset's;
+   * pass no edit, sort or filter handlers with it
+   */
+  importId?: string;
   columns: readonly string[];
+  /** Column order, widths, hidden and pinned columns */
+  layout?: ColumnLayout;
+  /** When provided, headers can be dragged to reorder and resized at their edge */
+  onLayoutChange?: (layout: ColumnLayout) => void;
+  /** Column types driving alignment, formatting and edit parsing (default: string) */
+  schema?: ColumnSchema;
   rowCount: number;
   height?: number;
   rowHeight?: number;
   editMode?: boolean;
-  onCellEdit?: (rowId: number, column: string, newValue: string) => void;
+  onCellEdit?: (rowId: number, column: string, newValue: CellValue) => void;
+  /** When provided, headers offer a type picker in edit mode */
+  onColumnTypeChange?: (column: string, type: ColumnType) => void;
+  /** Active sort; its column's sort index must already be built */
+  sort?: SortSpec | null;
+  /** Header clicks cycle ascending → descending → unsorted */
+  onSortChange?: (sort: SortSpec | null) => void;
+  /**
+   * Explicit display order by row id (e.g. a filtered view); takes precedence
+   * over `sort`. May grow in place while a scan is running.
+   */
+  rowIds?: readonly number[] | null;
+  /** Filter row state; the row is shown when `onFiltersChange` is provided */
+  filters?: FilterState;
+  onFiltersChange?: (filters: FilterState) => void;
+  /** Search tokens to highlight inside cells */
+  highlightTokens?: readonly string[];
+  /** Row shown as the current search match */
+  activeRowId?: number | null;
+  /** Scrolls the given view index into the middle; pass a new object to re-trigger */
+  scrollTarget?: { readonly index: number } | null;
+  /** Cells differing from the imported data, marked in the table */
+  dirtyCells?: DirtyCells;
+  /** Selected rows; clicking `#` selects, Shift+click extends */
+  selection?: RowSelection | null;
+  onSelectionChange?: (selection: RowSelection | null) => void;
+  /** Reports the selected cell range, e.g. for bulk edits */
+  onCellSelectionChange?: (cells: SelectedCells | null) => void;
+  /** Cells flagged by the last validation pass */
+  invalidCells?: InvalidCells;
+  /** Column statistics, offered in a popover from each profiled header */
+  profile?: DatasetProfile;
+  /** Computed columns, shown read-only with their expression in the header */
+  computed?: readonly ComputedColumn[];
+  /** Checks an edit before it is saved; a returned reason rejects it */
+  validateEdit?: (
+    rowId: number,
+    column: string,
+    value: CellValue
+  ) => Promise<string | null>;
+  /** Checks a pasted batch, uniqueness across its cells included */
+  validateEdits?: (
+    cells: readonly { rowId: number; column: string; value: CellValue }[]
+  ) => Promise<Violation | null>;
   onError?: (error: Error) => void;
 }
 
+/**
+ * Wraps case-insensitive occurrences of any token in `<mark>`.
+ */
+function highlight(text: string, tokens: readonly string[]): ReactNode {
+  if (tokens.length === 0 || text === "") return text;
+
+  const lower = text.toLocaleLowerCase();
+  const parts: ReactNode[] = [];
+  let pos = 0;
+  while (pos < text.length) {
+    let next = -1;
+    let length = 0;
+    for (const token of tokens) {
+      const at = lower.indexOf(token, pos);
+      if (at >= 0 && (next < 0 || at < next)) {
+        next = at;
+        length = token.length;
+      }
+    }
+    if (next < 0) break;
+    if (next > pos) parts.push(text.slice(pos, next));
+    parts.push(<mark key={next}>{text.slice(next, next + length)}</mark>);
+    pos = next + length;
+  }
+  if (parts.length === 0) return text;
+  if (pos < text.length) parts.push(text.slice(pos));
+  return parts;
+}
+
+const EMPTY_FILTERS: FilterState = { combinator: "and", conditions: [] };
+
 interface EditingState {
   readonly rowIdx: number;
   readonly col: string;
+  /** Started by typing, so the typed text is kept rather than selected */
+  readonly typed?: boolean;
+}
+
+/** Cell by view row index and column index */
+interface CellPosition {
+  readonly row: number;
+  readonly col: number;
+}
+
+/** Rectangular cell range; `focus` is the active cell */
+interface CellRange {
+  readonly anchor: CellPosition;
+  readonly focus: CellPosition;
+}
+
+/** Bounds of a range as inclusive row and column spans */
+function rangeBounds({ anchor, focus }: CellRange) {
+  return {
+    top: Math.min(anchor.row, focus.row),
+    bottom: Math.max(anchor.row, focus.row),
+    left: Math.min(anchor.col, focus.col),
+    right: Math.max(anchor.col, focus.col),
+  };
 }
 
 /**
@@ -39,16 +212,55 @@ interface EditingState {
  * - Abort controllers: Cancel stale requests when user scrolls quickly
  */
 export function VirtualTable({
-  columns,
+  datasetId,
+  importId,
+  columns: datasetColumns,
+  layout,
+  onLayoutChange,
+  schema,
   rowCount,
   height = CONFIG.DEFAULT_HEIGHT_PX,
   rowHeight = CONFIG.DEFAULT_ROW_HEIGHT_PX,
   editMode = false,
   onCellEdit,
+  onColumnTypeChange,
+  sort = null,
+  onSortChange,
+  rowIds = null,
+  filters = EMPTY_FILTERS,
+  onFiltersChange,
+  highlightTokens = [],
+  activeRowId = null,
+  scrollTarget = null,
+  dirtyCells,
+  selection = null,
+  onSelectionChange,
+  onCellSelectionChange,
+  invalidCells,
+  profile,
+  computed,
+  validateEdit,
+  validateEdits,
   onError,
 }: VirtualTableProps): JSX.Element {
   const parentRef = useRef<HTMLDivElement | null>(null);
 
+  // Keyed by content, as fresh but equal arrays arrive with every meta update
+  const displayKey = JSON.stringify(displayColumns(datasetColumns, layout));
+  const columns = useMemo(
+    () => JSON.parse(displayKey) as string[],
+    [displayKey]
+  );
+
+  const typeOf = useCallback(
+    (col: string): ColumnType => schema?.[col] ?? "string",
+    [schema]
+  );
+  const expressions = useMemo(
+    () => new Map(computed?.map((column) => [column.name, column.expression])),
+    [computed]
+  );
+
   // Cache for loaded rows - Map allows O(1) lookups by row index
   const [cache, setCache] = useState<Map<number, Row>>(() => new Map());
   const cacheRef = useRef<Map<number, Row>>(cache);
@@ -65,6 +277,35 @@ export function VirtualTable({
   // Cell editing state
   const [editing, setEditing] = useState<EditingState | null>(null);
   const [editValue, setEditValue] = useState<string>("");
+  const [editError, setEditError] = useState<string | null>(null);
+
+  // Active cell and selected range; the active cell holds the roving tabindex
+  const [range, setRange] = useState<CellRange | null>(null);
+  // Moves focus to the active cell once it is rendered
+  const focusPendingRef = useRef<boolean>(false);
+  const [focusRequest, setFocusRequest] = useState<number>(0);
+  const requestFocus = useCallback((): void => {
+    focusPendingRef.current = true;
+    setFocusRequest((n) => n + 1);
+  }, []);
+
+  // Widths fitted to the loaded rows, for columns without a saved width
+  const [autoWidths, setAutoWidths] = useState<Record<string, number>>({});
+  // Width of a column while its edge is dragged, until the layout saves it
+  const [dragWidth, setDragWidth] = useState<{
+    column: string;
+    width: number;
+  } | null>(null);
+  const layoutRef = useRef<ColumnLayout | undefined>(layout);
+  layoutRef.current = layout;
+  const resizingRef = useRef<boolean>(false);
+
+  // Column whose statistics popover is open, placed below its header button
+  const [statsFor, setStatsFor] = useState<{
+    column: string;
+    left: number;
+    top: number;
+  } | null>(null);
 
   const virtualizer = useVirtualizer({
     count: rowCount,
@@ -75,6 +316,14 @@ export function VirtualTable({
 
   const virtualItems = virtualizer.getVirtualItems();
 
+  // Jump requests (e.g. next search match) center the target row
+  useEffect(() => {
+    if (scrollTarget && scrollTarget.index < rowCount) {
+      virtualizer.scrollToIndex(scrollTarget.index, { align: "center" });
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- only new targets scroll
+  }, [scrollTarget]);
+
   // Cleanup: abort fetch on unmount to prevent memory leaks
   useEffect(() => {
     const ref = fetchRef.current;
@@ -83,20 +332,151 @@ export function VirtualTable({
     };
   }, []);
 
-  // Reset cache and editing when dataset shape changes
-  useEffect(() => {
+  const resetCache = useCallback((): void => {
     setCache(new Map());
     setEditing(null);
     fetchRef.current.controller?.abort();
     requestIdRef.current++;
-  }, [columns, rowCount]);
+  }, []);
+
+  // Reset cache, editing and selection when the dataset, its shape or its order changes
+  useEffect(() => {
+    resetCache();
+    setRange(null);
+  }, [datasetId, importId, columns, sort, rowIds, resetCache]);
+
+  useEffect(() => {
+    setAutoWidths({});
+    setStatsFor(null);
+  }, [datasetId]);
+
+  // The popover is placed once, so scrolling or resizing closes it, as do
+  // Escape and pointer presses outside it
+  useEffect(() => {
+    if (!statsFor) return;
+    const close = (): void => setStatsFor(null);
+    const onKeyDown = (e: KeyboardEvent): void => {
+      if (e.key === "Escape") close();
+    };
+    const scroller = parentRef.current;
+    scroller?.addEventListener("scroll", close);
+    window.addEventListener("resize", close);
+    document.addEventListener("keydown", onKeyDown);
+    document.addEventListener("pointerdown", close);
+    return () => {
+      scroller?.removeEventListener("scroll", close);
+      window.removeEventListener("resize", close);
+      document.removeEventListener("keydown", onKeyDown);
+      document.removeEventListener("pointerdown", close);
+    };
+  }, [statsFor]);
+
+  // A saved layout carries the dragged width
+  useEffect(() => {
+    setDragWidth(null);
+  }, [layout]);
+
+  const fitWidth = useCallback(
+    (col: string): number => {
+      const style = parentRef.current
+        ? getComputedStyle(parentRef.current)
+        : null;
+      const font = style ? `${style.fontSize} ${style.fontFamily}` : "";
+      const texts = Array.from(cacheRef.current.values(), (row) =>
+        formatCell(row.data?.[col], typeOf(col))
+      );
+      return fitColumnWidth(col, texts, font);
+    },
+    [typeOf]
+  );
+
+  // Fit columns without a saved width once the first rows are loaded
+  useEffect(() => {
+    if (cache.size === 0) return;
+    const unfitted = columns.filter(
+      (col) =>
+        layout?.widths?.[col] === undefined && autoWidths[col] === undefined
+    );
+    if (unfitted.length === 0) return;
+    setAutoWidths((current) => ({
+      ...current,
+      ...Object.fromEntries(unfitted.map((col) => [col, fitWidth(col)])),
+    }));
+  }, [autoWidths, cache, columns, fitWidth, layout]);
+
+  const widthOf = (col: string): number =>
+    dragWidth?.column === col
+      ? dragWidth.width
+      : (layout?.widths?.[col] ?? autoWidths[col] ?? DEFAULT_COLUMN_WIDTH_PX);
+
+  useEffect(() => {
+    if (!onCellSelectionChange) return;
+    if (!range) {
+      onCellSelectionChange(null);
+      return;
+    }
+    const { top, bottom, left, right } = rangeBounds(range);
+    onCellSelectionChange({
+      top,
+      bottom,
+      columns: columns.slice(left, right + 1),
+    });
+  }, [columns, onCellSelectionChange, range]);
+
+  // Rows went away under the active cell
+  useEffect(() => {
+    if (range && range.focus.row >= rowCount) setRange(null);
+  }, [range, rowCount]);
+
+  // Rows appended at the end (a running filter scan) keep cached positions
+  // valid; a shrinking count means rows went away, so start over
+  const prevRowCountRef = useRef<number>(rowCount);
+  useEffect(() => {
+    if (rowCount < prevRowCountRef.current) resetCache();
+    prevRowCountRef.current = rowCount;
+  }, [rowCount, resetCache]);
+
+  // Inserted and deleted rows shift the positions of the rows after them
+  useEffect(
+    () =>
+      subscribeRowChanges((changed) => {
+        if (changed === datasetId) resetCache();
+      }),
+    [datasetId, resetCache]
+  );
+
+  // Undo, redo and revert patch cached rows before they are persisted
+  useEffect(
+    () =>
+      subscribeCellChanges((change) => {
+        if (change.datasetId !== datasetId) return;
+        // The changed row may move within the sorted order
+        if (sort?.column === change.column && !rowIds) {
+          resetCache();
+          return;
+        }
+        setCache((prevCache) => {
+          const nextCache = new Map(prevCache);
+          for (const [index, row] of prevCache) {
+            if (row.id === change.rowId) {
+              nextCache.set(index, {
+                ...row,
+                data: { ...row.data, [change.column]: change.value },
+              });
+            }
+          }
+          return nextCache;
+        });
+      }),
+    [datasetId, sort, rowIds, resetCache]
+  );
 
   /**
    * Main data fetching effect - the heart of virtual scrolling.
    *
    * Triggers when viewport changes and fetches only the rows that are
-   * currently visible + a small buffer. Uses IndexedDB pagination with
-   * offset/limit (works for most use cases despite potential gaps in IDs).
+   * currently visible + a small buffer. In id order, pages are counted from
+   * the nearest cached row, since ids have gaps and cannot be computed.
    */
   useEffect(() => {
     if (rowCount === 0 || columns.length === 0 || virtualItems.length === 0) {
@@ -134,6 +514,22 @@ export function VirtualTable({
 
     const limit = endIndex - startIndex + 1;
 
+    // Nearest cached row outside the page to count positions from
+    let anchor: RowAnchor | undefined;
+    for (const [index, row] of currentCache) {
+      if (row.id === undefined || (index >= startIndex && index <= endIndex)) {
+        continue;
+      }
+      const distance =
+        index < startIndex ? startIndex - index : index - endIndex;
+      const best = anchor
+        ? anchor.index < startIndex
+          ? startIndex - anchor.index
+          : anchor.index - endIndex
+        : Infinity;
+      if (distance < best) anchor = { index, rowId: row.id };
+    }
+
     /**
      * Async fetch with proper error handling and abort support.
      *
@@ -146,13 +542,19 @@ export function VirtualTable({
           throw new DOMException("Aborted", "AbortError");
         }
 
-        // Fetch from IndexedDB using offset/limit pagination
-        // This assumes roughly sequential row ordering in the database
-        const rows = await db.rows
-          .orderBy("id")
-          .offset(startIndex)
-          .limit(limit)
-          .toArray();
+        // Fetch from IndexedDB: a running import's staged rows in file order,
+        // by id for an explicit view, otherwise paginating in id order or
+        // along the sorted column's index. Ids of rows deleted since the view
+        // was built stay as holes, so the rows after them keep their positions
+        const rows: (Row | undefined)[] = importId
+          ? await stagedRowsPage(importId, datasetId, startIndex, limit)
+          : rowIds
+            ? await db.rows.bulkGet(
+                rowIds.slice(startIndex, startIndex + limit)
+              )
+            : sort
+              ? await sortedRowsPage(datasetId, sort, startIndex, limit, anchor)
+              : await datasetRowsPage(datasetId, startIndex, limit, anchor);
 
         // Ignore response if request was cancelled or superseded
         if (controller.signal.aborted || requestId !== requestIdRef.current) {
@@ -166,7 +568,7 @@ export function VirtualTable({
           // Add newly fetched rows to cache at their correct row indices
           // Example: if startIndex=100, rows[0] goes to cache key 100, rows[1] to 101, etc.
           rows.forEach((row, index) => {
-            nextCache.set(startIndex + index, row);
+            if (row) nextCache.set(startIndex + index, row);
           });
 
           /**
@@ -237,20 +639,30 @@ export function VirtualTable({
         }
       }
     })();
-  }, [columns, rowCount, virtualItems, onError]);
+  }, [
+    datasetId,
+    importId,
+    columns,
+    rowCount,
+    sort,
+    rowIds,
+    virtualItems,
+    onError,
+  ]);
 
   // Cell editing handlers
   const beginEdit = useCallback(
-    (rowIdx: number, col: string): void => {
-      if (!editMode) return;
+    (rowIdx: number, col: string, initialText?: string): void => {
+      if (!editMode || expressions.has(col)) return;
 
       const row = cache.get(rowIdx);
       if (!row) return;
 
-      setEditing({ rowIdx, col });
-      setEditValue(String(row.data[col] ?? ""));
+      setEditing({ rowIdx, col, typed: initialText !== undefined });
+      setEditValue(initialText ?? cellToText(row.data[col], typeOf(col)));
+      setEditError(null);
     },
-    [cache, editMode]
+    [cache, editMode, expressions, typeOf]
   );
 
   /**
@@ -262,20 +674,35 @@ export function VirtualTable({
    * Optimistic approach: User edits cell → update UI immediately → save to database
    * Benefit: Instant feedback, app feels fast and responsive
    * Risk: If database save fails, we need to rollback the UI change
+   *
+   * Resolves to whether the editor closed.
    */
-  const commitEdit = useCallback(async (): Promise<void> => {
-    if (!editing) return;
+  const commitEdit = useCallback(async (): Promise<boolean> => {
+    if (!editing) return true;
 
     const { rowIdx, col } = editing;
     const row = cache.get(rowIdx);
 
     if (!row?.id) {
       setEditing(null);
-      return;
+      return true;
     }
 
     const originalData = row.data;
-    const newData = { ...originalData, [col]: editValue };
+    const newValue = parseCell(editValue, typeOf(col));
+    const newData = { ...originalData, [col]: newValue };
+
+    // Rejected values keep the editor open with the reason next to it
+    try {
+      const reason = await validateEdit?.(row.id, col, newValue);
+      if (reason) {
+        setEditError(reason);
+        return false;
+      }
+    } catch (error) {
+      onError?.(error as Error);
+      return false;
+    }
 
     try {
       // Step 1: Optimistic update - change UI immediately for instant feedback
@@ -290,12 +717,19 @@ export function VirtualTable({
       });
 
       // Step 2: Persist to database (this might fail due to validation, network, etc.)
-      await db.rows.update(row.id, { data: newData });
+      // Indexes are updated and the edit is recorded for undo in the same transaction
+      await editCell(datasetId, row.id, col, newValue);
+
+      // The edited row may have moved within the sorted order
+      if (sort?.column === col && !rowIds) {
+        setCache(new Map());
+      }
 
       // Step 3: Notify parent component (for external state sync, analytics, etc.)
-      onCellEdit?.(row.id, col, editValue);
+      onCellEdit?.(row.id, col, newValue);
 
       setEditing(null);
+      return true;
     } catch (error) {
       // Step 4: Rollback strategy - revert UI to database state if save failed
       // This keeps the UI truthful about what's actually persisted
@@ -309,12 +743,51 @@ export function VirtualTable({
       });
 
       onError?.(error as Error);
+      return false;
     }
-  }, [cache, editValue, editing, onCellEdit, onError]);
+  }, [
+    cache,
+    datasetId,
+    editValue,
+    editing,
+    onCellEdit,
+    onError,
+    rowIds,
+    sort,
+    typeOf,
+    validateEdit,
+  ]);
+
+  const handleFilterChange = useCallback(
+    (col: string, condition: ColumnFilter | null): void => {
+      if (!onFiltersChange) return;
+      const others = filters.conditions.filter((c) => c.column !== col);
+      onFiltersChange({
+        ...filters,
+        conditions: condition ? [...others, condition] : others,
+      });
+    },
+    [filters, onFiltersChange]
+  );
+
+  const handleHeaderClick = useCallback(
+    (col: string): void => {
+      if (!onSortChange) return;
+      if (sort?.column !== col) {
+        onSortChange({ column: col, direction: "asc" });
+      } else if (sort.direction === "asc") {
+        onSortChange({ column: col, direction: "desc" });
+      } else {
+        onSortChange(null);
+      }
+    },
+    [onSortChange, sort]
+  );
 
   const cancelEdit = useCallback((): void => {
     setEditing(null);
     setEditValue("");
+    setEditError(null);
   }, []);
 
   /**
@@ -343,27 +816,402 @@ export function VirtualTable({
     };
   }, [virtualizer, virtualItems]);
 
+  /**
+   * Makes `to` the active cell, scrolling it into view; with `extend` the
+   * range stretches from its anchor to `to` instead of collapsing.
+   */
+  const moveTo = useCallback(
+    (to: CellPosition, extend: boolean): void => {
+      const pos = {
+        row: Math.max(0, Math.min(rowCount - 1, to.row)),
+        col: Math.max(0, Math.min(columns.length - 1, to.col)),
+      };
+      setRange((prev) =>
+        extend && prev
+          ? { anchor: prev.anchor, focus: pos }
+          : { anchor: pos, focus: pos }
+      );
+      virtualizer.scrollToIndex(pos.row, { align: "auto" });
+      requestFocus();
+    },
+    [columns.length, requestFocus, rowCount, virtualizer]
+  );
+
+  // Focus follows the active cell once its row is rendered
+  useEffect(() => {
+    if (!focusPendingRef.current || editing || !range) return;
+    const cell = parentRef.current?.querySelector<HTMLElement>(
+      `tr[data-index="${range.focus.row}"] > [aria-colindex="${range.focus.col + 2}"]`
+    );
+    if (cell) {
+      focusPendingRef.current = false;
+      cell.focus();
+    }
+  }, [focusRequest, editing, range, virtualItems]);
+
   const handleCellClick = useCallback(
-    (rowIdx: number, col: string): void => {
-      if (editMode) beginEdit(rowIdx, col);
+    (e: React.MouseEvent, rowIdx: number, colIdx: number): void => {
+      if (editing?.rowIdx === rowIdx && editing.col === columns[colIdx]) {
+        return;
+      }
+      const pos = { row: rowIdx, col: colIdx };
+      if (e.shiftKey && range) {
+        setRange({ anchor: range.anchor, focus: pos });
+        return;
+      }
+      // A second click on the active cell edits it, as in spreadsheets
+      const active =
+        range?.focus.row === rowIdx &&
+        range.focus.col === colIdx &&
+        range.anchor.row === rowIdx &&
+        range.anchor.col === colIdx;
+      if (active && editMode) beginEdit(rowIdx, columns[colIdx]);
+      else setRange({ anchor: pos, focus: pos });
     },
-    [editMode, beginEdit]
+    [beginEdit, columns, editMode, editing, range]
   );
 
+  /**
+   * Copies the selected range to the clipboard as TSV. Rows outside the
+   * cache are read from the database in view order.
+   */
+  const copyRange = useCallback(async (): Promise<void> => {
+    if (!range) return;
+    const { top, bottom, left, right } = rangeBounds(range);
+    if (bottom - top + 1 > CONFIG.MAX_CLIPBOARD_ROWS) {
+      onError?.(
+        new Error(
+          `Copy at most ${CONFIG.MAX_CLIPBOARD_ROWS.toLocaleString()} rows at once`
+        )
+      );
+      return;
+    }
+
+    try {
+      const rows = importId
+        ? await stagedRowsPage(importId, datasetId, top, bottom - top + 1)
+        : await viewRows(datasetId, top, bottom, sort, rowIds);
+      const cols = columns.slice(left, right + 1);
+      await navigator.clipboard.writeText(
+        toTsv(
+          rows.map((row) =>
+            cols.map((col) => cellToText(row.data[col], typeOf(col)))
+          )
+        )
+      );
+    } catch (error) {
+      onError?.(error as Error);
+    }
+  }, [columns, datasetId, importId, onError, range, rowIds, sort, typeOf]);
+
+  /**
+   * Pastes clipboard TSV with its top-left corner at the range's, clipped to
+   * the table, as one batched write. A single value fills the whole range.
+   * Every value is validated first; any rejection cancels the paste.
+   */
+  const pasteText = useCallback(
+    async (text: string): Promise<void> => {
+      if (!range) return;
+      const { top, bottom, left, right } = rangeBounds(range);
+      let values = parseTsv(text);
+      if (values.length === 1 && values[0].length === 1) {
+        values = Array.from({ length: bottom - top + 1 }, () =>
+          Array.from({ length: right - left + 1 }, () => values[0][0])
+        );
+      }
+
+      const height = Math.min(values.length, rowCount - top);
+      if (height <= 0) return;
+      if (height > CONFIG.MAX_CLIPBOARD_ROWS) {
+        onError?.(
+          new Error(
+            `Paste at most ${CONFIG.MAX_CLIPBOARD_ROWS.toLocaleString()} rows at once`
+          )
+        );
+        return;
+      }
+
+      try {
+        const rows = await viewRows(
+          datasetId,
+          top,
+          top + height - 1,
+          sort,
+          rowIds
+        );
+        const cells: { rowId: number; column: string; value: CellValue }[] = [];
+        rows.forEach((row, i) => {
+          values[i].forEach((raw, j) => {
+            const column = columns[left + j];
+            // Computed cells keep their values
+            if (column === undefined || expressions.has(column)) return;
+            cells.push({
+              rowId: row.id!,
+              column,
+              value: parseCell(raw, typeOf(column)),
+            });
+          });
+        });
+
+        const violation = await validateEdits?.(cells);
+        if (violation) {
+          throw new Error(
+            `Row ${violation.rowId}, ${violation.column}: ${violation.reason}`
+          );
+        }
+
+        await editCells(datasetId, cells);
+        for (const cell of cells) {
+          onCellEdit?.(cell.rowId, cell.column, cell.value);
+        }
+
+        // Select what was pasted
+        const width = Math.max(...values.map((line) => line.length));
+        setRange({
+          anchor: { row: top, col: left },
+          focus: {
+            row: top + rows.length - 1,
+            col: Math.min(columns.length - 1, left + width - 1),
+          },
+        });
+      } catch (error) {
+        onError?.(error as Error);
+      }
+    },
+    [
+      columns,
+      datasetId,
+      expressions,
+      onCellEdit,
+      onError,
+      range,
+      rowCount,
+      rowIds,
+      sort,
+      typeOf,
+      validateEdits,
+    ]
+  );
+
+  const handlePaste = useCallback(
+    (e: React.ClipboardEvent): void => {
+      const target = e.target as HTMLElement;
+      if (!editMode || target.closest("input, select, textarea")) return;
+      e.preventDefault();
+      pasteText(e.clipboardData.getData("text/plain"));
+    },
+    [editMode, pasteText]
+  );
+
+  /**
+   * Spreadsheet keys on the grid: arrows, Tab, Home/End and PageUp/PageDown
+   * move the active cell (Shift extends the range), Enter or F2 edits, typing
+   * replaces the value and Ctrl+C copies. Keys inside editors and filters are
+   * left alone.
+   */
+  const handleGridKeyDown = useCallback(
+    (e: React.KeyboardEvent): void => {
+      const target = e.target as HTMLElement;
+      if (target.closest("input, select, textarea")) return;
+      if (rowCount === 0 || columns.length === 0) return;
+
+      const current = range?.focus ?? { row: 0, col: 0 };
+      const lastRow = rowCount - 1;
+      const lastCol = columns.length - 1;
+      const ctrl = e.ctrlKey || e.metaKey;
+      const pageRows = Math.max(1, Math.floor(height / rowHeight) - 2);
+      const move = (to: CellPosition, extend = e.shiftKey) => {
+        e.preventDefault();
+        moveTo(to, extend);
+      };
+
+      switch (e.key) {
+        case "ArrowUp":
+          move({ row: ctrl ? 0 : current.row - 1, col: current.col });
+          break;
+        case "ArrowDown":
+          move({ row: ctrl ? lastRow : current.row + 1, col: current.col });
+          break;
+        case "ArrowLeft":
+          move({ row: current.row, col: ctrl ? 0 : current.col - 1 });
+          break;
+        case "ArrowRight":
+          move({ row: current.row, col: ctrl ? lastCol : current.col + 1 });
+          break;
+        case "Home":
+          move({ row: ctrl ? 0 : current.row, col: 0 });
+          break;
+        case "End":
+          move({ row: ctrl ? lastRow : current.row, col: lastCol });
+          break;
+        case "PageUp":
+          move({ row: current.row - pageRows, col: current.col });
+          break;
+        case "PageDown":
+          move({ row: current.row + pageRows, col: current.col });
+          break;
+        case "Tab": {
+          // Wraps across rows; at either end of the table focus leaves the grid
+          const index =
+            current.row * columns.length + current.col + (e.shiftKey ? -1 : 1);
+          if (
+            !range ||
+            index < 0 ||
+            index > lastRow * columns.length + lastCol
+          ) {
+            return;
+          }
+          move(
+            {
+              row: Math.floor(index / columns.length),
+              col: index % columns.length,
+            },
+            false
+          );
+          break;
+        }
+        case "Enter":
+        case "F2":
+          if (editMode && range) {
+            e.preventDefault();
+            beginEdit(current.row, columns[current.col]);
+          }
+          break;
+        case "Escape":
+          if (range) move(current, false);
+          break;
+        default:
+          if (ctrl && e.key.toLowerCase() === "c") {
+            e.preventDefault();
+            copyRange();
+          } else if (
+            editMode &&
+            range &&
+            e.key.length === 1 &&
+            !ctrl &&
+            !e.altKey
+          ) {
+            e.preventDefault();
+            beginEdit(current.row, columns[current.col], e.key);
+          }
+      }
+    },
+    [
+      beginEdit,
+      columns,
+      copyRange,
+      editMode,
+      height,
+      moveTo,
+      range,
+      rowCount,
+      rowHeight,
+    ]
+  );
+
+  const handleRowHeaderClick = useCallback(
+    (e: React.MouseEvent, rowIdx: number): void => {
+      if (!onSelectionChange) return;
+      if (e.shiftKey && selection) {
+        onSelectionChange({ anchor: selection.anchor, focus: rowIdx });
+      } else if (selection?.anchor === rowIdx && selection.focus === rowIdx) {
+        onSelectionChange(null);
+      } else {
+        onSelectionChange({ anchor: rowIdx, focus: rowIdx });
+      }
+    },
+    [onSelectionChange, selection]
+  );
+
+  const saveWidth = useCallback(
+    (col: string, width: number): void => {
+      const current = layoutRef.current;
+      onLayoutChange?.({
+        ...current,
+        widths: { ...current?.widths, [col]: width },
+      });
+    },
+    [onLayoutChange]
+  );
+
+  // Dragging a header's right edge resizes the column; the width is saved on release
+  const handleResizeStart = (e: React.PointerEvent, col: string): void => {
+    e.preventDefault();
+    e.stopPropagation();
+    const startX = e.clientX;
+    const startWidth = widthOf(col);
+    let width = startWidth;
+    resizingRef.current = true;
+
+    const onMove = (move: PointerEvent): void => {
+      width = Math.max(
+        MIN_COLUMN_WIDTH_PX,
+        Math.round(startWidth + move.clientX - startX)
+      );
+      setDragWidth({ column: col, width });
+    };
+    const onUp = (): void => {
+      resizingRef.current = false;
+      window.removeEventListener("pointermove", onMove);
+      window.removeEventListener("pointerup", onUp);
+      if (width === startWidth) {
+        setDragWidth(null);
+      } else {
+        saveWidth(col, width);
+      }
+    };
+    window.addEventListener("pointermove", onMove);
+    window.addEventListener("pointerup", onUp);
+  };
+
+  // Headers are dragged onto another header to move in front of it
+  const handleColumnDrop = (e: React.DragEvent, col: string): void => {
+    const dragged = e.dataTransfer.getData("text/plain");
+    if (!onLayoutChange || !dragged || dragged === col) return;
+    if (!datasetColumns.includes(dragged)) return;
+    e.preventDefault();
+    onLayoutChange(moveColumn(datasetColumns, layout, dragged, col));
+  };
+
   const handleEditKeyDown = useCallback(
     (e: React.KeyboardEvent<HTMLInputElement>): void => {
+      // Focus returns to the cell so keyboard navigation carries on
       if (e.key === "Enter") {
         e.preventDefault();
-        commitEdit();
+        commitEdit().then((closed) => {
+          if (closed) requestFocus();
+        });
       } else if (e.key === "Escape") {
         e.preventDefault();
         cancelEdit();
+        requestFocus();
       }
     },
-    [commitEdit, cancelEdit]
+    [commitEdit, cancelEdit, requestFocus]
   );
 
-  const columnsArray = Array.from(columns);
+  // Pinned columns come first; each sticks after `#` and the pinned ones before it
+  const pinned = new Set(layout?.pinned);
+  const pinnedLeft = new Map<string, number>();
+  let pinnedEnd = CONFIG.ID_COLUMN_WIDTH_PX;
+  for (const col of columns) {
+    if (!pinned.has(col)) break;
+    pinnedLeft.set(col, pinnedEnd);
+    pinnedEnd += widthOf(col);
+  }
+  const tableWidth = columns.reduce<number>(
+    (sum, col) => sum + widthOf(col),
+    CONFIG.ID_COLUMN_WIDTH_PX
+  );
+  const selectedFrom = selection
+    ? Math.min(selection.anchor, selection.focus)
+    : -1;
+  const selectedTo = selection
+    ? Math.max(selection.anchor, selection.focus)
+    : -1;
+  const bounds = range ? rangeBounds(range) : null;
+  // Header rows come first in aria-rowindex numbering
+  const headerRows = onFiltersChange ? 2 : 1;
 
   return (
     <div
@@ -376,33 +1224,38 @@ export function VirtualTable({
         position: "relative",
         background: "#fff",
       }}
-      role="grid"
-      aria-label="Virtual data table"
     >
+      {/* Row and column indices count from the header, over the full dataset */}
       <table
+        role="grid"
+        aria-label="Virtual data table"
+        aria-rowcount={rowCount + headerRows}
+        aria-colcount={columns.length + 1}
+        aria-multiselectable="true"
+        onKeyDown={handleGridKeyDown}
+        onPaste={handlePaste}
         style={{
-          width: "100%",
+          width: tableWidth,
           borderCollapse: "collapse",
           tableLayout: "fixed",
         }}
       >
         <colgroup>
           <col style={{ width: CONFIG.ID_COLUMN_WIDTH_PX }} />
-          {columnsArray.map((col) => (
-            <col
-              key={col}
-              style={{ minWidth: CONFIG.DATA_COLUMN_MIN_WIDTH_PX }}
-            />
+          {columns.map((col) => (
+            <col key={col} style={{ width: widthOf(col) }} />
           ))}
         </colgroup>
 
         <thead>
-          <tr>
+          <tr aria-rowindex={1}>
             <th
+              aria-colindex={1}
               style={{
                 position: "sticky",
                 top: 0,
-                zIndex: 1,
+                left: 0,
+                zIndex: 2,
                 background: "#fafafa",
                 borderBottom: "1px solid #ddd",
                 textAlign: "left",
@@ -413,25 +1266,192 @@ export function VirtualTable({
             >
               #
             </th>
-            {columnsArray.map((col) => (
+            {columns.map((col, colIdx) => (
               <th
                 key={col}
+                aria-colindex={colIdx + 2}
+                draggable={Boolean(onLayoutChange)}
+                onDragStart={(e) => {
+                  // Resizing drags the edge, not the column
+                  if (resizingRef.current) {
+                    e.preventDefault();
+                    return;
+                  }
+                  e.dataTransfer.setData("text/plain", col);
+                  e.dataTransfer.effectAllowed = "move";
+                }}
+                onDragOver={(e) => {
+                  if (onLayoutChange) e.preventDefault();
+                }}
+                onDrop={(e) => handleColumnDrop(e, col)}
                 style={{
                   position: "sticky",
                   top: 0,
-                  zIndex: 1,
+                  left: pinnedLeft.get(col),
+                  zIndex: pinnedLeft.has(col) ? 2 : 1,
                   background: "#fafafa",
                   borderBottom: "1px solid #ddd",
-                  textAlign: "left",
+                  textAlign: isRightAligned(typeOf(col)) ? "right" : "left",
                   height: rowHeight,
                   padding: "8px",
                   fontWeight: 600,
+                  whiteSpace: "nowrap",
+                  overflow: "hidden",
+                  textOverflow: "ellipsis",
+                  cursor: onSortChange ? "pointer" : "default",
                 }}
+                aria-sort={
+                  sort?.column === col
+                    ? sort.direction === "asc"
+                      ? "ascending"
+                      : "descending"
+                    : undefined
+                }
+                onClick={() => handleHeaderClick(col)}
               >
+                {expressions.has(col) && (
+                  <span
+                    title={`Computed: ${expressions.get(col)}`}
+                    style={{
+                      marginRight: 4,
+                      color: "#666",
+                      fontStyle: "italic",
+                    }}
+                  >
+                    ƒ
+                  </span>
+                )}
                 {col}
+                {sort?.column === col &&
+                  (sort.direction === "asc" ? " ▲" : " ▼")}
+                {profile?.columns[col] && (
+                  <button
+                    aria-label={`Statistics of ${col}`}
+                    aria-expanded={statsFor?.column === col}
+                    title="Column statistics"
+                    onPointerDown={(e) => e.stopPropagation()}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      const rect = e.currentTarget.getBoundingClientRect();
+                      setStatsFor(
+                        statsFor?.column === col
+                          ? null
+                          : {
+                              column: col,
+                              left: rect.left,
+                              top: rect.bottom + 4,
+                            }
+                      );
+                    }}
+                    style={{
+                      marginLeft: 6,
+                      padding: 0,
+                      border: "none",
+                      background: "none",
+                      color: "#666",
+                      cursor: "pointer",
+                    }}
+                  >
+                    ⓘ
+                  </button>
+                )}
+                {editMode && onColumnTypeChange && !expressions.has(col) && (
+                  <select
+                    aria-label={`Type of ${col}`}
+                    value={typeOf(col)}
+                    onChange={(e) =>
+                      onColumnTypeChange(col, e.target.value as ColumnType)
+                    }
+                    onClick={(e) => e.stopPropagation()}
+                    style={{ marginLeft: 6, fontWeight: 400 }}
+                  >
+                    {COLUMN_TYPES.map((type) => (
+                      <option key={type} value={type}>
+                        {type}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                {onLayoutChange && (
+                  <div
+                    role="separator"
+                    aria-orientation="vertical"
+                    aria-label={`Resize ${col}`}
+                    title="Drag to resize, double-click to fit"
+                    onPointerDown={(e) => handleResizeStart(e, col)}
+                    onClick={(e) => e.stopPropagation()}
+                    onDoubleClick={(e) => {
+                      e.stopPropagation();
+                      saveWidth(col, fitWidth(col));
+                    }}
+                    style={{
+                      position: "absolute",
+                      top: 0,
+                      right: 0,
+                      bottom: 0,
+                      width: CONFIG.RESIZE_HANDLE_WIDTH_PX,
+                      cursor: "col-resize",
+                    }}
+                  />
+                )}
               </th>
             ))}
           </tr>
+
+          {onFiltersChange && (
+            <tr aria-rowindex={2}>
+              <th
+                aria-colindex={1}
+                style={{
+                  position: "sticky",
+                  top: rowHeight,
+                  left: 0,
+                  zIndex: 2,
+                  background: "#fafafa",
+                  borderBottom: "1px solid #ddd",
+                  padding: "4px",
+                }}
+              >
+                <select
+                  aria-label="Combine filters"
+                  value={filters.combinator}
+                  onChange={(e) =>
+                    onFiltersChange({
+                      ...filters,
+                      combinator: e.target.value as FilterState["combinator"],
+                    })
+                  }
+                  style={{ font: "inherit", fontSize: "0.8em" }}
+                >
+                  <option value="and">AND</option>
+                  <option value="or">OR</option>
+                </select>
+              </th>
+              {columns.map((col, colIdx) => (
+                <th
+                  key={col}
+                  aria-colindex={colIdx + 2}
+                  style={{
+                    position: "sticky",
+                    top: rowHeight,
+                    left: pinnedLeft.get(col),
+                    zIndex: pinnedLeft.has(col) ? 2 : 1,
+                    background: "#fafafa",
+                    borderBottom: "1px solid #ddd",
+                    padding: "4px 8px",
+                    fontWeight: 400,
+                  }}
+                >
+                  <FilterCell
+                    column={col}
+                    type={typeOf(col)}
+                    condition={filters.conditions.find((c) => c.column === col)}
+                    onChange={(condition) => handleFilterChange(col, condition)}
+                  />
+                </th>
+              ))}
+            </tr>
+          )}
         </thead>
 
         <tbody>
@@ -442,7 +1462,7 @@ export function VirtualTable({
           */}
           {paddingTop > 0 && (
             <tr style={{ height: paddingTop }} aria-hidden="true">
-              <td colSpan={columnsArray.length + 1} />
+              <td colSpan={columns.length + 1} />
             </tr>
           )}
 
@@ -454,23 +1474,47 @@ export function VirtualTable({
           {virtualItems.map((virtualRow) => {
             const rowIdx = virtualRow.index; // Logical row number (0 to rowCount-1)
             const row = cache.get(rowIdx); // Actual data (may be undefined if still loading)
+            const dirty =
+              row?.id !== undefined ? dirtyCells?.get(row.id) : undefined;
+            const selected = rowIdx >= selectedFrom && rowIdx <= selectedTo;
+            const rowBackground =
+              row?.id !== undefined && row.id === activeRowId
+                ? "#fff4c2"
+                : selected
+                  ? "#e8f0fe"
+                  : undefined;
 
             return (
               <tr
                 key={virtualRow.key} // Stable key from virtualizer for React reconciliation
+                data-index={rowIdx}
+                aria-rowindex={headerRows + rowIdx + 1}
                 style={{
                   height: virtualRow.size, // Exact height calculated by virtualizer
                   borderBottom: "1px solid #f1f1f1",
+                  background: rowBackground,
                 }}
+                aria-selected={onSelectionChange ? selected : undefined}
               >
                 {/* 
                   ID column: shows the logical row number or database ID.
                   Always visible even when row data is still loading from IndexedDB.
                 */}
                 <td
+                  aria-colindex={1}
+                  title={dirty ? "Modified since import" : undefined}
+                  onClick={(e) => handleRowHeaderClick(e, rowIdx)}
                   style={{
+                    // Stays in view when scrolling sideways
+                    position: "sticky",
+                    left: 0,
+                    zIndex: 1,
+                    background: rowBackground ?? "#fff",
                     padding: "6px 8px",
-                    color: "#888",
+                    cursor: onSelectionChange ? "pointer" : undefined,
+                    userSelect: "none",
+                    color: dirty ? "#b36b00" : "#888",
+                    fontWeight: dirty ? 600 : undefined,
                     borderRight: "1px solid #f5f5f5",
                     fontFamily: "monospace", // Monospace for consistent number alignment
                     fontSize: "0.9em",
@@ -484,24 +1528,74 @@ export function VirtualTable({
                 </td>
 
                 {/* Data columns: show actual cell values with inline editing support */}
-                {columnsArray.map((col) => {
+                {columns.map((col, colIdx) => {
                   const isEditing =
                     editing?.rowIdx === rowIdx && editing.col === col;
-                  const value = row?.data?.[col] ?? "";
+                  // Roving tabindex: only the active cell (or the first one) is tabbable
+                  const isActive = range
+                    ? range.focus.row === rowIdx && range.focus.col === colIdx
+                    : rowIdx === 0 && colIdx === 0;
+                  const inRange =
+                    bounds !== null &&
+                    rowIdx >= bounds.top &&
+                    rowIdx <= bounds.bottom &&
+                    colIdx >= bounds.left &&
+                    colIdx <= bounds.right;
+                  const type = typeOf(col);
+                  const value = formatCell(row?.data?.[col], type);
+                  const invalid =
+                    row?.id !== undefined
+                      ? invalidCells?.get(row.id)?.get(col)
+                      : undefined;
+                  const failed = row?.errors?.[col];
+                  // Rule violations outrank modifications
+                  const background = invalid
+                    ? "#fde2e2"
+                    : dirty?.has(col)
+                      ? "#fdf0dc"
+                      : undefined;
+                  const pinnedAt = pinnedLeft.get(col);
 
                   return (
                     <td
                       key={col}
+                      aria-colindex={colIdx + 2}
+                      aria-selected={inRange}
+                      tabIndex={isActive ? 0 : -1}
+                      onFocus={() => {
+                        // Tabbing into the grid activates the first cell
+                        if (!range) {
+                          const pos = { row: rowIdx, col: colIdx };
+                          setRange({ anchor: pos, focus: pos });
+                        }
+                      }}
                       style={{
                         padding: "4px 8px",
                         borderRight: "1px solid #f5f5f5",
-                        minWidth: CONFIG.DATA_COLUMN_MIN_WIDTH_PX,
                         whiteSpace: "nowrap",
-                        overflow: "hidden",
+                        // The rejection reason shows below the editor; pinned
+                        // cells stick and need an opaque background
+                        position:
+                          pinnedAt !== undefined ? "sticky" : "relative",
+                        left: pinnedAt,
+                        zIndex: pinnedAt !== undefined ? 1 : undefined,
+                        overflow: isEditing ? "visible" : "hidden",
                         textOverflow: "ellipsis",
+                        textAlign: isRightAligned(type) ? "right" : "left",
                         cursor: editMode ? "pointer" : "default",
+                        background:
+                          pinnedAt !== undefined
+                            ? (background ?? rowBackground ?? "#fff")
+                            : background,
+                        // Range tint overlays those backgrounds
+                        boxShadow: inRange
+                          ? "inset 0 0 0 9999px rgba(0, 102, 204, 0.08)"
+                          : undefined,
+                        outline:
+                          isActive && range ? "2px solid #0066cc" : undefined,
+                        outlineOffset: -2,
                       }}
-                      onClick={() => handleCellClick(rowIdx, col)}
+                      onClick={(e) => handleCellClick(e, rowIdx, colIdx)}
                       onDoubleClick={() => beginEdit(rowIdx, col)}
                     >
                       {isEditing ? (
@@ -511,28 +1605,69 @@ export function VirtualTable({
                           - Escape: cancel editing
                           - Blur: save changes (user clicked elsewhere)
                         */
-                        <input
-                          value={editValue}
-                          onChange={(e) => setEditValue(e.target.value)}
-                          onBlur={commitEdit}
-                          onKeyDown={handleEditKeyDown}
-                          autoFocus
-                          onFocus={(e) => e.currentTarget.select()} // Select all text for easy replacement
-                          style={{
-                            width: "100%",
-                            border: "2px solid #0066cc", // Visual feedback for edit state
-                            borderRadius: 4,
-                            padding: "4px 6px",
-                            font: "inherit",
-                            outline: "none",
-                          }}
-                        />
-                      ) : (
-                        /* 
+                        <>
+                          <input
+                            value={editValue}
+                            onChange={(e) => {
+                              setEditValue(e.target.value);
+                              setEditError(null);
+                            }}
+                            onBlur={commitEdit}
+                            onKeyDown={handleEditKeyDown}
+                            autoFocus
+                            onFocus={(e) => {
+                              // Select all text for easy replacement, unless typing started the edit
+                              const input = e.currentTarget;
+                              if (editing?.typed) {
+                                input.setSelectionRange(
+                                  input.value.length,
+                                  input.value.length
+                                );
+                              } else {
+                                input.select();
+                              }
+                            }}
+                            aria-invalid={editError !== null}
+                            style={{
+                              width: "100%",
+                              border: `2px solid ${editError ? "#c0392b" : "#0066cc"}`, // Visual feedback for edit state
+                              borderRadius: 4,
+                              padding: "4px 6px",
+                              font: "inherit",
+                              outline: "none",
+                            }}
+                          />
+                          {editError && (
+                            <div
+                              role="alert"
+                              style={{
+                                position: "absolute",
+                                top: "100%",
+                                left: 8,
+                                zIndex: 3,
+                                padding: "2px 6px",
+                                background: "#c0392b",
+                                color: "white",
+                                fontSize: "0.85em",
+                                borderRadius: 4,
+                              }}
+                            >
+                              {editError}
+                            </div>
+                          )}
+                        </>
+                      ) : /* 
                           View mode: display cell value with tooltip for long content
                           Shows empty string for missing data (cleaner than "undefined")
                         */
-                        <span title={String(value)}>{String(value)}</span>
+                      failed ? (
+                        <span title={failed} style={{ color: "#c0392b" }}>
+                          ⚠ {failed}
+                        </span>
+                      ) : (
+                        <span title={invalid ?? value}>
+                          {highlight(value, highlightTokens)}
+                        </span>
                       )}
                     </td>
                   );
@@ -547,11 +1682,38 @@ export function VirtualTable({
           */}
           {paddingBottom > 0 && (
             <tr style={{ height: paddingBottom }} aria-hidden="true">
-              <td colSpan={columnsArray.length + 1} />
+              <td colSpan={columns.length + 1} />
             </tr>
           )}
         </tbody>
       </table>
+
+      {statsFor && profile?.columns[statsFor.column] && (
+        <div
+          role="dialog"
+          aria-label={`Statistics of ${statsFor.column}`}
+          onPointerDown={(e) => e.stopPropagation()}
+          style={{
+            // Fixed, so the table's scroll area does not clip it
+            position: "fixed",
+            left: statsFor.left,
+            top: statsFor.top,
+            zIndex: 10,
+            maxWidth: 360,
+            padding: 8,
+            background: "#fff",
+            border: "1px solid #ddd",
+            borderRadius: 8,
+            boxShadow: "0 4px 12px rgba(0, 0, 0, 0.15)",
+          }}
+        >
+          <ColumnProfileCard
+            column={statsFor.column}
+            type={typeOf(statsFor.column)}
+            profile={profile.columns[statsFor.column]}
+          />
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,299 @@
+import {
+  db,
+  type CellValue,
+  type ColumnType,
+  type ComputedColumn,
+  type Meta,
+} from "./db";
+import { datasetRows } from "./datasets";
+import { dropSortIndexes } from "./sortIndex";
+import { notifyRowChanges } from "./rowEdits";
+import { compileExpression, ExpressionError } from "./expressions";
+import type { ProfileChange } from "./profile";
+
+/**
+ * A computed column ready to evaluate.
+ */
+export interface CompiledColumn {
+  readonly name: string;
+  readonly evaluate: (data: Record<string, CellValue>) => CellValue;
+}
+
+/**
+ * Names of a dataset's imported (not computed) columns.
+ */
+export function dataColumns(meta: Meta): string[] {
+  const computed = new Set(meta.computed?.map((column) => column.name));
+  return meta.columns.filter((column) => !computed.has(column));
+}
+
+/**
+ * Compiles computed columns in order; each may use the data columns and the
+ * computed columns before it. Throws `ExpressionError` naming the column.
+ */
+export function compileComputedColumns(
+  computed: readonly ComputedColumn[],
+  columns: readonly string[]
+): CompiledColumn[] {
+  const available = [...columns];
+  return computed.map((column) => {
+    try {
+      const { evaluate } = compileExpression(column.expression, available);
+      available.push(column.name);
+      return { name: column.name, evaluate };
+    } catch (e) {
+      if (!(e instanceof ExpressionError)) throw e;
+      throw new ExpressionError(`${column.name}: ${e.message}`);
+    }
+  });
+}
+
+/**
+ * Compiled computed columns of a dataset; empty without any.
+ */
+export function compileDatasetColumns(meta: Meta): CompiledColumn[] {
+  return meta.computed
+    ? compileComputedColumns(meta.computed, dataColumns(meta))
+    : [];
+}
+
+function sameValue(a: CellValue, b: CellValue): boolean {
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+  return a === b;
+}
+
+/**
+ * Recomputes a row's computed values in place, recording evaluation errors
+ * in `row.errors` and leaving those cells empty. Returns the profile changes
+ * of the values that changed.
+ */
+export function computeRow(
+  row: { data: Record<string, CellValue>; errors?: Record<string, string> },
+  compiled: readonly CompiledColumn[]
+): ProfileChange[] {
+  if (compiled.length === 0) return [];
+  const changes: ProfileChange[] = [];
+  let errors: Record<string, string> | undefined;
+  for (const column of compiled) {
+    const previous = row.data[column.name] ?? null;
+    let next: CellValue = null;
+    try {
+      next = column.evaluate(row.data);
+    } catch (e) {
+      if (!(e instanceof ExpressionError)) throw e;
+      errors ??= {};
+      errors[column.name] = e.message;
+    }
+    row.data[column.name] = next;
+    if (!sameValue(previous, next)) {
+      changes.push({ column: column.name, removed: previous, added: next });
+    }
+  }
+  if (errors) row.errors = errors;
+  else delete row.errors;
+  return changes;
+}
+
+/**
+ * Narrows the type of computed values as they are seen.
+ */
+class ResultType {
+  private readonly kinds = new Set<ColumnType>();
+
+  observe(value: CellValue): void {
+    if (value === null || value === "") return;
+    if (typeof value === "number") {
+      this.kinds.add(Number.isInteger(value) ? "integer" : "decimal");
+    } else if (typeof value === "boolean") {
+      this.kinds.add("boolean");
+    } else if (value instanceof Date) {
+      this.kinds.add(
+        value.getTime() % (24 * 60 * 60 * 1000) === 0 ? "date" : "datetime"
+      );
+    } else {
+      this.kinds.add("string");
+    }
+  }
+
+  /** Narrowest type covering every value seen; text without any */
+  get type(): ColumnType {
+    const kinds = this.kinds;
+    if (kinds.size === 1) return [...kinds][0];
+    if (kinds.size === 2 && kinds.has("integer") && kinds.has("decimal")) {
+      return "decimal";
+    }
+    if (kinds.size === 2 && kinds.has("date") && kinds.has("datetime")) {
+      return "datetime";
+    }
+    return "string";
+  }
+}
+
+/**
+ * Adds a computed column, or changes the expression of an existing one, and
+ * computes its values for every row in one transaction.
+ *
+ * The expression may use the data columns and the computed columns defined
+ * before this one. The column's type is inferred from the results.
+ */
+export async function defineComputedColumn(
+  datasetId: number,
+  name: string,
+  expression: string
+): Promise<void> {
+  await db.transaction(
+    "rw",
+    [db.rows, db.datasets, db.sortEntries, db.sortIndexes],
+    async () => {
+      const meta = await db.datasets.get(datasetId);
+      if (!meta) throw new Error(`Dataset ${datasetId} no longer exists`);
+
+      const computed = meta.computed ?? [];
+      const columns = dataColumns(meta);
+      if (name.trim() === "") throw new Error("Column name is empty");
+      if (columns.includes(name)) {
+        throw new Error(`"${name}" is already an imported column`);
+      }
+
+      const existing = computed.findIndex((column) => column.name === name);
+      const next =
+        existing < 0
+          ? [...computed, { name, expression }]
+          : computed.map((column, i) =>
+              i === existing ? { name, expression } : column
+            );
+      // Compiling all of them catches later columns left without an input
+      const compiled = compileComputedColumns(next, columns);
+      const first = existing < 0 ? computed.length : existing;
+      const changed = compiled.slice(first);
+
+      const types = changed.map(() => new ResultType());
+      await datasetRows(datasetId).modify((row) => {
+        computeRow(row, compiled);
+        changed.forEach((column, i) => types[i].observe(row.data[column.name]));
+      });
+
+      const changedNames = new Set(changed.map((column) => column.name));
+      const profile = meta.profile && {
+        ...meta.profile,
+        columns: Object.fromEntries(
+          Object.entries(meta.profile.columns).filter(
+            ([col]) => !changedNames.has(col)
+          )
+        ),
+      };
+      await db.datasets.update(datasetId, {
+        columns: existing < 0 ? [...meta.columns, name] : meta.columns,
+        schema: {
+          ...meta.schema,
+          ...Object.fromEntries(
+            changed.map((column, i) => [column.name, types[i].type])
+          ),
+        },
+        computed: next,
+        // New values are re-indexed for search on next use
+        searchIndexed: false,
+        profile,
+      });
+      for (const column of changedNames) {
+        await dropSortIndexes(datasetId, column);
+      }
+    }
+  );
+  notifyRowChanges(datasetId);
+}
+
+/**
+ * Removes a computed column and its values. Fails while another computed
+ * column uses it.
+ */
+export async function removeComputedColumn(
+  datasetId: number,
+  name: string
+): Promise<void> {
+  await db.transaction(
+    "rw",
+    [db.rows, db.datasets, db.sortEntries, db.sortIndexes],
+    async () => {
+      const meta = await db.datasets.get(datasetId);
+      if (!meta) throw new Error(`Dataset ${datasetId} no longer exists`);
+
+      const computed = (meta.computed ?? []).filter(
+        (column) => column.name !== name
+      );
+      const columns = dataColumns(meta);
+      const available = [...columns];
+      for (const column of computed) {
+        const { references } = compileExpression(column.expression, [
+          ...available,
+          name,
+        ]);
+        if (references.includes(name)) {
+          throw new Error(`"${column.name}" uses "${name}"`);
+        }
+        available.push(column.name);
+      }
+
+      await datasetRows(datasetId).modify((row) => {
+        delete row.data[name];
+        if (row.errors && name in row.errors) {
+          delete row.errors[name];
+          if (Object.keys(row.errors).length === 0) delete row.errors;
+        }
+      });
+
+      const schema = { ...meta.schema };
+      delete schema[name];
+      const rules = meta.rules && { ...meta.rules };
+      delete rules?.[name];
+      const profile = meta.profile && {
+        ...meta.profile,
+        columns: Object.fromEntries(
+          Object.entries(meta.profile.columns).filter(([col]) => col !== name)
+        ),
+      };
+      const filters = meta.filters && {
+        ...meta.filters,
+        conditions: meta.filters.conditions.filter(
+          (condition) => condition.column !== name
+        ),
+      };
+      await db.datasets.update(datasetId, {
+        columns: meta.columns.filter((column) => column !== name),
+        schema,
+        rules,
+        profile,
+        filters,
+        computed: computed.length > 0 ? computed : undefined,
+        searchIndexed: false,
+      });
+      await dropSortIndexes(datasetId, name);
+    }
+  );
+  notifyRowChanges(datasetId);
+}
+
+/**
+ * Computed columns of a dataset that still compile against new data columns,
+ * e.g. after a re-import replaced them. Columns named like a data column are
+ * dropped too.
+ */
+export function keptComputedColumns(
+  computed: readonly ComputedColumn[],
+  columns: readonly string[]
+): ComputedColumn[] {
+  const available = [...columns];
+  return computed.filter((column) => {
+    if (available.includes(column.name)) return false;
+    try {
+      compileExpression(column.expression, available);
+    } catch (e) {
+      if (e instanceof ExpressionError) return false;
+      throw e;
+    }
+    available.push(column.name);
+    return true;
+  });
+}
@@ -0,0 +1,289 @@
+import { db, type ImportReport, type Meta } from "./db";
+import { cellToText } from "./columnTypes";
+import { createMicroYield } from "./microYield";
+import { createRowPageReader } from "./rowPages";
+import type { SortSpec } from "./sortIndex";
+
+export type QuoteStyle = "minimal" | "all";
+export type LineEnding = "lf" | "crlf";
+
+/**
+ * Configuration options for CSV export operation.
+ */
+export interface ExportOptions {
+  /** AbortSignal to cancel the export operation */
+  readonly signal?: AbortSignal;
+  /** Callback to report export progress */
+  readonly onProgress?: (rowsExported: number) => void;
+  /** Field separator (default: ",") */
+  readonly delimiter?: string;
+  /** Quote only fields that need it, or every field (default: "minimal") */
+  readonly quoteStyle?: QuoteStyle;
+  /** Record separator (default: "crlf", as in RFC 4180) */
+  readonly lineEnding?: LineEnding;
+  /** Prefix the file with a UTF-8 byte order mark, for Excel (default: false) */
+  readonly bom?: boolean;
+  /** Columns to write; always written in `Meta.columns` order (default: all) */
+  readonly columns?: readonly string[];
+  /** Write rows in this sort order; its sort index must already be built */
+  readonly sort?: SortSpec | null;
+  /** Write exactly these rows in this order (a filtered view); overrides `sort` */
+  readonly rowIds?: readonly number[] | null;
+  /** Name of the downloaded file (default: dataset name + ".csv") */
+  readonly fileName?: string;
+}
+
+/**
+ * Destination receiving the file piece by piece.
+ */
+interface ExportSink {
+  write(chunk: string): Promise<void>;
+  close(): Promise<void>;
+  abort(): Promise<void>;
+}
+
+/**
+ * Minimal typing of the File System Access API, which is not in lib.dom yet.
+ */
+interface WindowWithSavePicker {
+  showSaveFilePicker?: (options: {
+    suggestedName?: string;
+    types?: { description: string; accept: Record<string, string[]> }[];
+  }) => Promise<FileSystemFileHandle>;
+}
+
+/**
+ * Internal configuration constants with clear rationale.
+ */
+const CONFIG = {
+  /** Rows formatted per write - one page of text is the most held in memory */
+  PAGE_SIZE: 2000,
+  /** Progress is reported at most this often */
+  PROGRESS_THROTTLE_MS: 100,
+  /** Object URLs are revoked once the browser has started the download */
+  REVOKE_DELAY_MS: 10_000,
+} as const;
+
+const LINE_ENDINGS: Record<LineEnding, string> = { lf: "\n", crlf: "\r\n" };
+
+class ExportError extends Error {
+  readonly cause?: Error;
+
+  constructor(message: string, cause?: Error) {
+    super(message);
+    this.name = "ExportError";
+    this.cause = cause;
+  }
+}
+
+/**
+ * Streams a dataset, including edits, to a downloadable CSV file.
+ *
+ * Rows are read in bounded pages in the table's current order and written as
+ * they are formatted, so the file is never built as one string. Values use
+ * their canonical text form, so re-importing the file with `importCsv` yields
+ * the same data.
+ *
+ * @param datasetId - Dataset to export
+ * @param options - Export configuration options
+ * @returns Number of rows written
+ * @throws {ExportError} When the dataset is missing or options are invalid
+ * @throws {DOMException} "AbortError" when cancelled or the save dialog is dismissed
+ */
+export async function exportCsv(
+  datasetId: number,
+  options: ExportOptions = {}
+): Promise<number> {
+  const {
+    signal,
+    onProgress,
+    delimiter = ",",
+    quoteStyle = "minimal",
+    lineEnding = "crlf",
+    bom = false,
+  } = options;
+
+  if (delimiter.length === 0 || /["\r\n]/.test(delimiter)) {
+    throw new ExportError(`Invalid delimiter: ${JSON.stringify(delimiter)}`);
+  }
+
+  const meta = await db.datasets.get(datasetId);
+  if (!meta) throw new ExportError(`Dataset ${datasetId} not found`);
+
+  const columns = exportedColumns(meta, options.columns);
+  if (columns.length === 0) throw new ExportError("No columns selected");
+
+  const sink = await openSink(options.fileName ?? `${meta.name}.csv`);
+  const formatRecord = createRecordFormatter(
+    delimiter,
+    quoteStyle,
+    LINE_ENDINGS[lineEnding]
+  );
+  const typeOf = (col: string) => meta.schema[col] ?? "string";
+
+  try {
+    const nextPage = createRowPageReader(
+      datasetId,
+      { sort: options.sort, rowIds: options.rowIds },
+      CONFIG.PAGE_SIZE
+    );
+    const microYield = createMicroYield();
+    let rowsExported = 0;
+    let lastReportTime = 0;
+
+    await sink.write((bom ? "\ufeff" : "") + formatRecord(columns));
+
+    for (;;) {
+      if (signal?.aborted) {
+        throw new DOMException("Export operation was aborted", "AbortError");
+      }
+
+      const page = await nextPage();
+      if (page.length === 0) break;
+
+      await sink.write(
+        page
+          .map((row) =>
+            formatRecord(
+              columns.map((col) => cellToText(row.data[col], typeOf(col)))
+            )
+          )
+          .join("")
+      );
+      rowsExported += page.length;
+
+      const now = Date.now();
+      if (now - lastReportTime >= CONFIG.PROGRESS_THROTTLE_MS) {
+        onProgress?.(rowsExported);
+        lastReportTime = now;
+      }
+      await microYield();
+    }
+
+    await sink.close();
+    onProgress?.(rowsExported);
+    return rowsExported;
+  } catch (error) {
+    await sink.abort().catch(() => {});
+    if ((error as DOMException).name === "AbortError") throw error;
+    throw new ExportError("Failed to export dataset", error as Error);
+  }
+}
+
+/**
+ * Saves a dataset's import report as CSV: one record per issue with its
+ * line, type, action and source text.
+ *
+ * @throws {ExportError} When the dataset has no import report
+ * @throws {DOMException} "AbortError" when the save dialog is dismissed
+ */
+export async function exportImportReport(datasetId: number): Promise<void> {
+  const meta = await db.datasets.get(datasetId);
+  const report: ImportReport | undefined = meta?.importReport;
+  if (!meta || !report) {
+    throw new ExportError(`Dataset ${datasetId} has no import report`);
+  }
+
+  const sink = await openSink(`${meta.name} import errors.csv`);
+  const formatRecord = createRecordFormatter(",", "minimal", "\r\n");
+  try {
+    await sink.write(
+      formatRecord(["line", "type", "action", "raw"]) +
+        report.issues
+          .map((issue) =>
+            formatRecord([
+              String(issue.line),
+              issue.type,
+              issue.action,
+              issue.raw,
+            ])
+          )
+          .join("")
+    );
+    await sink.close();
+  } catch (error) {
+    await sink.abort().catch(() => {});
+    throw new ExportError("Failed to export the import report", error as Error);
+  }
+}
+
+/**
+ * Selected columns in dataset order; unknown names are ignored.
+ */
+function exportedColumns(
+  meta: Meta,
+  selected: readonly string[] | undefined
+): string[] {
+  if (!selected) return meta.columns;
+  const wanted = new Set(selected);
+  return meta.columns.filter((col) => wanted.has(col));
+}
+
+/**
+ * Returns a function joining field texts into one quoted CSV record.
+ */
+function createRecordFormatter(
+  delimiter: string,
+  quoteStyle: QuoteStyle,
+  newline: string
+): (fields: readonly string[]) => string {
+  // Leading/trailing spaces are quoted too so no reader trims them away
+  const needsQuotes = new RegExp(
+    `["\\r\\n]|^\\s|\\s$|${delimiter.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}`
+  );
+  const quote = (text: string): string =>
+    quoteStyle === "all" || needsQuotes.test(text)
+      ? `"${text.replace(/"/g, '""')}"`
+      : text;
+
+  return (fields) => {
+    // A lone empty field would be a blank line, which the importer skips
+    if (fields.length === 1 && fields[0] === "") return `""${newline}`;
+    return fields.map(quote).join(delimiter) + newline;
+  };
+}
+
+/**
+ * Opens where the file is written: a file picked through the File System
+ * Access API when available, else a download assembled from Blob parts.
+ *
+ * Each page becomes its own Blob right away, so the formatted text can be
+ * collected and the browser may keep the parts on disk until download.
+ */
+async function openSink(fileName: string): Promise<ExportSink> {
+  const picker = window as unknown as WindowWithSavePicker;
+
+  if (picker.showSaveFilePicker) {
+    const handle = await picker.showSaveFilePicker({
+      suggestedName: fileName,
+      types: [{ description: "CSV file", accept: { "text/csv": [".csv"] } }],
+    });
+    const writable = await handle.createWritable();
+    return {
+      write: (chunk) => writable.write(chunk),
+      close: () => writable.close(),
+      abort: () => writable.abort(),
+    };
+  }
+
+  let parts: Blob[] = [];
+  return {
+    write: async (chunk) => {
+      parts.push(new Blob([chunk]));
+    },
+    close: async () => {
+      const url = URL.createObjectURL(
+        new Blob(parts, { type: "text/csv;charset=utf-8" })
+      );
+      parts = [];
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      window.setTimeout(() => URL.revokeObjectURL(url), CONFIG.REVOKE_DELAY_MS);
+    },
+    abort: async () => {
+      parts = [];
+    },
+  };
+}
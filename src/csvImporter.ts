@@ -1,408 +1,394 @@
-import Papa from "papaparse";
-import { db, type Row } from "./db";
+import { discardStaging } from "./staging";
+import { saveCheckpoint } from "./importCheckpoints";
+import {
+  parseBlocks,
+  type BlockParseMessage,
+  type BlockParseOptions,
+  type BlockParseRequest,
+  type ParsedBlock,
+  type SourceRecord,
+} from "./delimitedText";
+import type { ImportMapping } from "./db";
+import { detectEncoding, type TextEncodingName } from "./encoding";
+import {
+  ImportAbortedError,
+  ImportError,
+  StagingWriter,
+  runImport,
+  type ImportOptions,
+  type ImportSummary,
+  type ParseSettings,
+  type ParseSummary,
+  type StagingParser,
+} from "./importPipeline";
+
+export type {
+  ImportMode,
+  ImportOptions,
+  ImportPhase,
+  ImportProgress,
+  ImportSummary,
+} from "./importPipeline";
 
 /**
- * Configuration options for CSV import operation.
+ * Internal configuration constants with clear rationale.
  */
-export interface ImportOptions {
-  /** AbortSignal to cancel the import operation */
-  readonly signal?: AbortSignal;
-  /** Callback to report import progress */
-  readonly onProgress?: (rowsImported: number) => void;
-  /** Custom batch size for database operations (default: 100) */
-  readonly batchSize?: number;
-  /** Custom chunk size for Papa Parse in bytes (default: 256KB) */
-  readonly chunkSizeBytes?: number;
-}
+const CONFIG = {
+  /** Timeout to detect parsing issues and fallback to worker mode */
+  PROGRESS_TIMEOUT_MS: 2000,
+  /** Identifier for no-progress error handling */
+  NO_PROGRESS_ERROR: "NO_PROGRESS" as const,
+} as const;
 
 /**
- * Extended Papa Parse interface to access worker support flag.
+ * Column names from a header record; repeated names get a numeric suffix,
+ * as Papa Parse does in header mode (`name`, `name_1`, ...). A byte order
+ * mark left on the first name is dropped.
  */
-interface PapaParseWithWorkerSupport {
-  WORKERS_SUPPORTED?: boolean;
+function headerColumns(values: readonly string[]): string[] {
+  const used = new Set<string>();
+  return values.map((field, i) => {
+    const value = i === 0 ? field.replace(/^\ufeff/, "") : field;
+    let name = value;
+    for (let n = 1; used.has(name); n++) name = `${value}_${n}`;
+    used.add(name);
+    return name;
+  });
 }
 
 /**
- * Global object interface with optional requestIdleCallback.
+ * Mapping importing every field under the given names.
  */
-interface GlobalWithIdleCallback {
-  requestIdleCallback?: (
-    callback: () => void,
-    options?: { timeout?: number }
-  ) => number;
+function mappingOf(columns: readonly string[]): ImportMapping {
+  return {
+    headerRow: 1,
+    fieldCount: columns.length,
+    columns: columns.map((name, source) => ({ source, name })),
+  };
 }
 
 /**
- * Internal configuration constants with clear rationale.
+ * Names of the columns a mapping imports, in order.
  */
-const CONFIG = {
-  /** Default batch size - balance between memory usage and transaction overhead */
-  DEFAULT_BATCH_SIZE: 100,
-  /** Default chunk size - keeps memory usage predictable while maintaining performance */
-  DEFAULT_CHUNK_SIZE_BYTES: 256 * 1024, // 256KB
-  /** Timeout to detect parsing issues and fallback to worker mode */
-  PROGRESS_TIMEOUT_MS: 2000,
-  /** Identifier for no-progress error handling */
-  NO_PROGRESS_ERROR: "NO_PROGRESS" as const,
-} as const;
+function mappedNames(mapping: ImportMapping | undefined): string[] {
+  return mapping?.columns.map((column) => column.name) ?? [];
+}
 
 /**
- * Custom error types for better error handling.
+ * Stages one data record, reporting broken quotes and a field count that
+ * differs from the mapping's. Extra fields are dropped and missing ones left
+ * empty.
  */
-class ImportError extends Error {
-  readonly cause?: Error;
-
-  constructor(message: string, cause?: Error) {
-    super(message);
-    this.name = "ImportError";
-    this.cause = cause;
+async function stageRecord(
+  writer: StagingWriter,
+  mapping: ImportMapping,
+  record: SourceRecord
+): Promise<void> {
+  const { values, line, raw } = record;
+  if (
+    record.errors.some(
+      (code) => code === "MissingQuotes" || code === "InvalidQuotes"
+    )
+  ) {
+    writer.reportIssue({ line, type: "bad-quotes", raw, action: "imported" });
   }
-}
-
-class ImportAbortedError extends DOMException {
-  constructor() {
-    super("Import operation was aborted", "AbortError");
-    Object.defineProperty(this, "name", {
-      value: "ImportAbortedError",
-      configurable: true,
+  if (values.length > mapping.fieldCount) {
+    writer.reportIssue({
+      line,
+      type: "too-many-fields",
+      raw,
+      action: "truncated",
     });
+  } else if (values.length < mapping.fieldCount) {
+    writer.reportIssue({ line, type: "too-few-fields", raw, action: "padded" });
   }
+  await writer.add(toRecord(mapping, values));
 }
 
 /**
- * Progress tracking utility with throttling.
+ * Picks the mapped fields of a record under their column names.
  */
-class ProgressTracker {
-  private lastReportTime = 0;
-  private readonly throttleMs = 100; // Report progress at most every 100ms
-  private readonly onProgress?: (count: number) => void;
-
-  constructor(onProgress?: (count: number) => void) {
-    this.onProgress = onProgress;
-  }
-
-  report(count: number): void {
-    if (!this.onProgress) return;
-
-    const now = Date.now();
-    if (now - this.lastReportTime >= this.throttleMs) {
-      this.onProgress(count);
-      this.lastReportTime = now;
-    }
-  }
-
-  reportFinal(count: number): void {
-    if (this.onProgress) {
-      this.onProgress(count);
-    }
+function toRecord(
+  mapping: ImportMapping,
+  values: readonly string[]
+): Record<string, string> {
+  const row: Record<string, string> = {};
+  for (const { source, name } of mapping.columns) {
+    if (source < values.length) row[name] = values[source];
   }
+  return row;
 }
 
 /**
- * Cooperative yielding helper used to keep the UI thread responsive between heavy batches.
- *
- * What it does:
- * - Returns an async function that resolves on the next "idle slice":
- *   - If `requestIdleCallback` is available, schedules resolution during the browser's
- *     idle period, with a 16ms timeout to roughly align with one frame at 60fps and to
- *     guarantee progress even when the main thread is busy.
- *   - Otherwise, falls back to `setTimeout(0)`, yielding to the next macrotask tick.
- *
- * Why it's needed:
- * - Large CSV parsing and IndexedDB writes can monopolize the main thread.
- * - Awaiting `microYield()` gives the event loop a chance to:
- *   - paint frames and keep interactions (scrolling, input) responsive,
- *   - run GC and other high-priority tasks,
- *   - process pending timers and user events.
- *
- * Important notes:
- * - This yields a macrotask/idle turn, not a microtask; it's different from `await Promise.resolve()`.
- * - It does not throttle by itself; it simply introduces cooperative break points between batches.
- * - Safe to call frequently; after creation, calls are allocation-free besides the scheduled task.
- *
- * Usage in this file:
- * - Called after flushing a batch to IndexedDB and before resuming the Papa parser
- *   to implement backpressure and avoid long uninterrupted synchronous work.
+ * Where staging starts: the columns known by then and the source records
+ * before the first block.
  */
-function createMicroYield(): () => Promise<void> {
-  const globalObj = globalThis as GlobalWithIdleCallback;
-  const hasIdleCallback = typeof globalObj.requestIdleCallback === "function";
-
-  return (): Promise<void> => {
-    return new Promise<void>((resolve) => {
-      if (hasIdleCallback && globalObj.requestIdleCallback) {
-        globalObj.requestIdleCallback(resolve, { timeout: 16 });
-      } else {
-        setTimeout(resolve, 0);
-      }
-    });
-  };
+interface StagePosition {
+  /** Undefined until the header row names the columns */
+  readonly mapping: ImportMapping | undefined;
+  readonly recordsRead: number;
 }
 
 /**
- * Parser state management for cleaner error handling and resource cleanup.
+ * Stages parsed blocks, checkpointing after every one so the import can
+ * resume at the block's end. Records up to the header row are skipped; the
+ * header names the columns unless `settings.mapping` does.
+ *
+ * @param onBlock - Called as each block arrives; may throw to stop
  */
-class ParserState {
-  private parser: Papa.Parser | null = null;
-  private isAborted = false;
-  private hasStarted = false;
-  private readonly progressTimer: number;
-  private readonly abortHandler: () => void;
-  private readonly signal: AbortSignal | undefined;
-  private readonly onTimeout: () => void;
-
-  constructor(signal: AbortSignal | undefined, onTimeout: () => void) {
-    this.signal = signal;
-    this.onTimeout = onTimeout;
-    this.abortHandler = this.handleAbort.bind(this);
-
-    this.progressTimer = window.setTimeout(
-      this.handleTimeout.bind(this),
-      CONFIG.PROGRESS_TIMEOUT_MS
-    );
-
-    if (this.signal) {
-      this.signal.addEventListener("abort", this.abortHandler, { once: true });
+async function stageBlocks(
+  blocks: AsyncIterable<ParsedBlock>,
+  writer: StagingWriter,
+  position: StagePosition,
+  encoding: TextEncodingName,
+  settings: ParseSettings,
+  onBlock?: () => void
+): Promise<ParseSummary> {
+  const { importId, signal } = settings;
+  const headerRow = settings.mapping?.headerRow ?? 1;
+  let { mapping, recordsRead } = position;
+  if (mapping) await writer.publishColumns(mappedNames(mapping));
+
+  for await (const block of blocks) {
+    onBlock?.();
+    if (signal?.aborted) {
+      throw new ImportAbortedError();
+    }
+    settings.progressTracker.readTo(block.end);
+
+    for (const record of block.records) {
+      recordsRead++;
+      if (!mapping && recordsRead === headerRow) {
+        mapping = mappingOf(headerColumns(record.values));
+        await writer.publishColumns(mappedNames(mapping));
+      } else if (mapping && recordsRead > headerRow) {
+        await stageRecord(writer, mapping, record);
+      }
     }
-  }
 
-  setParser(parser: Papa.Parser): void {
-    this.parser = parser;
+    const rowsStaged = await writer.flush();
+    await saveCheckpoint(importId, {
+      columns: mappedNames(mapping),
+      delimiter: block.delimiter,
+      encoding,
+      byteOffset: block.end,
+      rowsStaged,
+      lineNumber: block.lineNumber,
+      recordsRead,
+      ...writer.issueState(),
+    });
+    settings.progressTracker.report(rowsStaged);
   }
 
-  markStarted(): void {
-    this.hasStarted = true;
-    clearTimeout(this.progressTimer);
+  if (signal?.aborted) {
+    throw new ImportAbortedError();
   }
+  return writer.finish(mappedNames(mapping));
+}
 
-  isOperationAborted(): boolean {
-    return this.isAborted;
-  }
+/**
+ * Main-thread parsing of delimited text.
+ *
+ * Rejects with the no-progress error when the first block does not arrive
+ * in time, before anything is staged.
+ */
+async function parseOnMainThread(
+  file: File,
+  options: BlockParseOptions,
+  position: StagePosition,
+  writer: StagingWriter,
+  settings: ParseSettings
+): Promise<ParseSummary> {
+  let stalled = false;
+  let timer = 0;
+
+  const watchdog = new Promise<never>((_, reject) => {
+    timer = window.setTimeout(() => {
+      stalled = true;
+      reject(new ImportError(CONFIG.NO_PROGRESS_ERROR));
+    }, CONFIG.PROGRESS_TIMEOUT_MS);
+  });
 
-  abort(): void {
-    if (this.parser) {
-      this.parser.abort();
+  const stage = stageBlocks(
+    parseBlocks(file, options),
+    writer,
+    position,
+    options.encoding,
+    settings,
+    () => {
+      clearTimeout(timer);
+      // The worker retry has taken over
+      if (stalled) throw new ImportError(CONFIG.NO_PROGRESS_ERROR);
     }
-  }
+  );
 
-  cleanup(): void {
-    clearTimeout(this.progressTimer);
-    if (this.signal) {
-      this.signal.removeEventListener("abort", this.abortHandler);
-    }
+  try {
+    return await Promise.race([stage, watchdog]);
+  } finally {
+    clearTimeout(timer);
   }
+}
 
-  private handleAbort(): void {
-    this.isAborted = true;
-    this.abort();
-  }
+/**
+ * Parses delimited text in a web worker, a block at a time.
+ *
+ * The worker reads the same blocks as the main thread, so staging from them
+ * is checkpointed alike. Returning early terminates the worker.
+ */
+async function* parseBlocksInWorker(
+  file: File,
+  options: BlockParseOptions
+): AsyncGenerator<ParsedBlock> {
+  const worker = new Worker(new URL("./csvParse.worker.ts", import.meta.url), {
+    type: "module",
+  });
+  const inbox: BlockParseMessage[] = [];
+  let wake: (() => void) | null = null;
+  const deliver = (message: BlockParseMessage): void => {
+    inbox.push(message);
+    wake?.();
+  };
+  worker.onmessage = (event: MessageEvent<BlockParseMessage>) =>
+    deliver(event.data);
+  worker.onerror = (event) => {
+    event.preventDefault();
+    deliver({ type: "error", message: event.message });
+  };
 
-  private handleTimeout(): void {
-    if (!this.hasStarted) {
-      this.abort();
-      this.onTimeout();
+  const request = (message: BlockParseRequest): void =>
+    worker.postMessage(message);
+  try {
+    request({ type: "start", file, options });
+    for (;;) {
+      if (inbox.length === 0) {
+        await new Promise<void>((resolve) => (wake = resolve));
+        wake = null;
+      }
+      const message = inbox.shift()!;
+      if (message.type === "done") return;
+      if (message.type === "error") {
+        throw new ImportError("CSV parsing failed", new Error(message.message));
+      }
+      yield message.block;
+      request({ type: "next" });
     }
+  } finally {
+    worker.terminate();
   }
 }
 
 /**
- * CSV parsing attempt with either main thread or web worker.
+ * Checks if web workers are available in the current environment.
  */
-async function attemptParse(
-  file: File,
-  useWorker: boolean,
-  options: Required<Pick<ImportOptions, "batchSize" | "chunkSizeBytes">>,
-  signal: AbortSignal | undefined,
-  progressTracker: ProgressTracker
-): Promise<void> {
-  // Clear existing data at the start
-  await db.rows.clear();
-
-  const microYield = createMicroYield();
-
-  // Parsing state
-  let columns: string[] = [];
-  let buffer: Row[] = [];
-  let totalRows = 0;
-  let isMetaInitialized = false;
+function isWorkerSupported(): boolean {
+  return typeof Worker !== "undefined";
+}
 
-  return new Promise<void>((resolve, reject) => {
-    let parserState: ParserState | null = null;
+/**
+ * Creates the staging parser of a delimited text format.
+ *
+ * Parsing starts on the main thread and is retried in a web worker when it
+ * makes no progress; both are checkpointed so they can be resumed. The text
+ * encoding is detected from the file unless `settings.encoding` is given,
+ * and `settings.mapping` picks the header row and columns.
+ *
+ * @param delimiter - Field separator unless `settings.delimiter` is given;
+ *   guessed from the content when neither is
+ */
+export function createDelimitedParser(delimiter?: string): StagingParser {
+  return async (file, settings) => {
+    const { importId, resume, signal } = settings;
+    const resuming = resume !== undefined && resume.byteOffset > 0;
+    if (!resuming) {
+      // Clear rows staged by a previous attempt of this import
+      await discardStaging(importId);
+    }
 
-    const handleTimeout = (): void => {
-      if (parserState) {
-        parserState.cleanup();
-      }
-      reject(new ImportError(CONFIG.NO_PROGRESS_ERROR));
+    const encoding = settings.encoding ?? (await detectEncoding(file));
+    const options: BlockParseOptions = {
+      start: resuming ? resume.byteOffset : 0,
+      lineNumber: resuming ? (resume.lineNumber ?? 0) : 0,
+      chunkSizeBytes: settings.chunkSizeBytes,
+      encoding,
+      delimiter: settings.delimiter ?? delimiter,
+      quoteChar: settings.quoteChar ?? '"',
+    };
+    const position: StagePosition = {
+      mapping:
+        settings.mapping ??
+        (resuming && resume.columns.length > 0
+          ? mappingOf(resume.columns)
+          : undefined),
+      // Checkpoints from before mappings only tell if the header was read
+      recordsRead: resuming
+        ? (resume.recordsRead ?? (resume.columns.length > 0 ? 1 : 0))
+        : 0,
+    };
+    const createWriter = async (): Promise<StagingWriter> => {
+      const writer = new StagingWriter(
+        settings,
+        () => signal?.aborted ?? false
+      );
+      if (resuming) await writer.restore(resume);
+      return writer;
     };
 
-    parserState = new ParserState(signal, handleTimeout);
-
-    Papa.parse(file, {
-      header: true,
-      worker: useWorker,
-      skipEmptyLines: true,
-      chunkSize: options.chunkSizeBytes,
-
-      chunk: async (results, parser) => {
-        parserState?.setParser(parser);
-
-        if (parserState?.isOperationAborted()) {
-          parser.abort();
-          return;
-        }
-
-        parserState?.markStarted();
-        parser.pause();
-
-        if (!isMetaInitialized && results.meta.fields) {
-          columns = [...results.meta.fields];
-          isMetaInitialized = true;
-        }
-
-        for (const row of results.data as Array<Record<string, string>>) {
-          if (row && Object.keys(row).length > 0) {
-            buffer.push({ data: row });
-
-            if (buffer.length >= options.batchSize) {
-              await db.rows.bulkAdd(buffer);
-
-              totalRows += buffer.length;
-              progressTracker.report(totalRows);
-              buffer = [];
-
-              if (parserState?.isOperationAborted()) {
-                throw new ImportAbortedError();
-              }
-
-              await microYield();
-            }
-          }
-        }
-
-        parser.resume();
-      },
-
-      complete: async (): Promise<void> => {
-        try {
-          // Flush remaining buffer
-          if (buffer.length > 0) {
-            await db.rows.bulkAdd(buffer);
-            totalRows += buffer.length;
-          }
-
-          // Update metadata
-          await db.meta.put({
-            key: "current",
-            columns: columns.length > 0 ? columns : [],
-            rowCount: totalRows,
-          });
-
-          if (parserState && parserState.isOperationAborted()) {
-            reject(new ImportAbortedError());
-            return;
-          }
-
-          progressTracker.reportFinal(totalRows);
-          resolve();
-        } catch (error) {
-          reject(
-            new ImportError(
-              "Failed to complete import operation",
-              error as Error
-            )
-          );
-        } finally {
-          if (parserState) {
-            parserState.cleanup();
-          }
-        }
-      },
-
-      error: (error): void => {
-        if (parserState) {
-          parserState.cleanup();
-        }
-        reject(
-          new ImportError(
-            "CSV parsing failed",
-            error instanceof Error ? error : new Error(String(error))
-          )
+    try {
+      return await parseOnMainThread(
+        file,
+        options,
+        position,
+        await createWriter(),
+        settings
+      );
+    } catch (error) {
+      const isNoProgressError =
+        error instanceof ImportError &&
+        error.message === CONFIG.NO_PROGRESS_ERROR;
+
+      if (isNoProgressError && isWorkerSupported()) {
+        // Nothing was staged yet, so the worker starts at the same point
+        settings.progressTracker.enterPhase("retrying-in-worker");
+        return stageBlocks(
+          parseBlocksInWorker(file, options),
+          await createWriter(),
+          position,
+          encoding,
+          settings
         );
-      },
-    });
-  });
-}
-
-/**
- * Checks if Papa Parse supports web workers in the current environment.
- */
-function isWorkerSupported(): boolean {
-  const papaWithWorker = Papa as unknown as PapaParseWithWorkerSupport;
-  return (
-    typeof Worker !== "undefined" && papaWithWorker.WORKERS_SUPPORTED !== false
-  );
+      }
+      // Re-throw original error
+      throw error;
+    }
+  };
 }
 
 /**
- * Stream-parse CSV file and import into IndexedDB with optimal performance.
+ * Stream-parse CSV file and import it into IndexedDB as a new dataset,
+ * or replace, append to or upsert into an existing one.
  *
  * Features:
  * - Streaming parsing with backpressure control
+ * - Checkpointed staging that can resume after a page reload
  * - Automatic fallback from main thread to web worker if needed
+ * - Text encoding detected from the file, or chosen via `options.encoding`
  * - Batch processing to maintain stable memory usage
  * - Progress reporting with throttling
  * - Proper cancellation support via AbortController
  * - Comprehensive error handling with custom error types
+ * - Column types inferred from a leading sample and values stored typed
+ * - Atomic: rows are staged and only swapped in once parsing completes,
+ *   so a failed or aborted import leaves existing data and `Meta` untouched
  *
  * @param file - The CSV file to import
  * @param options - Configuration options for the import operation
+ * @returns Target dataset id with inserted, updated and skipped row counts
  * @throws {ImportError} When parsing or database operations fail
  * @throws {ImportAbortedError} When operation is cancelled via AbortSignal
  */
 export async function importCsv(
   file: File,
   options: ImportOptions = {}
-): Promise<void> {
-  // Validate inputs
-  if (!file) {
-    throw new ImportError("File is required");
-  }
-
-  if (file.size === 0) {
-    throw new ImportError("File is empty");
-  }
-
-  // Prepare configuration
-  const config = {
-    batchSize: options.batchSize ?? CONFIG.DEFAULT_BATCH_SIZE,
-    chunkSizeBytes: options.chunkSizeBytes ?? CONFIG.DEFAULT_CHUNK_SIZE_BYTES,
-  };
-
-  if (config.batchSize <= 0) {
-    throw new ImportError("Batch size must be positive");
-  }
-
-  if (config.chunkSizeBytes <= 0) {
-    throw new ImportError("Chunk size must be positive");
-  }
-
-  const progressTracker = new ProgressTracker(options.onProgress);
-
-  // Attempt main-thread parsing first, fallback to worker if needed
-  try {
-    await attemptParse(file, false, config, options.signal, progressTracker);
-  } catch (error) {
-    const isNoProgressError =
-      error instanceof ImportError &&
-      error.message === CONFIG.NO_PROGRESS_ERROR;
-
-    if (isNoProgressError && isWorkerSupported()) {
-      // Retry with web worker
-      await attemptParse(file, true, config, options.signal, progressTracker);
-    } else {
-      // Re-throw original error
-      throw error;
-    }
-  }
+): Promise<ImportSummary> {
+  return runImport(file, options, "csv", createDelimitedParser());
 }
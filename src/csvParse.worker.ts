@@ -0,0 +1,36 @@
+import {
+  parseBlocks,
+  type BlockParseMessage,
+  type BlockParseRequest,
+} from "./delimitedText";
+
+// Resolves once the page asks for the next block, so at most one parsed
+// block waits in memory
+let requestNext: (() => void) | null = null;
+
+/**
+ * Parses one delimited file per `start` request off the main thread, posting
+ * a block at a time. The page terminates the worker to abort.
+ */
+addEventListener("message", async (event: MessageEvent<BlockParseRequest>) => {
+  const request = event.data;
+  if (request.type === "next") {
+    requestNext?.();
+    return;
+  }
+
+  const reply = (message: BlockParseMessage): void => postMessage(message);
+  try {
+    for await (const block of parseBlocks(request.file, request.options)) {
+      const next = new Promise<void>((resolve) => (requestNext = resolve));
+      reply({ type: "block", block });
+      await next;
+    }
+    reply({ type: "done" });
+  } catch (e) {
+    reply({
+      type: "error",
+      message: (e as Error).message ?? "CSV parsing failed",
+    });
+  }
+});
@@ -0,0 +1,181 @@
+import Dexie from "dexie";
+import { db, type ColumnType, type Row } from "./db";
+import { cellToText, parseCell } from "./columnTypes";
+import { dropSortIndexes } from "./sortIndex";
+import { dropSearchIndex } from "./searchIndex";
+import { clearEditHistory } from "./editHistory";
+import { clearOriginals, convertOriginals } from "./changes";
+import { clearDeletedRows } from "./rowEdits";
+import { compileDatasetColumns, computeRow } from "./computedColumns";
+
+/**
+ * Rows belonging to one dataset, ordered by id.
+ *
+ * Uses the compound `[datasetId+id]` index so offset/limit pagination stays
+ * within the dataset without scanning rows of other datasets.
+ */
+export function datasetRows(datasetId: number) {
+  return db.rows
+    .where("[datasetId+id]")
+    .between([datasetId, Dexie.minKey], [datasetId, Dexie.maxKey]);
+}
+
+/**
+ * Rows of a dataset with an id greater than `afterId`, for keyset pagination
+ * over large datasets where `offset()` would rescan skipped rows.
+ */
+export function datasetRowsAfter(datasetId: number, afterId: number) {
+  return db.rows
+    .where("[datasetId+id]")
+    .between([datasetId, afterId], [datasetId, Dexie.maxKey], false);
+}
+
+/**
+ * A row known to sit at `index` in the table's order, e.g. one already on
+ * screen.
+ */
+export interface RowAnchor {
+  readonly index: number;
+  readonly rowId: number;
+}
+
+/**
+ * Rows at positions `offset..offset + limit - 1` in id order.
+ *
+ * Ids have gaps once rows are deleted or inserted between others, so
+ * positions are counted rather than derived from ids. Counting starts from
+ * `anchor` when given, which skips only the rows between it and the page
+ * instead of every row before it.
+ */
+export async function datasetRowsPage(
+  datasetId: number,
+  offset: number,
+  limit: number,
+  anchor?: RowAnchor
+): Promise<Row[]> {
+  if (anchor && anchor.index < offset) {
+    return datasetRowsAfter(datasetId, anchor.rowId)
+      .offset(offset - anchor.index - 1)
+      .limit(limit)
+      .toArray();
+  }
+
+  if (anchor && anchor.index >= offset + limit) {
+    const before = await db.rows
+      .where("[datasetId+id]")
+      .between([datasetId, Dexie.minKey], [datasetId, anchor.rowId])
+      .reverse()
+      .offset(anchor.index - offset - limit)
+      .limit(limit)
+      .toArray();
+    return before.reverse();
+  }
+
+  return datasetRows(datasetId).offset(offset).limit(limit).toArray();
+}
+
+/**
+ * Renames a dataset in the catalog.
+ */
+export async function renameDataset(
+  datasetId: number,
+  name: string
+): Promise<void> {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error("Dataset name cannot be empty");
+  }
+  await db.datasets.update(datasetId, { name: trimmed });
+}
+
+/**
+ * Removes a dataset together with all of its rows.
+ */
+export async function deleteDataset(datasetId: number): Promise<void> {
+  await db.transaction(
+    "rw",
+    [
+      db.rows,
+      db.datasets,
+      db.sortEntries,
+      db.sortIndexes,
+      db.searchTokens,
+      db.cellEdits,
+      db.originals,
+      db.deletedRows,
+    ],
+    async () => {
+      await datasetRows(datasetId).delete();
+      await clearDeletedRows(datasetId);
+      await dropSortIndexes(datasetId);
+      await dropSearchIndex(datasetId);
+      await clearEditHistory(datasetId);
+      await clearOriginals(datasetId);
+      await db.datasets.delete(datasetId);
+    }
+  );
+}
+
+/**
+ * Overrides the type of one column and re-converts its stored values.
+ *
+ * Values are round-tripped through their text form, so anything that does not
+ * fit the new type is kept as a string rather than dropped. The original
+ * values of edited cells are converted alike, and computed columns are
+ * recomputed from the converted values. Computed columns cannot be retyped.
+ */
+export async function setColumnType(
+  datasetId: number,
+  column: string,
+  type: ColumnType
+): Promise<void> {
+  await db.transaction(
+    "rw",
+    [db.rows, db.datasets, db.sortEntries, db.sortIndexes, db.originals],
+    async () => {
+      const meta = await db.datasets.get(datasetId);
+      if (!meta) {
+        throw new Error(`Dataset ${datasetId} no longer exists`);
+      }
+
+      const computed = meta.computed?.map((col) => col.name) ?? [];
+      if (computed.includes(column)) {
+        throw new Error(`"${column}" is computed; its type follows its values`);
+      }
+      const previous = meta.schema[column] ?? "string";
+      if (previous === type) return;
+
+      const schema = { ...meta.schema, [column]: type };
+      const compiled = compileDatasetColumns({ ...meta, schema });
+      await datasetRows(datasetId).modify((row) => {
+        if (column in row.data) {
+          row.data[column] = parseCell(
+            cellToText(row.data[column], previous),
+            type
+          );
+        }
+        computeRow(row, compiled);
+      });
+      await convertOriginals(datasetId, column, previous, type);
+      // Canonical text of converted values may differ, so search is re-indexed on next use
+      // Type mismatches and bounds depend on the type, so the column's profile goes too,
+      // as do those of computed columns, which may have changed with it
+      const stale = new Set([column, ...computed]);
+      const profile = meta.profile && {
+        ...meta.profile,
+        columns: Object.fromEntries(
+          Object.entries(meta.profile.columns).filter(
+            ([col]) => !stale.has(col)
+          )
+        ),
+      };
+      await db.datasets.update(datasetId, {
+        schema,
+        searchIndexed: false,
+        profile,
+      });
+      // Converted values order differently, so the column's index is rebuilt on demand
+      for (const col of stale) await dropSortIndexes(datasetId, col);
+    }
+  );
+}
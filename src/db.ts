@@ -1,11 +1,361 @@
-import Dexie, { type Table } from "dexie";
+import Dexie, { type IndexableType, type Table } from "dexie";
+import type { ImportFormat } from "./importer";
+import type { ImportMode } from "./staging";
+import type { TextEncodingName } from "./encoding";
+
+export type ColumnType =
+  "string" | "integer" | "decimal" | "boolean" | "date" | "datetime";
+
+/**
+ * Stored cell value: numbers, booleans and dates are kept typed, empty cells are `null`.
+ */
+export type CellValue = string | number | boolean | Date | null;
+
+/**
+ * Column name to type mapping of a dataset.
+ */
+export type ColumnSchema = Record<string, ColumnType>;
+
+export type FilterOperator =
+  "contains" | "equals" | "startsWith" | "empty" | "notEmpty" | "range";
+
+/**
+ * One condition of the filter row; values are kept as typed by the user.
+ */
+export interface ColumnFilter {
+  column: string;
+  operator: FilterOperator;
+  /** Operand of contains/equals/startsWith */
+  value?: string;
+  /** Inclusive bounds of range; either may be empty for an open range */
+  min?: string;
+  max?: string;
+}
+
+export interface FilterState {
+  combinator: "and" | "or";
+  conditions: ColumnFilter[];
+}
 
 export interface Row {
   id?: number;
+  datasetId: number;
+  data: Record<string, CellValue>;
+  /** Why computed columns have no value in this row, by column */
+  errors?: Record<string, string>;
+}
+
+/**
+ * Row written by an in-flight import before it is committed to `rows`.
+ */
+export interface StagedRow {
+  id?: number;
+  importId: string;
   data: Record<string, string>;
 }
 
+/**
+ * Validation rules of one column; every rule is optional.
+ */
+export interface ColumnRules {
+  required?: boolean;
+  /** Regular expression (source text) non-empty values must match */
+  pattern?: string;
+  /** Inclusive numeric bounds */
+  min?: number;
+  max?: number;
+  /** Permitted values, compared by canonical text */
+  allowed?: string[];
+  maxLength?: number;
+  unique?: boolean;
+}
+
+/**
+ * How the table shows a dataset's columns; stored columns are unaffected.
+ */
+export interface ColumnLayout {
+  /** Display order; columns missing here follow in dataset order */
+  order?: string[];
+  /** Widths in pixels set by resizing; other columns are auto-fitted */
+  widths?: Record<string, number>;
+  hidden?: string[];
+  /** Columns kept at the left edge while the rest scroll horizontally */
+  pinned?: string[];
+}
+
+/**
+ * A value and how often it occurs in a column.
+ */
+export interface ValueCount {
+  /** Canonical text of the value */
+  value: string;
+  count: number;
+}
+
+/**
+ * Statistics of one column, kept up to date as cells change.
+ */
+export interface ColumnProfile {
+  /** Cells counted, empty ones included */
+  count: number;
+  /** Null or blank cells */
+  empty: number;
+  /** Values kept as text because they do not fit the column type */
+  mismatches: number;
+  /** Number of distinct non-empty values, estimated from `sketch` */
+  distinct: number;
+  /** Whether `distinct` is an estimate rather than an exact count */
+  distinctApproximate: boolean;
+  /** Smallest hashes of the distinct values (k-minimum-values sketch) */
+  sketch: number[];
+  /** Extremes of the values fitting the column type */
+  min: CellValue;
+  max: CellValue;
+  /** Set when the cell holding `min` or `max` changed; refresh to recompute */
+  boundsStale?: boolean;
+  /** Sum and count of the numeric values, for the mean */
+  sum: number;
+  numeric: number;
+  /** Most frequent non-empty values, most frequent first */
+  top: ValueCount[];
+  /** Whether `top` counts may be low because rare values were dropped */
+  topApproximate: boolean;
+}
+
+/**
+ * Data quality profile of a dataset.
+ */
+export interface DatasetProfile {
+  profiledAt: number; // epoch millis
+  columns: Record<string, ColumnProfile>;
+}
+
+/**
+ * What was wrong with a source row:
+ * - `too-many-fields` / `too-few-fields`: field count differs from the header
+ * - `bad-quotes`: a quoted field is malformed or never closed
+ * - `invalid-json`: a record is not valid JSON
+ */
+export type ImportIssueType =
+  "too-many-fields" | "too-few-fields" | "bad-quotes" | "invalid-json";
+
+/**
+ * What the import did with a row that had an issue:
+ * - `truncated`: extra fields were dropped
+ * - `padded`: missing fields were left empty
+ * - `imported`: the row was kept as parsed
+ * - `skipped`: the row was left out
+ */
+export type ImportIssueAction = "truncated" | "padded" | "imported" | "skipped";
+
+/**
+ * One problem found in a source row during import.
+ */
+export interface ImportIssue {
+  /**
+   * 1-based line the row starts on; counts records instead when the parser
+   * cannot tell lines (worker fallback)
+   */
+  line: number;
+  type: ImportIssueType;
+  /** Source text of the row, shortened when long */
+  raw: string;
+  action: ImportIssueAction;
+}
+
+/**
+ * Problems found by the latest import into a dataset.
+ */
+export interface ImportReport {
+  fileName: string;
+  createdAt: number; // epoch millis
+  /** Leading issues in file order; later ones are only counted */
+  issues: ImportIssue[];
+  /** Number of issues found, including those not kept in `issues` */
+  total: number;
+}
+
+/**
+ * Column whose values are derived from other columns of the same row.
+ */
+export interface ComputedColumn {
+  name: string;
+  /** Source text, see `compileExpression` */
+  expression: string;
+}
+
+/**
+ * Catalog entry describing one imported dataset.
+ */
 export interface Meta {
+  id?: number;
+  name: string;
+  fileName: string;
+  importedAt: number; // epoch millis
+  columns: string[];
+  schema: ColumnSchema;
+  rowCount: number;
+  /** Active filters of the table view; absent when none were ever set */
+  filters?: FilterState;
+  /** Whether the full-text search index covers all rows */
+  searchIndexed?: boolean;
+  /** Validation rules by column; edits breaking them are rejected */
+  rules?: Record<string, ColumnRules>;
+  layout?: ColumnLayout;
+  /** Column statistics; absent until profiled, dropped on re-import */
+  profile?: DatasetProfile;
+  /**
+   * Computed columns in evaluation order; each may use the ones before it.
+   * Their names are also in `columns` and their result types in `schema`.
+   */
+  computed?: ComputedColumn[];
+  /** Problems found by the latest import; absent for datasets imported before reports */
+  importReport?: ImportReport;
+}
+
+/**
+ * One row's position in a column's persistent sort index.
+ */
+export interface SortEntry {
+  datasetId: number;
+  column: string;
+  /** Normalized, IndexedDB-comparable form of the cell value */
+  key: IndexableType;
+  rowId: number;
+}
+
+/**
+ * Marks a column whose sort index has been fully built.
+ */
+export interface SortIndexState {
+  datasetId: number;
+  column: string;
+  builtAt: number; // epoch millis
+}
+
+/**
+ * Inverted index entry: `token` occurs in some cell of the row.
+ */
+export interface SearchToken {
+  datasetId: number;
+  token: string;
+  rowId: number;
+}
+
+/**
+ * Imported column of a delimited file: the source field it is read from and
+ * the name it gets.
+ */
+export interface MappedColumn {
+  /** 0-based field position in the source records */
+  source: number;
+  name: string;
+}
+
+/**
+ * How the records of a delimited file become rows.
+ */
+export interface ImportMapping {
+  /** 1-based record holding the column names, 0 when there is none; records before it are skipped */
+  headerRow: number;
+  /** Fields a record should have; records with more or fewer are reported */
+  fieldCount: number;
+  /** Imported columns in order; source fields not listed are skipped */
+  columns: MappedColumn[];
+}
+
+/**
+ * Reading settings and mapping chosen for files whose header had the same
+ * signature, offered again for the next such file.
+ */
+export interface SavedImportMapping {
+  signature: string;
+  delimiter: string;
+  quoteChar: string;
+  encoding: TextEncodingName;
+  mapping: ImportMapping;
+  updatedAt: number; // epoch millis
+}
+
+/**
+ * Progress of an import that has not been committed yet, so it can be
+ * resumed after a reload. Deleted in the same transaction as the commit.
+ */
+export interface ImportCheckpoint {
+  importId: string;
+  /** Identity of the source file: name, size, lastModified and leading-bytes hash */
+  fingerprint: string;
+  fileName: string;
+  format: ImportFormat;
+  datasetId?: number;
+  mode: ImportMode;
+  keyColumn?: string;
+  name: string;
+  /** Parsed header; empty until the first block was staged */
+  columns: string[];
+  /** Field separator; chosen, or detected in the first block */
+  delimiter?: string;
+  quoteChar?: string;
+  /** Text encoding the file is decoded with */
+  encoding?: TextEncodingName;
+  mapping?: ImportMapping;
+  /** Byte offset just past the last staged record */
+  byteOffset: number;
+  /** Staged rows matching `byteOffset`; rows staged beyond it are dropped on resume */
+  rowsStaged: number;
+  /** All rows staged so far, updated per batch for a live view of the import */
+  rowsWritten?: number;
+  /** Source lines before `byteOffset` */
+  lineNumber?: number;
+  /** Source records before `byteOffset`, header and skipped ones included */
+  recordsRead?: number;
+  /** Import report so far, as of `byteOffset` */
+  issues?: ImportIssue[];
+  issueCount?: number;
+  updatedAt: number; // epoch millis
+}
+
+/**
+ * One cell edit in a dataset's persistent undo/redo history.
+ */
+export interface CellEdit {
+  id?: number;
+  datasetId: number;
+  rowId: number;
+  column: string;
+  oldValue: CellValue;
+  newValue: CellValue;
+  editedAt: number; // epoch millis
+  /** 1 once undone (redo stack), else 0; a number because booleans cannot be indexed */
+  undone: 0 | 1;
+  /** Shared by the edits of one bulk operation, which are undone and redone together */
+  batch?: string;
+}
+
+/**
+ * Imported value of a cell that has been edited since. Present only while
+ * the current value differs, so these records double as the dirty set.
+ */
+export interface OriginalValue {
+  datasetId: number;
+  rowId: number;
+  column: string;
+  value: CellValue;
+}
+
+/**
+ * Row removed from a dataset, kept with its id so a restore puts it back in
+ * place.
+ */
+export interface DeletedRow extends Row {
+  id: number;
+  deletedAt: number;
+}
+
+/**
+ * Shape of the single-table metadata record used by schema version 1.
+ */
+interface LegacyMeta {
   key: string; // always 'current'
   columns: string[];
   rowCount: number;
@@ -13,7 +363,16 @@ export interface Meta {
 
 class AppDB extends Dexie {
   rows!: Table<Row, number>;
-  meta!: Table<Meta, string>;
+  datasets!: Table<Meta, number>;
+  staging!: Table<StagedRow, number>;
+  sortEntries!: Table<SortEntry, [number, string, IndexableType, number]>;
+  sortIndexes!: Table<SortIndexState, [number, string]>;
+  searchTokens!: Table<SearchToken, [number, string, number]>;
+  importCheckpoints!: Table<ImportCheckpoint, string>;
+  cellEdits!: Table<CellEdit, number>;
+  originals!: Table<OriginalValue, [number, number, string]>;
+  deletedRows!: Table<DeletedRow, number>;
+  importMappings!: Table<SavedImportMapping, string>;
 
   constructor() {
     super("csvdb");
@@ -21,6 +380,92 @@ class AppDB extends Dexie {
       rows: "++id",
       meta: "key",
     });
+
+    // Rows become scoped to a dataset; the old 'current' record is migrated
+    // into the first catalog entry and all existing rows are assigned to it.
+    this.version(2)
+      .stores({
+        rows: "++id, datasetId, [datasetId+id]",
+        datasets: "++id, importedAt",
+      })
+      .upgrade(async (tx) => {
+        const legacy = (await tx.table("meta").get("current")) as
+          LegacyMeta | undefined;
+        if (!legacy) return;
+
+        const datasetId = (await tx.table("datasets").add({
+          name: "Imported data",
+          fileName: "",
+          importedAt: Date.now(),
+          columns: legacy.columns,
+          schema: {},
+          rowCount: legacy.rowCount,
+        } satisfies Meta)) as number;
+
+        await tx
+          .table("rows")
+          .toCollection()
+          .modify((row: Row) => {
+            row.datasetId = datasetId;
+          });
+      });
+
+    // Drop the legacy table in a separate step so the upgrade above can still read it
+    this.version(3).stores({
+      meta: null,
+    });
+
+    this.version(4).stores({
+      staging: "++id, [importId+id]",
+    });
+
+    // Values imported before type inference existed are all strings
+    this.version(5)
+      .stores({})
+      .upgrade(async (tx) => {
+        await tx
+          .table("datasets")
+          .toCollection()
+          .modify((meta: Meta) => {
+            meta.schema = Object.fromEntries(
+              meta.columns.map((col) => [col, "string" as const])
+            );
+          });
+      });
+
+    this.version(6).stores({
+      sortEntries:
+        "[datasetId+column+key+rowId], [datasetId+column+rowId], [datasetId+rowId]",
+      sortIndexes: "[datasetId+column], datasetId",
+    });
+
+    this.version(7).stores({
+      searchTokens: "[datasetId+token+rowId], [datasetId+rowId]",
+    });
+
+    this.version(8).stores({
+      importCheckpoints: "importId, fingerprint",
+    });
+
+    this.version(9).stores({
+      cellEdits: "++id, [datasetId+undone+id], [datasetId+id]",
+    });
+
+    this.version(10).stores({
+      originals: "[datasetId+rowId+column], [datasetId+rowId]",
+    });
+
+    this.version(11).stores({
+      deletedRows: "id, [datasetId+deletedAt]",
+    });
+
+    this.version(12).stores({
+      importMappings: "signature",
+    });
+
+    this.version(13).stores({
+      cellEdits: "++id, [datasetId+undone+id], [datasetId+id], batch",
+    });
   }
 }
 
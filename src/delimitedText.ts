@@ -0,0 +1,395 @@
+import Papa from "papaparse";
+import {
+  byteOrderMark,
+  encodedLength,
+  type TextEncodingName,
+} from "./encoding";
+
+/**
+ * One parsed record and where it came from.
+ */
+export interface SourceRecord {
+  readonly values: string[];
+  /** 1-based line the record starts on */
+  readonly line: number;
+  readonly raw: string;
+  /** Papa Parse error codes raised for the record */
+  readonly errors: readonly string[];
+}
+
+/**
+ * Records of one block of complete source records.
+ */
+export interface ParsedBlock {
+  readonly records: SourceRecord[];
+  /** Field separator in use; guessed from the start of the text unless given */
+  readonly delimiter: string | undefined;
+  /** Byte offset just past the block; parsing can resume here */
+  readonly end: number;
+  /** Source lines before `end` */
+  readonly lineNumber: number;
+}
+
+/**
+ * Where and how to parse a delimited file.
+ */
+export interface BlockParseOptions {
+  /** Byte offset to start at: 0, or the `end` of a parsed block */
+  readonly start: number;
+  /** Source lines before `start` */
+  readonly lineNumber: number;
+  readonly chunkSizeBytes: number;
+  readonly encoding: TextEncodingName;
+  /** Field separator; guessed from the content when undefined */
+  readonly delimiter: string | undefined;
+  /** Character quoting fields; doubled inside a field to escape it */
+  readonly quoteChar: string;
+}
+
+/**
+ * Message driving the parsing worker: `start` begins a file, `next` asks
+ * for the block after the one last posted.
+ */
+export type BlockParseRequest =
+  | {
+      readonly type: "start";
+      readonly file: Blob;
+      readonly options: BlockParseOptions;
+    }
+  | { readonly type: "next" };
+
+/**
+ * Messages posted back by the parsing worker.
+ */
+export type BlockParseMessage =
+  | { readonly type: "block"; readonly block: ParsedBlock }
+  | { readonly type: "done" }
+  | { readonly type: "error"; readonly message: string };
+
+/**
+ * Characters held back waiting for a closing quote before the quote is taken
+ * as unterminated.
+ */
+const MAX_PENDING_CHARS = 4 * 1024 * 1024;
+
+/**
+ * Decoded text holding only complete records, and where it ends in the file.
+ */
+interface RecordBlock {
+  readonly text: string;
+  readonly end: number;
+}
+
+/** Records Papa Parse reads to guess the field separator */
+const GUESS_RECORDS = 20;
+
+/**
+ * Index of the quote closing a quoted field whose content starts at `from`,
+ * or -1 if the text ends first.
+ *
+ * As in Papa Parse, a quote closes the field only when whitespace and then a
+ * delimiter or line break follow it; a doubled quote is an escaped one, and
+ * any other quote is taken literally.
+ */
+function closingQuote(
+  text: string,
+  from: number,
+  quoteChar: string,
+  delimiter: string
+): number {
+  let i = from;
+  for (;;) {
+    const quote = text.indexOf(quoteChar, i);
+    if (quote < 0 || quote + 1 >= text.length) return -1;
+    if (text[quote + 1] === quoteChar) {
+      i = quote + 2;
+      continue;
+    }
+    let next = quote + 1;
+    while (
+      next < text.length &&
+      /^\s$/.test(text[next]) &&
+      !isLineBreak(text, next)
+    ) {
+      next++;
+    }
+    if (next >= text.length) return -1;
+    if (isLineBreak(text, next) || text.startsWith(delimiter, next)) {
+      return quote;
+    }
+    i = quote + 1;
+  }
+}
+
+function isLineBreak(text: string, i: number): boolean {
+  return text[i] === "\n" || text[i] === "\r";
+}
+
+/**
+ * Index just past the last record terminator outside quoted fields, or 0 if
+ * the text holds no complete record yet.
+ *
+ * Fields are tracked the way Papa Parse reads them: a quote opens a quoted
+ * field only at the start of a field, so stray quotes inside unquoted fields
+ * (`5" screen`) are literal.
+ */
+function lastRecordEnd(
+  text: string,
+  quoteChar: string,
+  delimiter: string
+): number {
+  let end = 0;
+  let fieldStart = true;
+  let i = 0;
+  while (i < text.length) {
+    if (fieldStart && text[i] === quoteChar) {
+      const close = closingQuote(text, i + 1, quoteChar, delimiter);
+      if (close < 0) return end;
+      i = close + 1;
+      fieldStart = false;
+    } else if (text.startsWith(delimiter, i)) {
+      i += delimiter.length;
+      fieldStart = true;
+    } else if (text[i] === "\n") {
+      end = ++i;
+      fieldStart = true;
+    } else if (text[i] === "\r") {
+      // A lone CR ends a record; CRLF ends at its LF
+      if (i + 1 >= text.length) return end;
+      if (text[i + 1] !== "\n") {
+        end = i + 1;
+        fieldStart = true;
+      }
+      i++;
+    } else {
+      i++;
+      fieldStart = false;
+    }
+  }
+  return end;
+}
+
+/**
+ * Field separator Papa Parse guesses from the leading records at `start`.
+ */
+async function guessDelimiter(
+  file: Blob,
+  options: BlockParseOptions
+): Promise<string> {
+  const head = await file
+    .slice(options.start, options.start + options.chunkSizeBytes)
+    .arrayBuffer();
+  const text = new TextDecoder(options.encoding).decode(head);
+  return Papa.parse<string[]>(text, {
+    delimiter: "",
+    quoteChar: options.quoteChar,
+    preview: GUESS_RECORDS,
+  }).meta.delimiter;
+}
+
+/**
+ * Index just past the first line break at or after `from`, or the end of the
+ * text if there is none.
+ */
+function lineEnd(text: string, from: number): number {
+  for (let i = from; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    if (ch === 0x0a) return i + 1;
+    if (ch === 0x0d) return text.charCodeAt(i + 1) === 0x0a ? i + 2 : i + 1;
+  }
+  return text.length;
+}
+
+/**
+ * Bytes of UTF-8 input that decoded to `text`, a prefix of the decoded input
+ * ending in a line break, or all of it when `whole`.
+ *
+ * Counted on the bytes, since re-encoding the text would miscount invalid
+ * sequences the decoder replaced with U+FFFD. CR and LF bytes never belong
+ * to a multi-byte or invalid sequence, so they match the text's line breaks
+ * one to one.
+ */
+function utf8PrefixLength(
+  bytes: Uint8Array,
+  text: string,
+  whole: boolean
+): number {
+  if (whole) {
+    // A sequence split by the read stays in the decoder until the next one
+    for (let i = bytes.length - 1; i >= Math.max(0, bytes.length - 3); i--) {
+      if (bytes[i] < 0x80) break;
+      if (bytes[i] >= 0xc0) {
+        const length = bytes[i] >= 0xf0 ? 4 : bytes[i] >= 0xe0 ? 3 : 2;
+        return bytes.length - i < length ? i : bytes.length;
+      }
+    }
+    return bytes.length;
+  }
+
+  let breaks = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    if (ch === 0x0a || ch === 0x0d) breaks++;
+  }
+  for (let i = 0; i < bytes.length; i++) {
+    if ((bytes[i] === 0x0a || bytes[i] === 0x0d) && --breaks === 0) {
+      return i + 1;
+    }
+  }
+  return bytes.length;
+}
+
+/**
+ * Reads a file from byte `start` as blocks of complete records.
+ *
+ * Unlike Papa Parse's own file chunking, every block knows the exact byte
+ * offset it ends at, and a streaming `TextDecoder` decodes characters split
+ * between reads whole. A byte order mark at the start of the file is
+ * skipped.
+ *
+ * A quote still open after `MAX_PENDING_CHARS` is given up on: its record
+ * ends with its line, where Papa Parse flags the missing quote, and reading
+ * resumes on the next line.
+ */
+async function* readRecordBlocks(
+  file: Blob,
+  start: number,
+  chunkSize: number,
+  encoding: TextEncodingName,
+  quoteChar: string,
+  delimiter: string
+): AsyncGenerator<RecordBlock> {
+  const decoder = new TextDecoder(encoding, { ignoreBOM: true });
+  let offset = start;
+  if (start === 0) {
+    const head = new Uint8Array(await file.slice(0, 4).arrayBuffer());
+    offset = byteOrderMark(head)?.length ?? 0;
+  }
+  // Byte offset where `pending` starts, and for UTF-8 the bytes from there
+  let consumed = offset;
+  let pending = "";
+  let pendingBytes = new Uint8Array(0);
+
+  while (offset < file.size) {
+    const read = new Uint8Array(
+      await file.slice(offset, offset + chunkSize).arrayBuffer()
+    );
+    offset += read.length;
+    const isLast = offset >= file.size;
+    if (encoding === "utf-8") {
+      const bytes = new Uint8Array(pendingBytes.length + read.length);
+      bytes.set(pendingBytes);
+      bytes.set(read, pendingBytes.length);
+      pendingBytes = bytes;
+    }
+
+    const text = pending + decoder.decode(read, { stream: !isLast });
+    let cut = isLast ? text.length : lastRecordEnd(text, quoteChar, delimiter);
+    if (text.length - cut > MAX_PENDING_CHARS) cut = lineEnd(text, cut);
+    pending = text.slice(cut);
+    if (cut > 0) {
+      const block = text.slice(0, cut);
+      if (isLast) {
+        consumed = offset;
+      } else if (encoding === "utf-8") {
+        const length = utf8PrefixLength(
+          pendingBytes,
+          block,
+          cut === text.length
+        );
+        pendingBytes = pendingBytes.slice(length);
+        consumed += length;
+      } else {
+        consumed += encodedLength(block, encoding);
+      }
+      yield { text: block, end: consumed };
+    }
+  }
+}
+
+/**
+ * Line breaks (LF, CRLF or a lone CR) between two positions of `text`.
+ */
+function countLines(text: string, from: number, to: number): number {
+  let count = 0;
+  for (let i = from; i < to; i++) {
+    const ch = text.charCodeAt(i);
+    if (ch === 0x0a) count++;
+    else if (ch === 0x0d && text.charCodeAt(i + 1) !== 0x0a) count++;
+  }
+  return count;
+}
+
+/**
+ * Parses decoded text into records, tracking the line each one starts on.
+ * Empty lines are skipped.
+ *
+ * @param lineNumber - Lines before `text` in the file
+ */
+function parseRecords(
+  text: string,
+  delimiter: string | undefined,
+  quoteChar: string,
+  lineNumber: number
+): { records: SourceRecord[]; delimiter: string | undefined } {
+  const records: SourceRecord[] = [];
+  let detected = delimiter;
+  let line = lineNumber + 1;
+  let start = 0;
+
+  Papa.parse<string[]>(text, {
+    // Empty lets Papa Parse guess the delimiter
+    delimiter: delimiter ?? "",
+    quoteChar,
+    skipEmptyLines: true,
+    step: (results) => {
+      detected ??= results.meta.delimiter;
+      const end = results.meta.cursor;
+      // Skip the previous record's terminator and any empty lines
+      let from = start;
+      while (from < end && (text[from] === "\n" || text[from] === "\r")) {
+        from++;
+      }
+      line += countLines(text, start, from);
+      records.push({
+        values: results.data,
+        line,
+        raw: text.slice(from, end).replace(/[\r\n]+$/, ""),
+        errors: results.errors.map((error) => error.code),
+      });
+      line += countLines(text, from, end);
+      start = end;
+    },
+  });
+  return { records, delimiter: detected };
+}
+
+/**
+ * Reads and parses a delimited file block by block, in any thread.
+ */
+export async function* parseBlocks(
+  file: Blob,
+  options: BlockParseOptions
+): AsyncGenerator<ParsedBlock> {
+  // Records are cut apart by the delimiter too, so it is settled up front
+  const delimiter = options.delimiter ?? (await guessDelimiter(file, options));
+  let lineNumber = options.lineNumber;
+  const blocks = readRecordBlocks(
+    file,
+    options.start,
+    options.chunkSizeBytes,
+    options.encoding,
+    options.quoteChar,
+    delimiter
+  );
+  for await (const block of blocks) {
+    const parsed = parseRecords(
+      block.text,
+      delimiter,
+      options.quoteChar,
+      lineNumber
+    );
+    lineNumber += countLines(block.text, 0, block.text.length);
+    yield { records: parsed.records, delimiter, end: block.end, lineNumber };
+  }
+}
@@ -0,0 +1,411 @@
+import Dexie from "dexie";
+import { db, type CellEdit, type CellValue } from "./db";
+import { cellToText, parseCell } from "./columnTypes";
+import { syncSortKeys } from "./sortIndex";
+import { syncRowTokens } from "./searchIndex";
+import { trackOriginal } from "./changes";
+import { applyProfileChanges } from "./profile";
+import { compileDatasetColumns, computeRow } from "./computedColumns";
+import { notifyRowChanges } from "./rowEdits";
+
+/**
+ * A cell value about to be written by undo, redo or revert.
+ */
+export interface CellChange {
+  readonly datasetId: number;
+  readonly rowId: number;
+  readonly column: string;
+  readonly value: CellValue;
+}
+
+type CellChangeListener = (change: CellChange) => void;
+
+const listeners = new Set<CellChangeListener>();
+
+/**
+ * Undone or redone batches up to this many cells patch cached rows
+ * optimistically; beyond it, views reload once the batch is written.
+ */
+const OPTIMISTIC_LIMIT = 1000;
+
+/**
+ * Subscribes to history-driven cell changes, e.g. to patch cached rows
+ * optimistically. Returns the unsubscribe function.
+ */
+export function subscribeCellChanges(listener: CellChangeListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function notify(change: CellChange): void {
+  for (const listener of listeners) listener(change);
+}
+
+type EditedRowsListener = (
+  datasetId: number,
+  rowIds: readonly number[]
+) => void;
+
+const editedRowsListeners = new Set<EditedRowsListener>();
+
+/**
+ * Subscribes to the rows written by committed edits, undos, redos, reverts
+ * and bulk edits, e.g. to test them against a filter again. Returns the
+ * unsubscribe function.
+ */
+export function subscribeEditedRows(listener: EditedRowsListener): () => void {
+  editedRowsListeners.add(listener);
+  return () => editedRowsListeners.delete(listener);
+}
+
+/**
+ * Tells subscribers which rows of a dataset an edit has written.
+ */
+export function notifyEditedRows(
+  datasetId: number,
+  rowIds: readonly number[]
+): void {
+  for (const listener of editedRowsListeners) listener(datasetId, rowIds);
+}
+
+/**
+ * History of a dataset in edit order.
+ */
+export function editHistory(datasetId: number) {
+  return db.cellEdits
+    .where("[datasetId+id]")
+    .between([datasetId, Dexie.minKey], [datasetId, Dexie.maxKey]);
+}
+
+function historyByState(datasetId: number, undone: 0 | 1) {
+  return db.cellEdits
+    .where("[datasetId+undone+id]")
+    .between(
+      [datasetId, undone, Dexie.minKey],
+      [datasetId, undone, Dexie.maxKey]
+    );
+}
+
+/**
+ * Drops the redo stack, as any new edit does. Call inside a transaction over
+ * `db.cellEdits`.
+ */
+export async function discardUndone(datasetId: number): Promise<void> {
+  await historyByState(datasetId, 1).delete();
+}
+
+/**
+ * Writes one cell and keeps the computed columns, the sort and search
+ * indexes, the column profile and the cell's original value in step.
+ *
+ * The value is re-read in the column's current type, since the type may have
+ * changed since the value was recorded. Returns the previous value, or
+ * `undefined` when the row no longer exists.
+ */
+async function writeCell(
+  datasetId: number,
+  rowId: number,
+  column: string,
+  value: CellValue
+): Promise<CellValue | undefined> {
+  const [row, meta] = await Promise.all([
+    db.rows.get(rowId),
+    db.datasets.get(datasetId),
+  ]);
+  if (!row || row.datasetId !== datasetId) return undefined;
+  if (meta?.computed?.some((computed) => computed.name === column)) {
+    throw new Error(`"${column}" is computed and read-only`);
+  }
+
+  const type = meta?.schema[column] ?? "string";
+  const previous = row.data[column] ?? null;
+  const next = parseCell(cellToText(value, type), type);
+  const updated = { ...row, data: { ...row.data, [column]: next } };
+  const computedChanges = meta
+    ? computeRow(updated, compileDatasetColumns(meta))
+    : [];
+  await db.rows.put(updated);
+  await trackOriginal(datasetId, rowId, column, previous, next, type);
+  await syncSortKeys(datasetId, [updated]);
+  await syncRowTokens(datasetId, [updated], meta?.schema ?? {});
+  await applyProfileChanges(datasetId, [
+    { column, removed: previous, added: next },
+    ...computedChanges,
+  ]);
+  return previous;
+}
+
+/**
+ * Tells subscribers which rows an edit wrote, and has views reload the rows
+ * when computed values of the edited rows may have changed too.
+ */
+async function announceEdits(
+  datasetId: number,
+  rowIds: readonly number[]
+): Promise<void> {
+  notifyEditedRows(datasetId, rowIds);
+  const meta = await db.datasets.get(datasetId);
+  if (meta?.computed?.length) notifyRowChanges(datasetId);
+}
+
+const HISTORY_TABLES = [
+  db.rows,
+  db.datasets,
+  db.sortEntries,
+  db.sortIndexes,
+  db.searchTokens,
+  db.cellEdits,
+  db.originals,
+];
+
+/**
+ * Writes a cell and appends the edit to the history, as part of `batch`
+ * when given. Call inside a transaction over `HISTORY_TABLES`.
+ */
+async function recordEdit(
+  datasetId: number,
+  rowId: number,
+  column: string,
+  value: CellValue,
+  batch?: string
+): Promise<void> {
+  const oldValue = await writeCell(datasetId, rowId, column, value);
+  if (oldValue === undefined) return;
+  await db.cellEdits.add({
+    datasetId,
+    rowId,
+    column,
+    oldValue,
+    newValue: value,
+    editedAt: Date.now(),
+    undone: 0,
+    batch,
+  });
+}
+
+/**
+ * Saves a cell edit and records it in the history.
+ *
+ * A new edit discards the redo stack, as in any editor.
+ */
+export async function editCell(
+  datasetId: number,
+  rowId: number,
+  column: string,
+  value: CellValue
+): Promise<void> {
+  await db.transaction("rw", HISTORY_TABLES, async () => {
+    await discardUndone(datasetId);
+    await recordEdit(datasetId, rowId, column, value);
+  });
+  await announceEdits(datasetId, [rowId]);
+}
+
+/**
+ * Saves many cell edits in one transaction, e.g. a paste, telling
+ * subscribers first so they can update optimistically. The cells are
+ * recorded as one batch, undone and redone together.
+ */
+export async function editCells(
+  datasetId: number,
+  cells: readonly Omit<CellChange, "datasetId">[]
+): Promise<void> {
+  const changes = cells.map((cell) => ({ ...cell, datasetId }));
+  const rows = await db.rows.bulkGet(changes.map((change) => change.rowId));
+  const batch = changes.length > 1 ? crypto.randomUUID() : undefined;
+
+  changes.forEach(notify);
+  try {
+    await db.transaction("rw", HISTORY_TABLES, async () => {
+      await discardUndone(datasetId);
+      for (const change of changes) {
+        await recordEdit(
+          datasetId,
+          change.rowId,
+          change.column,
+          change.value,
+          batch
+        );
+      }
+    });
+  } catch (error) {
+    changes.forEach((change, i) => {
+      notify({ ...change, value: rows[i]?.data[change.column] ?? null });
+    });
+    throw error;
+  }
+  await announceEdits(
+    datasetId,
+    changes.map((change) => change.rowId)
+  );
+}
+
+/**
+ * Writes a value into each edited cell, telling subscribers first so they
+ * can update optimistically, and telling them the previous values again if
+ * the write fails. Batches beyond `OPTIMISTIC_LIMIT` cells have views reload
+ * once written instead.
+ */
+async function applyOptimistically(
+  changes: readonly {
+    readonly edit: CellEdit;
+    readonly value: CellValue;
+    readonly previous: CellValue;
+  }[],
+  write: () => Promise<void>
+): Promise<void> {
+  const optimistic = changes.length <= OPTIMISTIC_LIMIT;
+  const tell = (pick: "value" | "previous") => {
+    for (const change of changes) {
+      const { datasetId, rowId, column } = change.edit;
+      notify({ datasetId, rowId, column, value: change[pick] });
+    }
+  };
+
+  if (optimistic) tell("value");
+  try {
+    await write();
+  } catch (error) {
+    if (optimistic) tell("previous");
+    throw error;
+  }
+  if (!optimistic && changes.length > 0) {
+    notifyRowChanges(changes[0].edit.datasetId);
+  }
+}
+
+/**
+ * The edit with the rest of its batch in the same state, in the order to
+ * apply them: newest first to undo, oldest first to redo.
+ */
+async function batchOf(edit: CellEdit): Promise<CellEdit[]> {
+  if (edit.batch === undefined) return [edit];
+  const edits = await db.cellEdits
+    .where("batch")
+    .equals(edit.batch)
+    .filter((entry) => entry.undone === edit.undone)
+    .sortBy("id");
+  return edit.undone ? edits : edits.reverse();
+}
+
+/**
+ * Restores the values before the latest applied edit, or before every edit
+ * of its batch. Returns the latest undone edit, or null when there is
+ * nothing to undo.
+ */
+export async function undoEdit(datasetId: number): Promise<CellEdit | null> {
+  const edit = await historyByState(datasetId, 0).last();
+  if (!edit) return null;
+
+  const edits = await batchOf(edit);
+  await applyOptimistically(
+    edits.map((entry) => ({
+      edit: entry,
+      value: entry.oldValue,
+      previous: entry.newValue,
+    })),
+    () =>
+      db.transaction("rw", HISTORY_TABLES, async () => {
+        for (const entry of edits) {
+          await writeCell(datasetId, entry.rowId, entry.column, entry.oldValue);
+        }
+        await db.cellEdits.bulkUpdate(
+          edits.map((entry) => ({ key: entry.id!, changes: { undone: 1 } }))
+        );
+      })
+  );
+  await announceEdits(
+    datasetId,
+    edits.map((entry) => entry.rowId)
+  );
+  return edit;
+}
+
+/**
+ * Re-applies the most recently undone edit, or all of its batch. Returns
+ * the first edit re-applied, or null when there is nothing to redo.
+ */
+export async function redoEdit(datasetId: number): Promise<CellEdit | null> {
+  const edit = await historyByState(datasetId, 1).first();
+  if (!edit) return null;
+
+  const edits = await batchOf(edit);
+  await applyOptimistically(
+    edits.map((entry) => ({
+      edit: entry,
+      value: entry.newValue,
+      previous: entry.oldValue,
+    })),
+    () =>
+      db.transaction("rw", HISTORY_TABLES, async () => {
+        for (const entry of edits) {
+          await writeCell(datasetId, entry.rowId, entry.column, entry.newValue);
+        }
+        await db.cellEdits.bulkUpdate(
+          edits.map((entry) => ({ key: entry.id!, changes: { undone: 0 } }))
+        );
+      })
+  );
+  await announceEdits(
+    datasetId,
+    edits.map((entry) => entry.rowId)
+  );
+  return edit;
+}
+
+/**
+ * Puts back the value a single history entry replaced, as a new edit, so
+ * later edits of other cells are kept and the revert itself can be undone.
+ */
+export async function revertEdit(editId: number): Promise<void> {
+  const edit = await db.cellEdits.get(editId);
+  if (!edit) return;
+
+  const current = (await db.rows.get(edit.rowId))?.data[edit.column] ?? null;
+  await applyOptimistically(
+    [{ edit, value: edit.oldValue, previous: current }],
+    () => editCell(edit.datasetId, edit.rowId, edit.column, edit.oldValue)
+  );
+}
+
+/**
+ * Puts the imported values back into modified cells, in one transaction.
+ * Each revert is recorded as an edit, so it can be undone.
+ */
+export async function revertToOriginal(
+  datasetId: number,
+  cells: readonly { readonly rowId: number; readonly column: string }[]
+): Promise<void> {
+  const originals = (
+    await db.originals.bulkGet(
+      cells.map(({ rowId, column }) => [datasetId, rowId, column])
+    )
+  ).filter((entry) => entry !== undefined);
+  const rows = await db.rows.bulkGet(originals.map((entry) => entry.rowId));
+
+  originals.forEach(notify);
+  try {
+    await db.transaction("rw", HISTORY_TABLES, async () => {
+      await discardUndone(datasetId);
+      for (const entry of originals) {
+        await recordEdit(datasetId, entry.rowId, entry.column, entry.value);
+      }
+    });
+  } catch (error) {
+    originals.forEach((entry, i) => {
+      notify({ ...entry, value: rows[i]?.data[entry.column] ?? null });
+    });
+    throw error;
+  }
+  await announceEdits(
+    datasetId,
+    originals.map((entry) => entry.rowId)
+  );
+}
+
+/**
+ * Forgets a dataset's history, e.g. when its rows are replaced.
+ */
+export async function clearEditHistory(datasetId: number): Promise<void> {
+  await editHistory(datasetId).delete();
+}
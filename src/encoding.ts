@@ -0,0 +1,146 @@
+/**
+ * Text encodings offered for imports, by their `TextDecoder` label.
+ */
+export type TextEncodingName =
+  "utf-8" | "utf-16le" | "utf-16be" | "windows-1250" | "iso-8859-2";
+
+export const ENCODING_LABELS: Record<TextEncodingName, string> = {
+  "utf-8": "UTF-8",
+  "utf-16le": "UTF-16 LE",
+  "utf-16be": "UTF-16 BE",
+  "windows-1250": "Windows-1250",
+  "iso-8859-2": "ISO-8859-2",
+};
+
+/** Leading bytes sampled to detect the encoding */
+const SNIFF_BYTES = 64 * 1024;
+
+/**
+ * Share of zero bytes at every other position above which text without a
+ * byte order mark is taken as UTF-16; ASCII-range characters have one.
+ */
+const UTF16_ZERO_SHARE = 0.3;
+
+const BYTE_ORDER_MARKS: readonly {
+  readonly encoding: TextEncodingName;
+  readonly bytes: readonly number[];
+}[] = [
+  { encoding: "utf-8", bytes: [0xef, 0xbb, 0xbf] },
+  { encoding: "utf-16le", bytes: [0xff, 0xfe] },
+  { encoding: "utf-16be", bytes: [0xfe, 0xff] },
+];
+
+/**
+ * Polish letters placed differently in the two legacy code pages. Bytes
+ * 0x80-0x9f are letters and punctuation in Windows-1250 but control
+ * characters in ISO-8859-2, so they count for Windows-1250 too.
+ */
+const WINDOWS_1250_LETTERS = new Set([0xa5, 0xb9, 0x8c, 0x9c, 0x8f, 0x9f]);
+const ISO_8859_2_LETTERS = new Set([0xa1, 0xb1, 0xa6, 0xb6, 0xac, 0xbc]);
+
+/**
+ * The byte order mark at the start of `bytes`, if any.
+ */
+export function byteOrderMark(
+  bytes: Uint8Array
+): { readonly encoding: TextEncodingName; readonly length: number } | null {
+  const mark = BYTE_ORDER_MARKS.find((candidate) =>
+    candidate.bytes.every((byte, i) => bytes[i] === byte)
+  );
+  return mark ? { encoding: mark.encoding, length: mark.bytes.length } : null;
+}
+
+/**
+ * Length of an incomplete UTF-8 sequence at the end of `bytes`.
+ */
+function incompleteUtf8Tail(bytes: Uint8Array): number {
+  for (let i = bytes.length - 1; i >= Math.max(0, bytes.length - 4); i--) {
+    const byte = bytes[i];
+    if ((byte & 0xc0) === 0x80) continue; // continuation byte
+    const length = byte >= 0xf0 ? 4 : byte >= 0xe0 ? 3 : byte >= 0xc0 ? 2 : 1;
+    return bytes.length - i < length ? bytes.length - i : 0;
+  }
+  return 0;
+}
+
+function isUtf8(bytes: Uint8Array): boolean {
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(
+      bytes.subarray(0, bytes.length - incompleteUtf8Tail(bytes))
+    );
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Guesses the encoding of leading file bytes: a byte order mark decides;
+ * otherwise zero bytes point to UTF-16, valid UTF-8 is taken as such, and
+ * anything else is told apart between the Central European code pages by
+ * where its Polish letters fall.
+ */
+export function sniffEncoding(bytes: Uint8Array): TextEncodingName {
+  const mark = byteOrderMark(bytes);
+  if (mark) return mark.encoding;
+
+  const pairs = Math.floor(bytes.length / 2);
+  if (pairs > 0) {
+    let evenZeros = 0;
+    let oddZeros = 0;
+    for (let i = 0; i + 1 < bytes.length; i += 2) {
+      if (bytes[i] === 0) evenZeros++;
+      if (bytes[i + 1] === 0) oddZeros++;
+    }
+    if (oddZeros / pairs > UTF16_ZERO_SHARE && evenZeros < oddZeros / 10) {
+      return "utf-16le";
+    }
+    if (evenZeros / pairs > UTF16_ZERO_SHARE && oddZeros < evenZeros / 10) {
+      return "utf-16be";
+    }
+  }
+
+  if (isUtf8(bytes)) return "utf-8";
+
+  let windows = 0;
+  let iso = 0;
+  for (const byte of bytes) {
+    if (WINDOWS_1250_LETTERS.has(byte) || (byte >= 0x80 && byte <= 0x9f)) {
+      windows++;
+    } else if (ISO_8859_2_LETTERS.has(byte)) {
+      iso++;
+    }
+  }
+  // Windows exports are the more common of the two
+  return iso > windows ? "iso-8859-2" : "windows-1250";
+}
+
+/**
+ * Detects the encoding of a file from its leading bytes.
+ */
+export async function detectEncoding(file: Blob): Promise<TextEncodingName> {
+  const head = new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer());
+  return sniffEncoding(head);
+}
+
+const utf8Encoder = new TextEncoder();
+
+/**
+ * Number of bytes `text` takes in the encoding. Exact for text decoded from
+ * valid input only, as invalid bytes decode to replacement characters.
+ */
+export function encodedLength(
+  text: string,
+  encoding: TextEncodingName
+): number {
+  switch (encoding) {
+    case "utf-8":
+      return utf8Encoder.encode(text).length;
+    case "utf-16le":
+    case "utf-16be":
+      return text.length * 2;
+    default:
+      // Single-byte code pages map every byte to one character
+      return text.length;
+  }
+}
@@ -0,0 +1,736 @@
+import type { CellValue } from "./db";
+import { parseCell } from "./columnTypes";
+
+/**
+ * Error in an expression's syntax, or raised while evaluating it for a row.
+ */
+export class ExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExpressionError";
+  }
+}
+
+type Node =
+  | { readonly kind: "literal"; readonly value: CellValue }
+  | { readonly kind: "column"; readonly name: string }
+  | { readonly kind: "unary"; readonly op: string; readonly operand: Node }
+  | {
+      readonly kind: "binary";
+      readonly op: string;
+      readonly left: Node;
+      readonly right: Node;
+    }
+  | { readonly kind: "call"; readonly name: string; readonly args: Node[] }
+  | {
+      readonly kind: "conditional";
+      readonly test: Node;
+      readonly then: Node;
+      readonly otherwise: Node;
+    };
+
+interface Token {
+  readonly type: "number" | "string" | "name" | "column" | "op" | "end";
+  readonly text: string;
+  readonly at: number;
+}
+
+/** Longest operators first, so "<=" is not read as "<" */
+const OPERATORS = [
+  "==",
+  "!=",
+  "<>",
+  "<=",
+  ">=",
+  "&&",
+  "||",
+  "+",
+  "-",
+  "*",
+  "/",
+  "%",
+  "&",
+  "=",
+  "<",
+  ">",
+  "!",
+  "?",
+  ":",
+  "(",
+  ")",
+  ",",
+];
+
+const KEYWORDS: Record<string, CellValue> = {
+  true: true,
+  false: false,
+  null: null,
+};
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+  while (pos < source.length) {
+    const ch = source[pos];
+    if (/\s/.test(ch)) {
+      pos++;
+      continue;
+    }
+
+    const number = /^\d+(\.\d+)?([eE][+-]?\d+)?/.exec(source.slice(pos));
+    if (number) {
+      tokens.push({ type: "number", text: number[0], at: pos });
+      pos += number[0].length;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      // Strings end at the matching quote; a doubled quote is a literal one
+      let text = "";
+      let end = pos + 1;
+      for (;;) {
+        if (end >= source.length) {
+          throw new ExpressionError(`Unterminated text starting at ${pos + 1}`);
+        }
+        if (source[end] === ch) {
+          if (source[end + 1] !== ch) break;
+          end++;
+        }
+        text += source[end];
+        end++;
+      }
+      tokens.push({ type: "string", text, at: pos });
+      pos = end + 1;
+      continue;
+    }
+
+    if (ch === "[") {
+      // Bracketed column names may hold spaces and punctuation
+      const end = source.indexOf("]", pos);
+      if (end < 0) {
+        throw new ExpressionError(`Missing "]" for the column at ${pos + 1}`);
+      }
+      tokens.push({
+        type: "column",
+        text: source.slice(pos + 1, end),
+        at: pos,
+      });
+      pos = end + 1;
+      continue;
+    }
+
+    const name = /^[\p{L}_][\p{L}\p{N}_]*/u.exec(source.slice(pos));
+    if (name) {
+      tokens.push({ type: "name", text: name[0], at: pos });
+      pos += name[0].length;
+      continue;
+    }
+
+    const op = OPERATORS.find((candidate) => source.startsWith(candidate, pos));
+    if (!op) {
+      throw new ExpressionError(`Unexpected "${ch}" at ${pos + 1}`);
+    }
+    tokens.push({ type: "op", text: op, at: pos });
+    pos += op.length;
+  }
+  tokens.push({ type: "end", text: "", at: source.length });
+  return tokens;
+}
+
+/**
+ * Recursive descent parser; each method handles one precedence level.
+ */
+class Parser {
+  private pos = 0;
+  private readonly tokens: Token[];
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  parse(): Node {
+    const node = this.conditional();
+    const next = this.peek();
+    if (next.type !== "end") this.fail(next);
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.pos];
+  }
+
+  private fail(token: Token): never {
+    throw new ExpressionError(
+      token.type === "end"
+        ? "Unexpected end of expression"
+        : `Unexpected "${token.text}" at ${token.at + 1}`
+    );
+  }
+
+  /** Consumes the next token if it is one of the given operators or keywords */
+  private accept(...ops: string[]): string | null {
+    const token = this.peek();
+    const text = token.type === "name" ? token.text.toLowerCase() : token.text;
+    if ((token.type === "op" || token.type === "name") && ops.includes(text)) {
+      this.pos++;
+      return text;
+    }
+    return null;
+  }
+
+  private expect(op: string): void {
+    if (!this.accept(op)) this.fail(this.peek());
+  }
+
+  private conditional(): Node {
+    const test = this.or();
+    if (!this.accept("?")) return test;
+    const then = this.conditional();
+    this.expect(":");
+    const otherwise = this.conditional();
+    return { kind: "conditional", test, then, otherwise };
+  }
+
+  private or(): Node {
+    let left = this.and();
+    while (this.accept("or", "||")) {
+      left = { kind: "binary", op: "or", left, right: this.and() };
+    }
+    return left;
+  }
+
+  private and(): Node {
+    let left = this.not();
+    while (this.accept("and", "&&")) {
+      left = { kind: "binary", op: "and", left, right: this.not() };
+    }
+    return left;
+  }
+
+  private not(): Node {
+    if (this.accept("not", "!")) {
+      return { kind: "unary", op: "not", operand: this.not() };
+    }
+    return this.comparison();
+  }
+
+  private comparison(): Node {
+    const left = this.concat();
+    const op = this.accept("=", "==", "!=", "<>", "<", "<=", ">", ">=");
+    if (!op) return left;
+    const normalized = op === "==" ? "=" : op === "<>" ? "!=" : op;
+    return { kind: "binary", op: normalized, left, right: this.concat() };
+  }
+
+  private concat(): Node {
+    let left = this.additive();
+    while (this.accept("&")) {
+      left = { kind: "binary", op: "&", left, right: this.additive() };
+    }
+    return left;
+  }
+
+  private additive(): Node {
+    let left = this.multiplicative();
+    for (;;) {
+      const op = this.accept("+", "-");
+      if (!op) return left;
+      left = { kind: "binary", op, left, right: this.multiplicative() };
+    }
+  }
+
+  private multiplicative(): Node {
+    let left = this.unary();
+    for (;;) {
+      const op = this.accept("*", "/", "%");
+      if (!op) return left;
+      left = { kind: "binary", op, left, right: this.unary() };
+    }
+  }
+
+  private unary(): Node {
+    if (this.accept("-")) {
+      return { kind: "unary", op: "-", operand: this.unary() };
+    }
+    return this.primary();
+  }
+
+  private primary(): Node {
+    const token = this.peek();
+    this.pos++;
+    switch (token.type) {
+      case "number":
+        return { kind: "literal", value: Number(token.text) };
+      case "string":
+        return { kind: "literal", value: token.text };
+      case "column":
+        return { kind: "column", name: token.text };
+      case "name": {
+        const lower = token.text.toLowerCase();
+        if (this.accept("(")) {
+          const args: Node[] = [];
+          if (!this.accept(")")) {
+            do {
+              args.push(this.conditional());
+            } while (this.accept(","));
+            this.expect(")");
+          }
+          return { kind: "call", name: lower, args };
+        }
+        if (Object.hasOwn(KEYWORDS, lower))
+          return { kind: "literal", value: KEYWORDS[lower] };
+        return { kind: "column", name: token.text };
+      }
+      case "op":
+        if (token.text === "(") {
+          const node = this.conditional();
+          this.expect(")");
+          return node;
+        }
+        return this.fail(token);
+      default:
+        return this.fail(token);
+    }
+  }
+}
+
+function describe(value: CellValue): string {
+  if (value instanceof Date) return "a date";
+  if (typeof value === "string") return `text "${value}"`;
+  return String(value);
+}
+
+function toNumber(value: CellValue): number {
+  if (typeof value === "number") return value;
+  if (typeof value === "string") {
+    const parsed = parseCell(value, "decimal");
+    if (typeof parsed === "number") return parsed;
+  }
+  throw new ExpressionError(`Expected a number, got ${describe(value)}`);
+}
+
+function toText(value: CellValue): string {
+  if (value === null) return "";
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+}
+
+function toDate(value: CellValue): Date {
+  if (value instanceof Date) return value;
+  if (typeof value === "string") {
+    const parsed = parseCell(value, "datetime");
+    if (parsed instanceof Date) return parsed;
+  }
+  throw new ExpressionError(`Expected a date, got ${describe(value)}`);
+}
+
+function isTruthy(value: CellValue): boolean {
+  if (value === null) return false;
+  if (typeof value === "string") return value !== "";
+  if (typeof value === "number") return value !== 0;
+  return Boolean(value);
+}
+
+/**
+ * Orders two non-empty values: numbers (and numeric text) and dates by
+ * value, anything else as text.
+ */
+function compare(a: CellValue, b: CellValue): number {
+  if (a instanceof Date || b instanceof Date) {
+    return toDate(a).getTime() - toDate(b).getTime();
+  }
+  if (typeof a === "number" || typeof b === "number") {
+    return toNumber(a) - toNumber(b);
+  }
+  const left = toText(a);
+  const right = toText(b);
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Built-in functions by lowercase name, with their accepted argument counts.
+ * Empty arguments make most functions return empty.
+ */
+const FUNCTIONS: Record<
+  string,
+  {
+    readonly min: number;
+    readonly max: number;
+    readonly apply: (args: CellValue[]) => CellValue;
+  }
+> = {
+  // Text
+  upper: {
+    min: 1,
+    max: 1,
+    apply: ([s]) => (s === null ? null : toText(s).toUpperCase()),
+  },
+  lower: {
+    min: 1,
+    max: 1,
+    apply: ([s]) => (s === null ? null : toText(s).toLowerCase()),
+  },
+  trim: {
+    min: 1,
+    max: 1,
+    apply: ([s]) => (s === null ? null : toText(s).trim()),
+  },
+  len: { min: 1, max: 1, apply: ([s]) => toText(s).length },
+  left: {
+    min: 2,
+    max: 2,
+    apply: ([s, n]) => (s === null ? null : toText(s).slice(0, toNumber(n))),
+  },
+  right: {
+    min: 2,
+    max: 2,
+    apply: ([s, n]) => {
+      if (s === null) return null;
+      const count = toNumber(n);
+      return count > 0 ? toText(s).slice(-count) : "";
+    },
+  },
+  mid: {
+    min: 2,
+    max: 3,
+    // Positions count from 1, as in spreadsheets
+    apply: ([s, start, length]) => {
+      if (s === null) return null;
+      const from = Math.max(0, toNumber(start) - 1);
+      return length === undefined
+        ? toText(s).slice(from)
+        : toText(s).slice(from, from + toNumber(length));
+    },
+  },
+  replace: {
+    min: 3,
+    max: 3,
+    apply: ([s, find, by]) =>
+      s === null ? null : toText(s).split(toText(find)).join(toText(by)),
+  },
+  contains: {
+    min: 2,
+    max: 2,
+    apply: ([s, part]) =>
+      toText(s).toLowerCase().includes(toText(part).toLowerCase()),
+  },
+  concat: {
+    min: 1,
+    max: Infinity,
+    apply: (args) => args.map(toText).join(""),
+  },
+  text: { min: 1, max: 1, apply: ([v]) => toText(v) },
+
+  // Numbers
+  number: { min: 1, max: 1, apply: ([v]) => (v === null ? null : toNumber(v)) },
+  abs: {
+    min: 1,
+    max: 1,
+    apply: ([v]) => (v === null ? null : Math.abs(toNumber(v))),
+  },
+  round: {
+    min: 1,
+    max: 2,
+    apply: ([v, digits]) => {
+      if (v === null) return null;
+      const factor = 10 ** (digits === undefined ? 0 : toNumber(digits));
+      return Math.round(toNumber(v) * factor) / factor;
+    },
+  },
+  floor: {
+    min: 1,
+    max: 1,
+    apply: ([v]) => (v === null ? null : Math.floor(toNumber(v))),
+  },
+  ceil: {
+    min: 1,
+    max: 1,
+    apply: ([v]) => (v === null ? null : Math.ceil(toNumber(v))),
+  },
+  min: {
+    min: 1,
+    max: Infinity,
+    apply: (args) => {
+      const values = args.filter((v) => v !== null);
+      return values.length > 0 ? Math.min(...values.map(toNumber)) : null;
+    },
+  },
+  max: {
+    min: 1,
+    max: Infinity,
+    apply: (args) => {
+      const values = args.filter((v) => v !== null);
+      return values.length > 0 ? Math.max(...values.map(toNumber)) : null;
+    },
+  },
+
+  // Dates, in UTC like stored date values
+  year: {
+    min: 1,
+    max: 1,
+    apply: ([d]) => (d === null ? null : toDate(d).getUTCFullYear()),
+  },
+  month: {
+    min: 1,
+    max: 1,
+    apply: ([d]) => (d === null ? null : toDate(d).getUTCMonth() + 1),
+  },
+  day: {
+    min: 1,
+    max: 1,
+    apply: ([d]) => (d === null ? null : toDate(d).getUTCDate()),
+  },
+  weekday: {
+    min: 1,
+    max: 1,
+    // ISO numbering: Monday is 1, Sunday 7
+    apply: ([d]) => (d === null ? null : toDate(d).getUTCDay() || 7),
+  },
+  hour: {
+    min: 1,
+    max: 1,
+    apply: ([d]) => (d === null ? null : toDate(d).getUTCHours()),
+  },
+  minute: {
+    min: 1,
+    max: 1,
+    apply: ([d]) => (d === null ? null : toDate(d).getUTCMinutes()),
+  },
+  date: {
+    min: 3,
+    max: 3,
+    apply: ([y, m, d]) => {
+      if (y === null || m === null || d === null) return null;
+      return new Date(Date.UTC(toNumber(y), toNumber(m) - 1, toNumber(d)));
+    },
+  },
+  adddays: {
+    min: 2,
+    max: 2,
+    apply: ([d, n]) =>
+      d === null || n === null
+        ? null
+        : new Date(toDate(d).getTime() + toNumber(n) * DAY_MS),
+  },
+  datediff: {
+    min: 2,
+    max: 2,
+    // Whole days from the first date to the second
+    apply: ([from, to]) =>
+      from === null || to === null
+        ? null
+        : Math.floor((toDate(to).getTime() - toDate(from).getTime()) / DAY_MS),
+  },
+
+  // Empty handling; `if` and `coalesce` are evaluated lazily, see below
+  isempty: {
+    min: 1,
+    max: 1,
+    apply: ([v]) => v === null || (typeof v === "string" && v.trim() === ""),
+  },
+  if: { min: 2, max: 3, apply: () => null },
+  coalesce: { min: 1, max: Infinity, apply: () => null },
+};
+
+/**
+ * Names of the built-in functions, for help texts.
+ */
+export const FUNCTION_NAMES = Object.keys(FUNCTIONS);
+
+function evaluate(node: Node, data: Record<string, CellValue>): CellValue {
+  switch (node.kind) {
+    case "literal":
+      return node.value;
+    case "column":
+      // Own fields only, so a column named like an Object method reads empty
+      return Object.hasOwn(data, node.name) ? (data[node.name] ?? null) : null;
+    case "conditional":
+      return isTruthy(evaluate(node.test, data))
+        ? evaluate(node.then, data)
+        : evaluate(node.otherwise, data);
+    case "unary": {
+      const value = evaluate(node.operand, data);
+      if (node.op === "not") return !isTruthy(value);
+      return value === null ? null : -toNumber(value);
+    }
+    case "call": {
+      // Only the taken branch is evaluated, so if(b = 0, 0, a / b) is safe
+      if (node.name === "if") {
+        const [test, then, otherwise] = node.args;
+        if (isTruthy(evaluate(test, data))) return evaluate(then, data);
+        return otherwise ? evaluate(otherwise, data) : null;
+      }
+      if (node.name === "coalesce") {
+        for (const arg of node.args) {
+          const value = evaluate(arg, data);
+          if (value !== null && value !== "") return value;
+        }
+        return null;
+      }
+      return FUNCTIONS[node.name].apply(
+        node.args.map((arg) => evaluate(arg, data))
+      );
+    }
+    case "binary":
+      return evaluateBinary(node.op, node.left, node.right, data);
+  }
+}
+
+function evaluateBinary(
+  op: string,
+  leftNode: Node,
+  rightNode: Node,
+  data: Record<string, CellValue>
+): CellValue {
+  if (op === "and") {
+    return (
+      isTruthy(evaluate(leftNode, data)) && isTruthy(evaluate(rightNode, data))
+    );
+  }
+  if (op === "or") {
+    return (
+      isTruthy(evaluate(leftNode, data)) || isTruthy(evaluate(rightNode, data))
+    );
+  }
+
+  const left = evaluate(leftNode, data);
+  const right = evaluate(rightNode, data);
+  if (op === "&") return toText(left) + toText(right);
+
+  if (op === "=" || op === "!=") {
+    const equal =
+      left === null || right === null
+        ? left === right
+        : compare(left, right) === 0;
+    return op === "=" ? equal : !equal;
+  }
+  // Empty operands make comparisons and arithmetic empty, as in SQL
+  if (left === null || right === null) return null;
+
+  switch (op) {
+    case "<":
+      return compare(left, right) < 0;
+    case "<=":
+      return compare(left, right) <= 0;
+    case ">":
+      return compare(left, right) > 0;
+    case ">=":
+      return compare(left, right) >= 0;
+  }
+
+  if (
+    op === "+" &&
+    typeof left === "string" &&
+    typeof right === "string" &&
+    (typeof parseCell(left, "decimal") !== "number" ||
+      typeof parseCell(right, "decimal") !== "number")
+  ) {
+    throw new ExpressionError('Use "&" to join text');
+  }
+  const a = toNumber(left);
+  const b = toNumber(right);
+  switch (op) {
+    case "+":
+      return a + b;
+    case "-":
+      return a - b;
+    case "*":
+      return a * b;
+    case "/":
+    case "%":
+      if (b === 0) throw new ExpressionError("Division by zero");
+      return op === "/" ? a / b : a % b;
+    default:
+      throw new ExpressionError(`Unknown operator "${op}"`);
+  }
+}
+
+/**
+ * Checks function names, argument counts and column references, collecting
+ * the columns used.
+ */
+function check(
+  node: Node,
+  columns: ReadonlySet<string>,
+  used: Set<string>
+): void {
+  switch (node.kind) {
+    case "literal":
+      return;
+    case "column":
+      if (!columns.has(node.name)) {
+        throw new ExpressionError(`Unknown column "${node.name}"`);
+      }
+      used.add(node.name);
+      return;
+    case "unary":
+      check(node.operand, columns, used);
+      return;
+    case "binary":
+      check(node.left, columns, used);
+      check(node.right, columns, used);
+      return;
+    case "conditional":
+      check(node.test, columns, used);
+      check(node.then, columns, used);
+      check(node.otherwise, columns, used);
+      return;
+    case "call": {
+      // Own names only; `constructor` or `__proto__` are no functions here
+      const fn = Object.hasOwn(FUNCTIONS, node.name)
+        ? FUNCTIONS[node.name]
+        : undefined;
+      if (!fn) throw new ExpressionError(`Unknown function "${node.name}"`);
+      if (node.args.length < fn.min || node.args.length > fn.max) {
+        const expected =
+          fn.min === fn.max
+            ? `${fn.min}`
+            : fn.max === Infinity
+              ? `at least ${fn.min}`
+              : `${fn.min} to ${fn.max}`;
+        throw new ExpressionError(
+          `${node.name}() takes ${expected} arguments, got ${node.args.length}`
+        );
+      }
+      for (const arg of node.args) check(arg, columns, used);
+    }
+  }
+}
+
+export interface CompiledExpression {
+  /** Columns the expression reads */
+  readonly references: readonly string[];
+  /** Value for a row; throws `ExpressionError` when it cannot be computed */
+  readonly evaluate: (data: Record<string, CellValue>) => CellValue;
+}
+
+/**
+ * Parses an expression over the given columns without running any code from
+ * it. Throws `ExpressionError` for syntax errors, unknown functions and
+ * unknown columns.
+ *
+ * Columns are referenced by name, or in brackets when the name is not a
+ * plain identifier: `price * qty`, `[unit price] * 1.2`.
+ */
+export function compileExpression(
+  source: string,
+  columns: readonly string[]
+): CompiledExpression {
+  if (source.trim() === "") throw new ExpressionError("Expression is empty");
+  const ast = new Parser(tokenize(source)).parse();
+  const used = new Set<string>();
+  check(ast, new Set(columns), used);
+
+  return {
+    references: [...used],
+    evaluate: (data) => {
+      const value = evaluate(ast, data);
+      if (typeof value === "number" && !Number.isFinite(value)) {
+        throw new ExpressionError("Result is not a finite number");
+      }
+      return value;
+    },
+  };
+}
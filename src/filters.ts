@@ -0,0 +1,269 @@
+import Dexie, { cmp } from "dexie";
+import {
+  db,
+  type CellValue,
+  type ColumnFilter,
+  type ColumnSchema,
+  type ColumnType,
+  type FilterOperator,
+  type FilterState,
+  type Row,
+} from "./db";
+import { cellToText, parseCell } from "./columnTypes";
+import { createMicroYield } from "./microYield";
+import { createRowPageReader } from "./rowPages";
+import { toSortKey, type SortSpec } from "./sortIndex";
+
+/**
+ * Rows tested per step of a filter scan before yielding to the UI.
+ */
+const SCAN_PAGE_SIZE = 2000;
+
+export const OPERATOR_LABELS: Record<FilterOperator, string> = {
+  contains: "contains",
+  equals: "equals",
+  startsWith: "starts with",
+  empty: "is empty",
+  notEmpty: "is not empty",
+  range: "between",
+};
+
+/**
+ * Operators offered for a column type.
+ */
+export function operatorsFor(type: ColumnType): FilterOperator[] {
+  switch (type) {
+    case "integer":
+    case "decimal":
+    case "date":
+    case "datetime":
+      return ["equals", "range", "empty", "notEmpty"];
+    case "boolean":
+      return ["equals", "empty", "notEmpty"];
+    default:
+      return ["contains", "equals", "startsWith", "empty", "notEmpty"];
+  }
+}
+
+/**
+ * Whether a condition has enough input to take part in filtering.
+ */
+export function isConditionActive(condition: ColumnFilter): boolean {
+  switch (condition.operator) {
+    case "empty":
+    case "notEmpty":
+      return true;
+    case "range":
+      return Boolean(condition.min?.trim() || condition.max?.trim());
+    default:
+      return Boolean(condition.value?.trim());
+  }
+}
+
+/**
+ * Filter state reduced to its active conditions, or null when nothing filters.
+ */
+export function activeFilters(
+  filters: FilterState | undefined | null
+): FilterState | null {
+  const conditions = filters?.conditions.filter(isConditionActive) ?? [];
+  return conditions.length > 0 && filters
+    ? { combinator: filters.combinator, conditions }
+    : null;
+}
+
+function isEmptyValue(value: CellValue | undefined): boolean {
+  return value === null || value === undefined || value === "";
+}
+
+function toComparable(value: CellValue | undefined): number | null {
+  if (typeof value === "number") return value;
+  if (value instanceof Date) return value.getTime();
+  return null;
+}
+
+/**
+ * Prepares a condition once so the per-row test does no parsing.
+ */
+function compileCondition(
+  condition: ColumnFilter,
+  type: ColumnType
+): (row: Row) => boolean {
+  const { column } = condition;
+  const text = (value: CellValue | undefined) =>
+    cellToText(value, type).toLocaleLowerCase();
+
+  switch (condition.operator) {
+    case "empty":
+      return (row) => isEmptyValue(row.data[column]);
+    case "notEmpty":
+      return (row) => !isEmptyValue(row.data[column]);
+    case "contains": {
+      const needle = (condition.value ?? "").toLocaleLowerCase();
+      return (row) => text(row.data[column]).includes(needle);
+    }
+    case "startsWith": {
+      const needle = (condition.value ?? "").toLocaleLowerCase();
+      return (row) => text(row.data[column]).startsWith(needle);
+    }
+    case "equals": {
+      // Compare canonical text so "1.50" matches a stored 1.5
+      const target = text(parseCell(condition.value ?? "", type));
+      return (row) => text(row.data[column]) === target;
+    }
+    case "range": {
+      const min = toComparable(parseCell(condition.min ?? "", type));
+      const max = toComparable(parseCell(condition.max ?? "", type));
+      return (row) => {
+        const value = toComparable(row.data[column]);
+        if (value === null) return false;
+        return (min === null || value >= min) && (max === null || value <= max);
+      };
+    }
+  }
+}
+
+/**
+ * Builds a row predicate combining all active conditions with AND or OR.
+ */
+export function compileFilters(
+  filters: FilterState,
+  schema: ColumnSchema
+): (row: Row) => boolean {
+  const tests = filters.conditions
+    .filter(isConditionActive)
+    .map((condition) =>
+      compileCondition(condition, schema[condition.column] ?? "string")
+    );
+  if (tests.length === 0) return () => true;
+
+  return filters.combinator === "and"
+    ? (row) => tests.every((test) => test(row))
+    : (row) => tests.some((test) => test(row));
+}
+
+export interface FilterScanOptions {
+  /** Walk rows in this order; its sort index must already be built */
+  readonly sort?: SortSpec | null;
+  readonly signal?: AbortSignal;
+  /** Called after every page with all matching ids so far and rows scanned */
+  readonly onProgress?: (
+    matchingIds: readonly number[],
+    scanned: number
+  ) => void;
+}
+
+/**
+ * Collects the ids of matching rows in display order, page by page.
+ *
+ * Only ids are kept in memory; rows are read in bounded pages and the scan
+ * yields between pages so the UI stays responsive on millions of rows.
+ */
+export async function scanFilteredRowIds(
+  datasetId: number,
+  filters: FilterState,
+  schema: ColumnSchema,
+  options: FilterScanOptions = {}
+): Promise<number[]> {
+  const test = compileFilters(filters, schema);
+  const microYield = createMicroYield();
+  const matchingIds: number[] = [];
+  let scanned = 0;
+
+  const nextPage = createRowPageReader(
+    datasetId,
+    { sort: options.sort },
+    SCAN_PAGE_SIZE
+  );
+
+  for (;;) {
+    if (options.signal?.aborted) {
+      throw new DOMException("Filter scan aborted", "AbortError");
+    }
+
+    const page = await nextPage();
+    if (page.length === 0) break;
+
+    for (const row of page) {
+      if (test(row)) matchingIds.push(row.id!);
+    }
+    scanned += page.length;
+    options.onProgress?.(matchingIds, scanned);
+
+    await microYield();
+  }
+
+  return matchingIds;
+}
+
+/**
+ * Persists the filter state of a dataset in its catalog entry.
+ */
+export async function saveFilters(
+  datasetId: number,
+  filters: FilterState
+): Promise<void> {
+  await db.datasets.update(datasetId, { filters });
+}
+
+/**
+ * Position in display-ordered ids where a row belongs: by id, or along the
+ * sort, reading rows of the list as the search narrows.
+ */
+async function insertionIndex(
+  ids: readonly number[],
+  row: Row,
+  sort: SortSpec | null
+): Promise<number> {
+  const keyOf = (other: Row) =>
+    sort ? [toSortKey(other.data[sort.column]), other.id!] : other.id!;
+  const key = keyOf(row);
+  const direction = sort?.direction === "desc" ? -1 : 1;
+  let low = 0;
+  let high = ids.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    const other = sort ? await db.rows.get(ids[mid]) : undefined;
+    const otherKey = sort ? (other ? keyOf(other) : Dexie.minKey) : ids[mid];
+    if (cmp(otherKey, key) * direction < 0) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+/**
+ * Tests edited rows against the filters again and updates the ids of a
+ * finished scan: rows no longer matching are removed, newly matching ones
+ * inserted at their place in the display order, and rows still matching
+ * stay where they are. Returns `matchingIds` itself when no row joined or
+ * left.
+ */
+export async function retestRows(
+  datasetId: number,
+  filters: FilterState,
+  schema: ColumnSchema,
+  matchingIds: readonly number[],
+  rowIds: readonly number[],
+  sort: SortSpec | null = null
+): Promise<readonly number[]> {
+  const test = compileFilters(filters, schema);
+  const ids = [...new Set(rowIds)];
+  const rows = await db.rows.bulkGet(ids);
+  const listed = new Set(matchingIds);
+  const removed = new Set<number>();
+  const added: Row[] = [];
+  rows.forEach((row, i) => {
+    if (row?.datasetId === datasetId && test(row)) {
+      if (!listed.has(ids[i])) added.push(row);
+    } else if (listed.has(ids[i])) {
+      removed.add(ids[i]);
+    }
+  });
+  if (removed.size === 0 && added.length === 0) return matchingIds;
+
+  const next = matchingIds.filter((id) => !removed.has(id));
+  for (const row of added) {
+    next.splice(await insertionIndex(next, row, sort), 0, row.id!);
+  }
+  return next;
+}
@@ -0,0 +1,24 @@
+import { useEffect, useState } from "react";
+import { liveQuery } from "dexie";
+import { changedCells, type ChangedCell } from "../changes";
+
+/**
+ * Live list of a dataset's modified cells with original and current values.
+ */
+export function useChanges(datasetId: number | null): ChangedCell[] {
+  const [cells, setCells] = useState<ChangedCell[]>([]);
+
+  useEffect(() => {
+    if (datasetId === null) {
+      setCells([]);
+      return;
+    }
+    const subscription = liveQuery(() => changedCells(datasetId)).subscribe({
+      next: setCells,
+      error: (err) => console.error(err),
+    });
+    return () => subscription.unsubscribe();
+  }, [datasetId]);
+
+  return cells;
+}
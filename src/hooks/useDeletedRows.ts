@@ -0,0 +1,39 @@
+import { useEffect, useState } from "react";
+import { liveQuery } from "dexie";
+import type { DeletedRow } from "../db";
+import { deletedRows } from "../rowEdits";
+
+/** Rows listed in the trash panel; older ones stay restorable */
+const TRASH_LIMIT = 200;
+
+export interface DeletedRowsState {
+  /** Most recently deleted first */
+  readonly rows: DeletedRow[];
+  readonly total: number;
+}
+
+const EMPTY: DeletedRowsState = { rows: [], total: 0 };
+
+/**
+ * Live list of a dataset's most recently deleted rows.
+ */
+export function useDeletedRows(datasetId: number | null): DeletedRowsState {
+  const [state, setState] = useState<DeletedRowsState>(EMPTY);
+
+  useEffect(() => {
+    if (datasetId === null) {
+      setState(EMPTY);
+      return;
+    }
+    const subscription = liveQuery(async () => ({
+      rows: await deletedRows(datasetId).reverse().limit(TRASH_LIMIT).toArray(),
+      total: await deletedRows(datasetId).count(),
+    })).subscribe({
+      next: setState,
+      error: (err) => console.error(err),
+    });
+    return () => subscription.unsubscribe();
+  }, [datasetId]);
+
+  return state;
+}
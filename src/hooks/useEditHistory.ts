@@ -0,0 +1,30 @@
+import { useEffect, useState } from "react";
+import { liveQuery } from "dexie";
+import type { CellEdit } from "../db";
+import { editHistory } from "../editHistory";
+
+/** Entries shown in the history panel; older ones stay undoable */
+const HISTORY_LIMIT = 200;
+
+/**
+ * Live list of a dataset's most recent cell edits, newest first.
+ */
+export function useEditHistory(datasetId: number | null): CellEdit[] {
+  const [entries, setEntries] = useState<CellEdit[]>([]);
+
+  useEffect(() => {
+    if (datasetId === null) {
+      setEntries([]);
+      return;
+    }
+    const subscription = liveQuery(() =>
+      editHistory(datasetId).reverse().limit(HISTORY_LIMIT).toArray()
+    ).subscribe({
+      next: setEntries,
+      error: (err) => console.error(err),
+    });
+    return () => subscription.unsubscribe();
+  }, [datasetId]);
+
+  return entries;
+}
@@ -0,0 +1,142 @@
+import { useEffect, useMemo, useState } from "react";
+import type { ColumnSchema, FilterState, Meta } from "../db";
+import { activeFilters, retestRows, scanFilteredRowIds } from "../filters";
+import { subscribeEditedRows } from "../editHistory";
+import type { SortSpec } from "../sortIndex";
+
+export interface FilteredView {
+  /** Matching row ids in display order, or null when no filter is active */
+  readonly rowIds: readonly number[] | null;
+  /** Number of matches found so far */
+  readonly matchCount: number;
+  /** True while the scan is still walking the dataset */
+  readonly scanning: boolean;
+  readonly error: Error | null;
+}
+
+const UNFILTERED: FilteredView = {
+  rowIds: null,
+  matchCount: 0,
+  scanning: false,
+  error: null,
+};
+
+/**
+ * Runs an incremental filter scan for the dataset's persisted filters.
+ *
+ * The scan restarts only when the effective filters, the types of filtered
+ * columns, the sort order or the row count (rows inserted, deleted or
+ * restored) change, not on every catalog update. Rows written by edits,
+ * undos and redos are tested again once the scan is done and only join or
+ * leave the matches; the ids keep their identity when none does.
+ */
+export function useFilteredView(
+  dataset: Meta | undefined,
+  sort: SortSpec | null
+): FilteredView {
+  const [view, setView] = useState<FilteredView>(UNFILTERED);
+
+  // Serialized scan input, so fresh-but-equal objects from liveQuery do not rescan
+  const scanKey = useMemo(() => {
+    const filters = activeFilters(dataset?.filters);
+    if (dataset?.id === undefined || !filters) return null;
+    const types: ColumnSchema = {};
+    for (const { column } of filters.conditions) {
+      types[column] = dataset.schema[column] ?? "string";
+    }
+    return JSON.stringify({
+      datasetId: dataset.id,
+      filters,
+      types,
+      rowCount: dataset.rowCount,
+    });
+  }, [dataset]);
+
+  useEffect(() => {
+    if (!scanKey) {
+      setView(UNFILTERED);
+      return;
+    }
+
+    const { datasetId, filters, types } = JSON.parse(scanKey) as {
+      datasetId: number;
+      filters: FilterState;
+      types: ColumnSchema;
+    };
+    const controller = new AbortController();
+    setView({ rowIds: [], matchCount: 0, scanning: true, error: null });
+
+    // Matches of the finished scan, and rows edited since it started
+    let matches: readonly number[] | null = null;
+    const edited = new Set<number>();
+    // Re-tests run one after another, each on the matches the last one left
+    let retesting = Promise.resolve();
+    const retest = () => {
+      retesting = retesting
+        .then(async () => {
+          if (!matches || edited.size === 0) return;
+          const rowIds = [...edited];
+          edited.clear();
+          const next = await retestRows(
+            datasetId,
+            filters,
+            types,
+            matches,
+            rowIds,
+            sort
+          );
+          if (controller.signal.aborted || next === matches) return;
+          matches = next;
+          setView((prev) => ({
+            ...prev,
+            rowIds: next,
+            matchCount: next.length,
+          }));
+        })
+        .catch((error: Error) => {
+          if (!controller.signal.aborted) {
+            setView((prev) => ({ ...prev, error }));
+          }
+        });
+    };
+    const unsubscribe = subscribeEditedRows((changed, rowIds) => {
+      if (changed !== datasetId) return;
+      for (const rowId of rowIds) edited.add(rowId);
+      retest();
+    });
+
+    scanFilteredRowIds(datasetId, filters, types, {
+      sort,
+      signal: controller.signal,
+      // The array grows in place; hand it over once and then only bump the count
+      onProgress: (matchingIds) => {
+        setView((prev) => ({
+          ...prev,
+          rowIds: matchingIds,
+          matchCount: matchingIds.length,
+        }));
+      },
+    })
+      .then((rowIds) => {
+        matches = rowIds;
+        setView({
+          rowIds,
+          matchCount: rowIds.length,
+          scanning: false,
+          error: null,
+        });
+        retest();
+      })
+      .catch((error: Error) => {
+        if (error.name === "AbortError") return;
+        setView((prev) => ({ ...prev, scanning: false, error }));
+      });
+
+    return () => {
+      controller.abort();
+      unsubscribe();
+    };
+  }, [scanKey, sort]);
+
+  return view;
+}
@@ -0,0 +1,73 @@
+import { useEffect, useState } from "react";
+import { ensureSearchIndex, searchRowIds, tokenize } from "../searchIndex";
+
+/** Wait for a typing pause before querying the index */
+const SEARCH_DEBOUNCE_MS = 250;
+
+export interface SearchResult {
+  /** Matching row ids (ascending), restricted to `visibleIds` when given */
+  readonly matches: readonly number[];
+  /** Query tokens, for highlighting matches inside cells */
+  readonly tokens: readonly string[];
+  readonly searching: boolean;
+  readonly error: Error | null;
+}
+
+const NO_RESULT: SearchResult = {
+  matches: [],
+  tokens: [],
+  searching: false,
+  error: null,
+};
+
+/**
+ * Debounced full-text search over a dataset's inverted token index.
+ *
+ * Builds the index first for datasets imported before search existed.
+ */
+export function useSearch(
+  datasetId: number | null,
+  query: string,
+  visibleIds: readonly number[] | null
+): SearchResult {
+  const [result, setResult] = useState<SearchResult>(NO_RESULT);
+
+  useEffect(() => {
+    const tokens = tokenize(query);
+    if (datasetId === null || tokens.length === 0) {
+      setResult(NO_RESULT);
+      return;
+    }
+
+    const controller = new AbortController();
+    setResult((prev) => ({ ...prev, tokens, searching: true, error: null }));
+
+    const timer = window.setTimeout(async () => {
+      try {
+        await ensureSearchIndex(datasetId, controller.signal);
+        let matches = await searchRowIds(datasetId, query);
+        if (visibleIds) {
+          const visible = new Set(visibleIds);
+          matches = matches.filter((id) => visible.has(id));
+        }
+        if (controller.signal.aborted) return;
+        setResult({ matches, tokens, searching: false, error: null });
+      } catch (error) {
+        if ((error as Error).name === "AbortError") return;
+        setResult({
+          matches: [],
+          tokens,
+          searching: false,
+          error: error as Error,
+        });
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      window.clearTimeout(timer);
+      controller.abort();
+    };
+  }, [datasetId, query, visibleIds]);
+
+  return result;
+}
@@ -0,0 +1,86 @@
+import { db, type ImportCheckpoint } from "./db";
+import { discardStaging } from "./staging";
+
+/**
+ * Leading bytes hashed to tell apart files sharing name, size and date.
+ */
+const FINGERPRINT_BYTES = 64 * 1024;
+
+/**
+ * Identifies a source file across page reloads, when the user picks it again.
+ */
+export async function fileFingerprint(file: File): Promise<string> {
+  const head = await file.slice(0, FINGERPRINT_BYTES).arrayBuffer();
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", head));
+  const hash = Array.from(digest, (b) => b.toString(16).padStart(2, "0")).join(
+    ""
+  );
+  return JSON.stringify([file.name, file.size, file.lastModified, hash]);
+}
+
+/**
+ * The most recent unfinished import of this file, if any.
+ */
+export async function findUnfinishedImport(
+  file: File
+): Promise<ImportCheckpoint | undefined> {
+  const matches = await db.importCheckpoints
+    .where("fingerprint")
+    .equals(await fileFingerprint(file))
+    .toArray();
+  return matches.sort((a, b) => b.updatedAt - a.updatedAt)[0];
+}
+
+/**
+ * Whether an import can continue from its checkpoint. JSON arrays are
+ * parsed as a whole, so they always start over.
+ */
+export function canResume(checkpoint: ImportCheckpoint): boolean {
+  return checkpoint.format !== "json";
+}
+
+/**
+ * Records how far an import got. Only the given fields change.
+ */
+export async function saveCheckpoint(
+  importId: string,
+  progress: Pick<
+    ImportCheckpoint,
+    | "columns"
+    | "delimiter"
+    | "encoding"
+    | "byteOffset"
+    | "rowsStaged"
+    | "lineNumber"
+    | "recordsRead"
+    | "issues"
+    | "issueCount"
+  >
+): Promise<void> {
+  await db.importCheckpoints.update(importId, {
+    ...progress,
+    updatedAt: Date.now(),
+  });
+}
+
+/**
+ * Publishes the columns and staged row count of a running import, so it can
+ * be shown while it runs. Unlike `saveCheckpoint`, this does not move the
+ * point the import resumes from.
+ */
+export async function publishImportProgress(
+  importId: string,
+  progress: Partial<Pick<ImportCheckpoint, "columns" | "rowsWritten">>
+): Promise<void> {
+  await db.importCheckpoints.update(importId, progress);
+}
+
+/**
+ * Forgets an unfinished import together with the rows it staged.
+ */
+export async function discardImport(importId: string): Promise<void> {
+  await db.transaction("rw", [db.staging, db.importCheckpoints], async () => {
+    await discardStaging(importId);
+    await db.importCheckpoints.delete(importId);
+  });
+}
@@ -0,0 +1,115 @@
+import { db, type ImportMapping, type SavedImportMapping } from "./db";
+import type { TextDialect } from "./importPreview";
+
+/** Leading records offered as the header row */
+export const MAX_HEADER_ROW = 10;
+
+/**
+ * Column names with blank and repeated ones fixed: a blank name becomes
+ * `column_N` after its position, a repeated one gets a numeric suffix.
+ */
+export function fixColumnNames(names: readonly string[]): string[] {
+  const used = new Set<string>();
+  return names.map((raw, i) => {
+    const base = raw.trim() === "" ? `column_${i + 1}` : raw;
+    let name = base;
+    for (let n = 1; used.has(name); n++) name = `${base}_${n}`;
+    used.add(name);
+    return name;
+  });
+}
+
+function widestRecord(records: readonly (readonly string[])[]): number {
+  return records.reduce((widest, record) => Math.max(widest, record.length), 0);
+}
+
+/**
+ * Mapping importing every field, named after the header row or `column_N`
+ * when there is none.
+ *
+ * @param records - Leading records of the file
+ * @param headerRow - 1-based record holding the names, or 0
+ */
+export function defaultMapping(
+  records: readonly (readonly string[])[],
+  headerRow: number
+): ImportMapping {
+  const header = headerRow > 0 ? (records[headerRow - 1] ?? []) : [];
+  const fieldCount = headerRow > 0 ? header.length : widestRecord(records);
+  const names = fixColumnNames(
+    Array.from({ length: fieldCount }, (_, i) => header[i] ?? "")
+  );
+  return {
+    headerRow,
+    fieldCount,
+    columns: names.map((name, source) => ({ source, name })),
+  };
+}
+
+/**
+ * Why a mapping cannot be imported, or null when it can.
+ */
+export function mappingProblem(mapping: ImportMapping): string | null {
+  if (mapping.headerRow < 0) return "Header row must not be negative";
+  if (mapping.columns.length === 0) return "Choose at least one column";
+  const used = new Set<string>();
+  for (const { source, name } of mapping.columns) {
+    if (source < 0 || source >= mapping.fieldCount) {
+      return `Column "${name}" reads field ${source + 1} of ${mapping.fieldCount}`;
+    }
+    if (name.trim() === "") return "Column names must not be blank";
+    if (used.has(name)) return `"${name}" names two columns`;
+    used.add(name);
+  }
+  return null;
+}
+
+/**
+ * Identifies files laid out alike: the names in their header row, or their
+ * field count when they have none.
+ */
+export function headerSignature(
+  records: readonly (readonly string[])[],
+  headerRow: number
+): string {
+  return headerRow > 0
+    ? JSON.stringify(records[headerRow - 1] ?? [])
+    : JSON.stringify(widestRecord(records));
+}
+
+/**
+ * The mapping saved for a file whose header matches one of the leading
+ * records, moved to the row it was found in.
+ */
+export async function findImportMapping(
+  records: readonly (readonly string[])[]
+): Promise<SavedImportMapping | undefined> {
+  const candidates = records
+    .slice(0, MAX_HEADER_ROW)
+    .map((_, i) => headerSignature(records, i + 1));
+  const saved = await db.importMappings.bulkGet([
+    ...candidates,
+    headerSignature(records, 0),
+  ]);
+  const index = saved.findIndex((entry) => entry !== undefined);
+  const found = saved[index];
+  if (!found) return undefined;
+  if (index === candidates.length) return found;
+  return { ...found, mapping: { ...found.mapping, headerRow: index + 1 } };
+}
+
+/**
+ * Remembers how a file was read, for the next one with the same signature.
+ */
+export async function saveImportMapping(
+  signature: string,
+  dialect: TextDialect,
+  mapping: ImportMapping
+): Promise<void> {
+  await db.importMappings.put({
+    signature,
+    ...dialect,
+    mapping,
+    updatedAt: Date.now(),
+  });
+}
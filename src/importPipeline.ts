@@ -0,0 +1,580 @@
+import {
+  db,
+  type ColumnSchema,
+  type ImportCheckpoint,
+  type ImportIssue,
+  type ImportMapping,
+  type StagedRow,
+} from "./db";
+import { ColumnTypeInferrer } from "./columnTypes";
+import { createMicroYield } from "./microYield";
+import {
+  commitStaging,
+  stagedRows,
+  trimStaging,
+  type ImportMode,
+  type ImportSummary,
+} from "./staging";
+import {
+  discardImport,
+  fileFingerprint,
+  publishImportProgress,
+} from "./importCheckpoints";
+import type { ImportFormat } from "./importer";
+import type { TextEncodingName } from "./encoding";
+import { mappingProblem } from "./importMappings";
+
+export type { ImportMode, ImportSummary };
+
+/**
+ * What an import is busy with: reading and parsing the file, writing rows to
+ * staging, swapping them into the dataset, or parsing again in a web worker
+ * after the main thread made no progress.
+ */
+export type ImportPhase =
+  "parsing" | "writing" | "finalizing" | "retrying-in-worker";
+
+/**
+ * Progress of a running import.
+ */
+export interface ImportProgress {
+  /** Checkpoint of the import, holding the columns and rows staged so far */
+  readonly importId: string;
+  readonly phase: ImportPhase;
+  /** Source bytes read so far */
+  readonly bytesRead: number;
+  /** Size of the source file */
+  readonly totalBytes: number;
+  /** Rows written to the staging table so far */
+  readonly rowsCommitted: number;
+  /** Rows written per second by this run; 0 until measurable */
+  readonly rowsPerSecond: number;
+  /** Estimated milliseconds until the file is read; null while unknown */
+  readonly etaMs: number | null;
+}
+
+/**
+ * Configuration options for an import operation, whatever the file format.
+ */
+export interface ImportOptions {
+  /** AbortSignal to cancel the import operation */
+  readonly signal?: AbortSignal;
+  /** Callback to report import progress, at most every 100ms per phase */
+  readonly onProgress?: (progress: ImportProgress) => void;
+  /** Called once the import's checkpoint exists, before anything is staged */
+  readonly onStart?: (importId: string) => void;
+  /** Custom batch size for database operations (default: 100) */
+  readonly batchSize?: number;
+  /** Custom chunk size for Papa Parse in bytes (default: 256KB); delimited formats only */
+  readonly chunkSizeBytes?: number;
+  /** Display name for the new dataset (default: file name without extension) */
+  readonly name?: string;
+  /** Existing dataset to import into; a new dataset is created when omitted */
+  readonly datasetId?: number;
+  /** How rows are merged into an existing dataset (default: "replace") */
+  readonly mode?: ImportMode;
+  /** Column matching incoming rows to existing ones; required for "upsert" */
+  readonly keyColumn?: string;
+  /**
+   * Fail the import once `errorThreshold` rows had errors, instead of fixing
+   * them up or skipping them (default: false)
+   */
+  readonly strict?: boolean;
+  /** Number of row errors at which a strict import fails (default: 1) */
+  readonly errorThreshold?: number;
+  /**
+   * Text encoding of delimited files; detected from the file when omitted
+   */
+  readonly encoding?: TextEncodingName;
+  /** Field separator of delimited files; the format's own when omitted */
+  readonly delimiter?: string;
+  /** Quote character of delimited files (default: `"`) */
+  readonly quoteChar?: string;
+  /**
+   * Header row and columns to import from delimited files; the first record
+   * names every column when omitted
+   */
+  readonly mapping?: ImportMapping;
+  /**
+   * Unfinished import of the same file to continue; its target, mode, key
+   * column and name replace the ones above
+   */
+  readonly resume?: ImportCheckpoint;
+}
+
+/**
+ * Outcome of a successful parse attempt, before the staged rows are committed.
+ */
+export interface ParseSummary {
+  readonly columns: string[];
+  readonly schema: ColumnSchema;
+  readonly rowCount: number;
+  /** Leading problems found in source rows, see `ImportReport` */
+  readonly issues: ImportIssue[];
+  readonly issueCount: number;
+}
+
+/**
+ * Validated settings handed to a format parser.
+ */
+export interface ParseSettings {
+  readonly importId: string;
+  readonly batchSize: number;
+  readonly chunkSizeBytes: number;
+  readonly signal: AbortSignal | undefined;
+  readonly progressTracker: ProgressTracker;
+  /** Number of row errors failing the import; unlimited when undefined */
+  readonly errorThreshold?: number;
+  /** Text encoding chosen by the user or used so far; detected when undefined */
+  readonly encoding?: TextEncodingName;
+  readonly delimiter?: string;
+  readonly quoteChar?: string;
+  readonly mapping?: ImportMapping;
+  /**
+   * Checkpoint to continue from. Parsers that cannot seek restart from the
+   * beginning and discard what was staged.
+   */
+  readonly resume?: ImportCheckpoint;
+}
+
+/**
+ * Parses a file of one format into the staging table under `settings.importId`.
+ */
+export type StagingParser = (
+  file: File,
+  settings: ParseSettings
+) => Promise<ParseSummary>;
+
+/**
+ * Internal configuration constants with clear rationale.
+ */
+const CONFIG = {
+  /** Default batch size - balance between memory usage and transaction overhead */
+  DEFAULT_BATCH_SIZE: 100,
+  /** Default chunk size - keeps memory usage predictable while maintaining performance */
+  DEFAULT_CHUNK_SIZE_BYTES: 256 * 1024, // 256KB
+  /** Number of leading rows sampled to infer column types */
+  TYPE_SAMPLE_ROWS: 1000,
+  /** Issues kept in an import report; later ones are only counted */
+  MAX_REPORTED_ISSUES: 1000,
+  /** Source text kept per reported issue, in characters */
+  MAX_ISSUE_TEXT: 500,
+} as const;
+
+/**
+ * Custom error types for better error handling.
+ */
+export class ImportError extends Error {
+  readonly cause?: Error;
+
+  constructor(message: string, cause?: Error) {
+    super(message);
+    this.name = "ImportError";
+    this.cause = cause;
+  }
+}
+
+export class ImportAbortedError extends DOMException {
+  constructor() {
+    super("Import operation was aborted", "AbortError");
+    Object.defineProperty(this, "name", {
+      value: "ImportAbortedError",
+      configurable: true,
+    });
+  }
+}
+
+/**
+ * Progress tracking utility with throttling.
+ *
+ * Parsers tell it how far they read and how many rows they staged; it
+ * derives throughput and time left from the part read by this run, so a
+ * resumed import is not credited with the rows of the previous one.
+ */
+export class ProgressTracker {
+  private lastReportTime = 0;
+  private readonly throttleMs = 100; // Report progress at most every 100ms
+  private readonly onProgress?: (progress: ImportProgress) => void;
+  private readonly importId: string;
+  private readonly totalBytes: number;
+  private startedAt = Date.now();
+  private startRows = 0;
+  private startBytes = 0;
+  private bytesRead = 0;
+  private rowsCommitted = 0;
+  private currentPhase: ImportPhase = "parsing";
+
+  constructor(
+    importId: string,
+    totalBytes: number,
+    onProgress?: (progress: ImportProgress) => void
+  ) {
+    this.importId = importId;
+    this.totalBytes = totalBytes;
+    this.onProgress = onProgress;
+  }
+
+  get phase(): ImportPhase {
+    return this.currentPhase;
+  }
+
+  /**
+   * Continues the progress of an interrupted run.
+   */
+  resumeAt(rows: number, bytes: number): void {
+    this.startedAt = Date.now();
+    this.startRows = rows;
+    this.startBytes = bytes;
+    this.bytesRead = bytes;
+    this.report(rows);
+  }
+
+  /**
+   * Records how far the source has been read; reported with the next rows.
+   */
+  readTo(bytes: number): void {
+    this.bytesRead = bytes;
+  }
+
+  /**
+   * Switches phase. Finalizing and retrying are reported right away, the
+   * frequent switches between parsing and writing are throttled.
+   */
+  enterPhase(phase: ImportPhase): void {
+    if (phase === this.currentPhase) return;
+    this.currentPhase = phase;
+    if (phase === "finalizing" || phase === "retrying-in-worker") {
+      this.emit();
+    } else {
+      this.report(this.rowsCommitted);
+    }
+  }
+
+  report(count: number): void {
+    this.rowsCommitted = count;
+    if (!this.onProgress) return;
+
+    const now = Date.now();
+    if (now - this.lastReportTime >= this.throttleMs) {
+      this.emit();
+    }
+  }
+
+  reportFinal(count: number): void {
+    this.rowsCommitted = count;
+    this.emit();
+  }
+
+  private emit(): void {
+    if (!this.onProgress) return;
+    const now = Date.now();
+    const seconds = (now - this.startedAt) / 1000;
+    const bytesDone = this.bytesRead - this.startBytes;
+    this.onProgress({
+      importId: this.importId,
+      phase: this.currentPhase,
+      bytesRead: this.bytesRead,
+      totalBytes: this.totalBytes,
+      rowsCommitted: this.rowsCommitted,
+      rowsPerSecond:
+        seconds > 0 ? (this.rowsCommitted - this.startRows) / seconds : 0,
+      etaMs:
+        bytesDone > 0 && this.currentPhase !== "finalizing"
+          ? ((now - this.startedAt) * (this.totalBytes - this.bytesRead)) /
+            bytesDone
+          : null,
+    });
+    this.lastReportTime = now;
+  }
+}
+
+/**
+ * Buffers parsed rows into staging batches while inferring column types.
+ *
+ * Shared by every format parser so batching, progress, abort checks and
+ * yielding to the UI behave the same whatever the file format.
+ */
+export class StagingWriter {
+  private buffer: StagedRow[] = [];
+  private totalRows = 0;
+  private issues: ImportIssue[] = [];
+  private issueCount = 0;
+  private readonly typeInferrer = new ColumnTypeInferrer(
+    CONFIG.TYPE_SAMPLE_ROWS
+  );
+  private readonly microYield = createMicroYield();
+  private readonly settings: ParseSettings;
+  private readonly isAborted: () => boolean;
+
+  constructor(settings: ParseSettings, isAborted: () => boolean) {
+    this.settings = settings;
+    this.isAborted = isAborted;
+  }
+
+  /**
+   * Stages one row, writing a batch once `batchSize` rows are buffered.
+   *
+   * @throws {ImportAbortedError} When the import was aborted meanwhile
+   */
+  async add(row: Record<string, string>): Promise<void> {
+    this.typeInferrer.observe(row);
+    this.buffer.push({ importId: this.settings.importId, data: row });
+
+    if (this.buffer.length >= this.settings.batchSize) {
+      await this.flush();
+      this.settings.progressTracker.report(this.totalRows);
+
+      if (this.isAborted()) {
+        throw new ImportAbortedError();
+      }
+
+      await this.microYield();
+    }
+  }
+
+  /**
+   * Publishes the columns known so far, e.g. once the header is parsed.
+   */
+  async publishColumns(columns: readonly string[]): Promise<void> {
+    await publishImportProgress(this.settings.importId, {
+      columns: [...columns],
+    });
+  }
+
+  /**
+   * Records a problem with a source row for the import report.
+   *
+   * @throws {ImportError} In strict mode, once the error threshold is reached
+   */
+  reportIssue(issue: ImportIssue): void {
+    this.issueCount++;
+    if (this.issues.length < CONFIG.MAX_REPORTED_ISSUES) {
+      this.issues.push({
+        ...issue,
+        raw: issue.raw.slice(0, CONFIG.MAX_ISSUE_TEXT),
+      });
+    }
+
+    const threshold = this.settings.errorThreshold;
+    if (threshold !== undefined && this.issueCount >= threshold) {
+      const first = this.issues[0];
+      throw new ImportError(
+        `Import stopped after ${this.issueCount} row errors; the first is ${first.type} on line ${first.line}`
+      );
+    }
+  }
+
+  /**
+   * Issues reported so far, for checkpoints.
+   */
+  issueState(): { issues: ImportIssue[]; issueCount: number } {
+    return { issues: [...this.issues], issueCount: this.issueCount };
+  }
+
+  /**
+   * Continues after the rows staged by an interrupted run, sampling their
+   * leading rows again so column types come out the same.
+   */
+  async restore(checkpoint: ImportCheckpoint): Promise<void> {
+    const sample = await stagedRows(this.settings.importId)
+      .limit(CONFIG.TYPE_SAMPLE_ROWS)
+      .toArray();
+    for (const row of sample) this.typeInferrer.observe(row.data);
+    this.totalRows = checkpoint.rowsStaged;
+    this.issues = [...(checkpoint.issues ?? [])];
+    this.issueCount = checkpoint.issueCount ?? this.issues.length;
+    this.settings.progressTracker.resumeAt(
+      checkpoint.rowsStaged,
+      checkpoint.byteOffset
+    );
+  }
+
+  /**
+   * Writes the remaining rows and summarizes the parse.
+   */
+  async finish(columns: readonly string[]): Promise<ParseSummary> {
+    await this.flush();
+    this.settings.progressTracker.reportFinal(this.totalRows);
+    return {
+      columns: [...columns],
+      schema: this.typeInferrer.result(columns),
+      rowCount: this.totalRows,
+      ...this.issueState(),
+    };
+  }
+
+  /**
+   * Writes buffered rows and returns the number of rows staged so far.
+   */
+  async flush(): Promise<number> {
+    if (this.buffer.length === 0) return this.totalRows;
+    const tracker = this.settings.progressTracker;
+    const phase = tracker.phase;
+    tracker.enterPhase("writing");
+    await db.staging.bulkAdd(this.buffer);
+    this.totalRows += this.buffer.length;
+    this.buffer = [];
+    await publishImportProgress(this.settings.importId, {
+      rowsWritten: this.totalRows,
+    });
+    tracker.enterPhase(phase);
+    return this.totalRows;
+  }
+}
+
+/**
+ * Derives a dataset name from a file name by dropping its extension.
+ */
+function defaultDatasetName(fileName: string): string {
+  const dot = fileName.lastIndexOf(".");
+  return dot > 0 ? fileName.slice(0, dot) : fileName;
+}
+
+/**
+ * Validates options, stages the file with `parse` and commits it atomically.
+ *
+ * Live rows and `Meta` are only touched by the final commit, so a failed or
+ * aborted import leaves the existing data untouched. Progress is checkpointed
+ * while staging, so an import interrupted by a reload can be resumed by
+ * passing its checkpoint as `options.resume`.
+ *
+ * @throws {ImportError} When parsing or database operations fail
+ * @throws {ImportAbortedError} When operation is cancelled via AbortSignal
+ */
+export async function runImport(
+  file: File,
+  options: ImportOptions,
+  format: ImportFormat,
+  parse: StagingParser
+): Promise<ImportSummary> {
+  // Validate inputs
+  if (!file) {
+    throw new ImportError("File is required");
+  }
+
+  if (file.size === 0) {
+    throw new ImportError("File is empty");
+  }
+
+  // Prepare configuration
+  const batchSize = options.batchSize ?? CONFIG.DEFAULT_BATCH_SIZE;
+  const chunkSizeBytes =
+    options.chunkSizeBytes ?? CONFIG.DEFAULT_CHUNK_SIZE_BYTES;
+
+  if (batchSize <= 0) {
+    throw new ImportError("Batch size must be positive");
+  }
+
+  if (chunkSizeBytes <= 0) {
+    throw new ImportError("Chunk size must be positive");
+  }
+
+  const { resume } = options;
+  const mode = resume?.mode ?? options.mode ?? "replace";
+  const datasetId = resume ? resume.datasetId : options.datasetId;
+  const keyColumn = resume ? resume.keyColumn : options.keyColumn;
+  const name = resume?.name ?? options.name ?? defaultDatasetName(file.name);
+
+  if (mode !== "replace" && datasetId === undefined) {
+    throw new ImportError(`Import mode "${mode}" requires a target dataset`);
+  }
+
+  if (mode === "upsert" && !keyColumn) {
+    throw new ImportError("Upsert requires a key column");
+  }
+
+  const errorThreshold = options.strict
+    ? (options.errorThreshold ?? 1)
+    : undefined;
+  if (errorThreshold !== undefined && errorThreshold <= 0) {
+    throw new ImportError("Error threshold must be positive");
+  }
+
+  // A resumed import keeps reading the file the way it started
+  const encoding = resume ? resume.encoding : options.encoding;
+  const delimiter = resume ? resume.delimiter : options.delimiter;
+  const quoteChar = resume ? resume.quoteChar : options.quoteChar;
+  const mapping = resume ? resume.mapping : options.mapping;
+  const problem = mapping && mappingProblem(mapping);
+  if (problem) {
+    throw new ImportError(problem);
+  }
+
+  const importId = resume?.importId ?? crypto.randomUUID();
+
+  try {
+    if (resume) {
+      // Rows staged after the last checkpoint would be staged again
+      await trimStaging(importId, resume.rowsStaged);
+      await publishImportProgress(importId, {
+        rowsWritten: resume.rowsStaged,
+      });
+    } else {
+      await db.importCheckpoints.add({
+        importId,
+        fingerprint: await fileFingerprint(file),
+        fileName: file.name,
+        format,
+        datasetId,
+        mode,
+        keyColumn,
+        name,
+        columns: [],
+        delimiter,
+        quoteChar,
+        encoding,
+        mapping,
+        byteOffset: 0,
+        rowsStaged: 0,
+        updatedAt: Date.now(),
+      });
+    }
+    options.onStart?.(importId);
+
+    const progressTracker = new ProgressTracker(
+      importId,
+      file.size,
+      options.onProgress
+    );
+    const summary = await parse(file, {
+      importId,
+      batchSize,
+      chunkSizeBytes,
+      signal: options.signal,
+      progressTracker,
+      errorThreshold,
+      encoding,
+      delimiter,
+      quoteChar,
+      mapping,
+      resume,
+    });
+
+    progressTracker.enterPhase("finalizing");
+    return await commitStaging(importId, {
+      datasetId,
+      mode,
+      keyColumn,
+      name,
+      fileName: file.name,
+      columns: summary.columns,
+      schema: summary.schema,
+      report: {
+        fileName: file.name,
+        createdAt: Date.now(),
+        issues: summary.issues,
+        total: summary.issueCount,
+      },
+    });
+  } catch (error) {
+    // Roll back: discard partial staging data, live rows and Meta were never touched
+    await discardImport(importId);
+    if (error instanceof ImportError || error instanceof ImportAbortedError) {
+      throw error;
+    }
+    throw new ImportError(
+      "Failed to commit import",
+      error instanceof Error ? error : new Error(String(error))
+    );
+  }
+}
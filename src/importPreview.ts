@@ -0,0 +1,100 @@
+import { parseBlocks, type SourceRecord } from "./delimitedText";
+import { detectEncoding, type TextEncodingName } from "./encoding";
+
+/**
+ * How delimited text is read.
+ */
+export interface TextDialect {
+  readonly delimiter: string;
+  readonly quoteChar: string;
+  readonly encoding: TextEncodingName;
+}
+
+/**
+ * Leading records of a delimited file and the dialect they were read with.
+ */
+export interface ImportPreview {
+  readonly dialect: TextDialect;
+  /** Header candidates included */
+  readonly records: string[][];
+}
+
+/** Records read for a preview: about 50 rows below a header */
+const PREVIEW_RECORDS = 60;
+
+/** Bytes read at a time until enough records are found */
+const PREVIEW_CHUNK_BYTES = 64 * 1024;
+
+const DEFAULT_QUOTE = '"';
+
+async function readLeadingRecords(
+  file: Blob,
+  encoding: TextEncodingName,
+  delimiter: string | undefined,
+  quoteChar: string
+): Promise<{ records: SourceRecord[]; delimiter: string | undefined }> {
+  const records: SourceRecord[] = [];
+  let detected = delimiter;
+  const blocks = parseBlocks(file, {
+    start: 0,
+    lineNumber: 0,
+    chunkSizeBytes: PREVIEW_CHUNK_BYTES,
+    encoding,
+    delimiter,
+    quoteChar,
+  });
+  for await (const block of blocks) {
+    records.push(...block.records);
+    detected = block.delimiter;
+    if (records.length >= PREVIEW_RECORDS) break;
+  }
+  return { records: records.slice(0, PREVIEW_RECORDS), delimiter: detected };
+}
+
+/**
+ * Single quotes when more fields start with them than with double quotes.
+ */
+function guessQuoteChar(
+  records: readonly SourceRecord[],
+  delimiter: string
+): string {
+  let score = 0;
+  for (const { raw } of records) {
+    for (const field of raw.split(delimiter)) {
+      if (field.startsWith("'")) {
+        score++;
+      } else if (field.startsWith(DEFAULT_QUOTE)) {
+        score--;
+      }
+    }
+  }
+  return score > 0 ? "'" : DEFAULT_QUOTE;
+}
+
+/**
+ * Reads the leading records of a delimited file. Parts of the dialect not
+ * given are detected: the encoding from the leading bytes, the delimiter by
+ * Papa Parse and the quote character from how fields start.
+ */
+export async function previewDelimited(
+  file: Blob,
+  dialect: Partial<TextDialect> = {}
+): Promise<ImportPreview> {
+  const encoding = dialect.encoding ?? (await detectEncoding(file));
+  let read = await readLeadingRecords(
+    file,
+    encoding,
+    dialect.delimiter,
+    dialect.quoteChar ?? DEFAULT_QUOTE
+  );
+  const delimiter = read.delimiter ?? ",";
+  const quoteChar =
+    dialect.quoteChar ?? guessQuoteChar(read.records, delimiter);
+  if (quoteChar !== (dialect.quoteChar ?? DEFAULT_QUOTE)) {
+    read = await readLeadingRecords(file, encoding, delimiter, quoteChar);
+  }
+  return {
+    dialect: { delimiter, quoteChar, encoding },
+    records: read.records.map((record) => record.values),
+  };
+}
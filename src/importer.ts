@@ -0,0 +1,103 @@
+import { createDelimitedParser } from "./csvImporter";
+import { parseJson, parseNdjson } from "./jsonImporter";
+import {
+  runImport,
+  type ImportOptions,
+  type ImportSummary,
+  type StagingParser,
+} from "./importPipeline";
+
+export type {
+  ImportMode,
+  ImportOptions,
+  ImportPhase,
+  ImportProgress,
+  ImportSummary,
+} from "./importPipeline";
+
+export type ImportFormat = "csv" | "tsv" | "json" | "ndjson";
+
+/**
+ * Value for the `accept` attribute of file inputs offering every format.
+ */
+export const IMPORT_ACCEPT = [
+  ".csv",
+  ".tsv",
+  ".tab",
+  ".json",
+  ".ndjson",
+  ".jsonl",
+  "text/csv",
+  "text/tab-separated-values",
+  "application/json",
+  "application/x-ndjson",
+].join(",");
+
+/** Leading bytes read to sniff the format of files without a known extension */
+const SNIFF_BYTES = 64 * 1024;
+
+const EXTENSION_FORMATS: Record<string, ImportFormat> = {
+  csv: "csv",
+  tsv: "tsv",
+  tab: "tsv",
+  json: "json",
+  ndjson: "ndjson",
+  jsonl: "ndjson",
+};
+
+const PARSERS: Record<ImportFormat, StagingParser> = {
+  csv: createDelimitedParser(),
+  tsv: createDelimitedParser("\t"),
+  json: parseJson,
+  ndjson: parseNdjson,
+};
+
+/**
+ * Picks the format of a file from its extension, or from its leading content
+ * when the extension is missing or unknown.
+ */
+export async function detectImportFormat(file: File): Promise<ImportFormat> {
+  const dot = file.name.lastIndexOf(".");
+  const extension = dot > 0 ? file.name.slice(dot + 1).toLowerCase() : "";
+  if (EXTENSION_FORMATS[extension]) return EXTENSION_FORMATS[extension];
+
+  // Blob.text() decodes UTF-8 and drops a byte order mark
+  const text = (await file.slice(0, SNIFF_BYTES).text()).trimStart();
+
+  if (text.startsWith("[")) return "json";
+  if (text.startsWith("{")) {
+    // One object per line is NDJSON; a single pretty-printed object is not
+    const firstLine = text.split("\n", 1)[0];
+    try {
+      JSON.parse(firstLine);
+      return "ndjson";
+    } catch {
+      return "json";
+    }
+  }
+
+  const header = text.split("\n", 1)[0];
+  const count = (ch: string) => header.split(ch).length - 1;
+  return count("\t") > count(",") ? "tsv" : "csv";
+}
+
+/**
+ * Imports a CSV, TSV, JSON or NDJSON file through the shared staging pipeline.
+ *
+ * The format is detected with `detectImportFormat` unless given. Every format
+ * gets the same batching, progress reporting, cancellation, type inference
+ * and atomic commit as `importCsv`.
+ *
+ * @param file - The file to import
+ * @param options - Import options, plus an optional explicit format
+ * @returns Target dataset id with inserted, updated and skipped row counts
+ * @throws {ImportError} When parsing or database operations fail
+ * @throws {ImportAbortedError} When operation is cancelled via AbortSignal
+ */
+export async function importFile(
+  file: File,
+  options: ImportOptions & { readonly format?: ImportFormat } = {}
+): Promise<ImportSummary> {
+  const format = options.format ?? (await detectImportFormat(file));
+  return runImport(file, options, format, PARSERS[format]);
+}
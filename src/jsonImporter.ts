@@ -0,0 +1,351 @@
+import {
+  ImportAbortedError,
+  ImportError,
+  StagingWriter,
+  type ParseSettings,
+  type ProgressTracker,
+  type ParseSummary,
+} from "./importPipeline";
+import { saveCheckpoint } from "./importCheckpoints";
+import { discardStaging } from "./staging";
+
+/**
+ * Column used for array elements that are not objects, e.g. `[1, 2, 3]`.
+ */
+const VALUE_COLUMN = "value";
+
+/**
+ * Flattens a parsed record into text cells keyed by dotted column names.
+ *
+ * Nested objects become `parent.child` columns; arrays are kept as JSON text
+ * since their length varies from record to record.
+ */
+function flattenRecord(record: unknown): Record<string, string> {
+  const row: Record<string, string> = {};
+
+  const visit = (value: unknown, path: string): void => {
+    if (value === null || value === undefined) {
+      row[path] = "";
+    } else if (Array.isArray(value)) {
+      row[path] = JSON.stringify(value);
+    } else if (typeof value === "object") {
+      const entries = Object.entries(value);
+      if (entries.length === 0 && path) row[path] = "";
+      for (const [key, child] of entries) {
+        visit(child, path ? `${path}.${key}` : key);
+      }
+    } else {
+      row[path] = String(value);
+    }
+  };
+
+  if (record !== null && typeof record === "object" && !Array.isArray(record)) {
+    visit(record, "");
+  } else {
+    visit(record, VALUE_COLUMN);
+  }
+  return row;
+}
+
+/**
+ * Splits the text of a top-level JSON array into the source of its elements,
+ * chunk by chunk, so the whole document never has to be parsed at once.
+ */
+class JsonArraySplitter {
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private started = false;
+  private element = "";
+
+  /**
+   * Feeds the next piece of text and returns the elements it completes.
+   */
+  push(text: string): string[] {
+    const elements: string[] = [];
+    let start = 0;
+
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i];
+
+      if (this.inString) {
+        if (this.escaped) this.escaped = false;
+        else if (ch === "\\") this.escaped = true;
+        else if (ch === '"') this.inString = false;
+        continue;
+      }
+
+      if (!this.started) {
+        if (ch === "[") {
+          this.started = true;
+          this.depth = 1;
+          start = i + 1;
+        } else if (!/\s/.test(ch)) {
+          throw new ImportError("JSON import expects an array of records");
+        }
+        continue;
+      }
+
+      if (ch === '"') {
+        this.inString = true;
+      } else if (ch === "[" || ch === "{") {
+        this.depth++;
+      } else if (ch === "]" || ch === "}") {
+        this.depth--;
+        if (this.depth === 0) {
+          this.emit(this.element + text.slice(start, i), elements);
+          this.element = "";
+          start = text.length;
+          break;
+        }
+      } else if (ch === "," && this.depth === 1) {
+        this.emit(this.element + text.slice(start, i), elements);
+        this.element = "";
+        start = i + 1;
+      }
+    }
+
+    if (this.started && this.depth > 0) this.element += text.slice(start);
+    return elements;
+  }
+
+  /**
+   * Whether the closing bracket of the array has been seen.
+   */
+  isComplete(): boolean {
+    return this.started && this.depth === 0;
+  }
+
+  private emit(source: string, elements: string[]): void {
+    if (source.trim()) elements.push(source);
+  }
+}
+
+/**
+ * Reads a file as decoded text chunks, telling `progressTracker` how many
+ * bytes were read.
+ */
+async function* readTextChunks(
+  file: File,
+  progressTracker: ProgressTracker
+): AsyncGenerator<string> {
+  const reader = file.stream().getReader();
+  const decoder = new TextDecoder();
+  let bytesRead = 0;
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      bytesRead += value.length;
+      progressTracker.readTo(bytesRead);
+      yield decoder.decode(value, { stream: true });
+    }
+    const tail = decoder.decode();
+    if (tail) yield tail;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Source text of one record; NDJSON records know their line.
+ */
+interface RecordSource {
+  readonly text: string;
+  readonly line?: number;
+}
+
+/**
+ * Records read from one chunk of a file. NDJSON blocks end at a line break,
+ * so an import can resume at `end`.
+ */
+interface RecordBlock {
+  readonly sources: RecordSource[];
+  /** Byte offset just past the block's last line */
+  readonly end?: number;
+  /** Source lines before `end` */
+  readonly lineNumber?: number;
+}
+
+const LINE_FEED = 0x0a;
+
+/**
+ * Yields the elements of a JSON array, a chunk of the file at a time.
+ */
+async function* arrayBlocks(
+  file: File,
+  progressTracker: ProgressTracker
+): AsyncGenerator<RecordBlock> {
+  const splitter = new JsonArraySplitter();
+  for await (const chunk of readTextChunks(file, progressTracker)) {
+    if (splitter.isComplete()) break;
+    yield { sources: splitter.push(chunk).map((text) => ({ text })) };
+  }
+  if (!splitter.isComplete()) {
+    throw new ImportError("JSON array is not terminated");
+  }
+}
+
+/**
+ * Yields the non-empty lines of NDJSON from byte `start` on, in blocks cut
+ * at the last line feed of each chunk read. A line feed byte never occurs
+ * inside a multi-byte UTF-8 character, so block ends are exact offsets.
+ */
+async function* lineBlocks(
+  file: File,
+  start: number,
+  lineNumber: number,
+  chunkSize: number,
+  progressTracker: ProgressTracker
+): AsyncGenerator<RecordBlock> {
+  const decoder = new TextDecoder();
+  let offset = start;
+  // Byte offset where `pending` starts
+  let consumed = start;
+  let pending = new Uint8Array(0);
+  let line = lineNumber;
+
+  while (offset < file.size) {
+    const read = new Uint8Array(
+      await file.slice(offset, offset + chunkSize).arrayBuffer()
+    );
+    offset += read.length;
+    progressTracker.readTo(offset);
+    const isLast = offset >= file.size;
+    const bytes = new Uint8Array(pending.length + read.length);
+    bytes.set(pending);
+    bytes.set(read, pending.length);
+
+    const cut = isLast ? bytes.length : bytes.lastIndexOf(LINE_FEED) + 1;
+    pending = bytes.slice(cut);
+    if (cut === 0) continue;
+
+    const lines = decoder.decode(bytes.subarray(0, cut)).split("\n");
+    // Text after the last line feed is empty, unless the file ends without one
+    if (!lines[lines.length - 1]) lines.pop();
+    const sources: RecordSource[] = [];
+    for (const text of lines) {
+      line++;
+      if (text.trim()) sources.push({ text, line });
+    }
+    consumed += cut;
+    yield { sources, end: consumed, lineNumber: line };
+  }
+}
+
+/**
+ * Stages the records of a JSON or NDJSON file. NDJSON is checkpointed after
+ * every block so the import can resume at the block's end; a JSON array is
+ * always parsed from the start.
+ */
+async function parseRecords(
+  file: File,
+  lineDelimited: boolean,
+  settings: ParseSettings
+): Promise<ParseSummary> {
+  const { importId, resume } = settings;
+  const resuming =
+    lineDelimited && resume !== undefined && resume.byteOffset > 0;
+  if (!resuming) {
+    // Clear rows staged by a previous attempt of this import
+    await discardStaging(importId);
+  }
+
+  const writer = new StagingWriter(
+    settings,
+    () => settings.signal?.aborted ?? false
+  );
+  if (resuming) await writer.restore(resume);
+  // Columns in order of first appearance; records may have different keys
+  const columns: string[] = resuming ? [...resume.columns] : [];
+  const known = new Set<string>(columns);
+  let recordNumber = 0;
+
+  const blocks = lineDelimited
+    ? lineBlocks(
+        file,
+        resuming ? resume.byteOffset : 0,
+        resuming ? (resume.lineNumber ?? 0) : 0,
+        settings.chunkSizeBytes,
+        settings.progressTracker
+      )
+    : arrayBlocks(file, settings.progressTracker);
+
+  for await (const block of blocks) {
+    for (const source of block.sources) {
+      if (settings.signal?.aborted) {
+        throw new ImportAbortedError();
+      }
+      recordNumber++;
+
+      let record: unknown;
+      try {
+        record = JSON.parse(source.text);
+      } catch (error) {
+        // A bad line of NDJSON spoils only itself; a bad element spoils the array
+        if (source.line === undefined) {
+          throw new ImportError(
+            `Invalid JSON in record ${recordNumber}`,
+            error as Error
+          );
+        }
+        writer.reportIssue({
+          line: source.line,
+          type: "invalid-json",
+          raw: source.text,
+          action: "skipped",
+        });
+        continue;
+      }
+
+      const row = flattenRecord(record);
+      const before = columns.length;
+      for (const col of Object.keys(row)) {
+        if (!known.has(col)) {
+          known.add(col);
+          columns.push(col);
+        }
+      }
+      if (columns.length > before) await writer.publishColumns(columns);
+      await writer.add(row);
+    }
+
+    if (block.end !== undefined) {
+      const rowsStaged = await writer.flush();
+      await saveCheckpoint(importId, {
+        columns,
+        byteOffset: block.end,
+        rowsStaged,
+        lineNumber: block.lineNumber,
+        ...writer.issueState(),
+      });
+      settings.progressTracker.report(rowsStaged);
+    }
+  }
+
+  if (settings.signal?.aborted) {
+    throw new ImportAbortedError();
+  }
+
+  return writer.finish(columns);
+}
+
+/**
+ * Stages a JSON file holding an array of records.
+ */
+export function parseJson(
+  file: File,
+  settings: ParseSettings
+): Promise<ParseSummary> {
+  return parseRecords(file, false, settings);
+}
+
+/**
+ * Stages a newline-delimited JSON file with one record per line.
+ */
+export function parseNdjson(
+  file: File,
+  settings: ParseSettings
+): Promise<ParseSummary> {
+  return parseRecords(file, true, settings);
+}
@@ -0,0 +1,51 @@
+/**
+ * Global object interface with optional requestIdleCallback.
+ */
+interface GlobalWithIdleCallback {
+  requestIdleCallback?: (
+    callback: () => void,
+    options?: { timeout?: number }
+  ) => number;
+}
+
+/**
+ * Cooperative yielding helper used to keep the UI thread responsive between heavy batches.
+ *
+ * What it does:
+ * - Returns an async function that resolves on the next "idle slice":
+ *   - If `requestIdleCallback` is available, schedules resolution during the browser's
+ *     idle period, with a 16ms timeout to roughly align with one frame at 60fps and to
+ *     guarantee progress even when the main thread is busy.
+ *   - Otherwise, falls back to `setTimeout(0)`, yielding to the next macrotask tick.
+ *
+ * Why it's needed:
+ * - Large CSV parsing and IndexedDB writes can monopolize the main thread.
+ * - Awaiting `microYield()` gives the event loop a chance to:
+ *   - paint frames and keep interactions (scrolling, input) responsive,
+ *   - run GC and other high-priority tasks,
+ *   - process pending timers and user events.
+ *
+ * Important notes:
+ * - This yields a macrotask/idle turn, not a microtask; it's different from `await Promise.resolve()`.
+ * - It does not throttle by itself; it simply introduces cooperative break points between batches.
+ * - Safe to call frequently; after creation, calls are allocation-free besides the scheduled task.
+ *
+ * Usage:
+ * - The CSV importer calls it after flushing a batch to IndexedDB and before resuming
+ *   the Papa parser to implement backpressure and avoid long uninterrupted synchronous work.
+ * - Filter scans call it between pages of rows so large datasets filter incrementally.
+ */
+export function createMicroYield(): () => Promise<void> {
+  const globalObj = globalThis as GlobalWithIdleCallback;
+  const hasIdleCallback = typeof globalObj.requestIdleCallback === "function";
+
+  return (): Promise<void> => {
+    return new Promise<void>((resolve) => {
+      if (hasIdleCallback && globalObj.requestIdleCallback) {
+        globalObj.requestIdleCallback(resolve, { timeout: 16 });
+      } else {
+        setTimeout(resolve, 0);
+      }
+    });
+  };
+}
@@ -0,0 +1,278 @@
+import { cmp } from "dexie";
+import {
+  db,
+  type CellValue,
+  type ColumnFilter,
+  type ColumnType,
+  type FilterState,
+} from "./db";
+import { cellToText } from "./columnTypes";
+import { toSortKey } from "./sortIndex";
+import { createRowPageReader } from "./rowPages";
+import { createMicroYield } from "./microYield";
+
+/**
+ * Rows aggregated per step before yielding to the UI.
+ */
+const PIVOT_PAGE_SIZE = 2000;
+
+/**
+ * Limits keeping the result small enough to hold and render.
+ */
+const MAX_GROUPS = 100_000;
+const MAX_PIVOT_KEYS = 200;
+
+export type AggregateFunction =
+  "count" | "sum" | "avg" | "min" | "max" | "distinct";
+
+export const AGGREGATE_LABELS: Record<AggregateFunction, string> = {
+  count: "Count",
+  sum: "Sum",
+  avg: "Average",
+  min: "Min",
+  max: "Max",
+  distinct: "Distinct count",
+};
+
+export interface PivotAggregate {
+  readonly fn: AggregateFunction;
+  /** Column aggregated; `count` counts rows and ignores it */
+  readonly column: string;
+}
+
+export interface PivotSpec {
+  readonly groupBy: readonly string[];
+  /** Columns whose value combinations become result columns */
+  readonly pivotBy: readonly string[];
+  readonly aggregates: readonly PivotAggregate[];
+}
+
+export interface PivotGroup {
+  /** Values of the group-by columns */
+  readonly key: readonly CellValue[];
+  /** Rows in the group */
+  readonly rows: number;
+  /**
+   * Aggregate results per pivot key (same order as `PivotResult.pivotKeys`),
+   * each in the order of the spec's aggregates; null where no row or value
+   * contributed.
+   */
+  readonly cells: readonly (readonly (CellValue | null)[])[];
+}
+
+export interface PivotResult {
+  readonly spec: PivotSpec;
+  /** Value combinations of the pivot columns; one empty key without them */
+  readonly pivotKeys: readonly (readonly CellValue[])[];
+  readonly groups: readonly PivotGroup[];
+  readonly rowsScanned: number;
+}
+
+export interface PivotOptions {
+  readonly signal?: AbortSignal;
+  /** Callback receiving the number of rows aggregated so far */
+  readonly onProgress?: (rowsScanned: number) => void;
+}
+
+/**
+ * Running state of one aggregate in one result cell.
+ */
+interface Accumulator {
+  rows: number;
+  sum: number;
+  numeric: number;
+  min: CellValue;
+  max: CellValue;
+  distinct: Set<string> | null;
+}
+
+interface GroupState {
+  key: CellValue[];
+  rows: number;
+  /** Accumulators per pivot key id, one per aggregate */
+  cells: Map<string, Accumulator[]>;
+}
+
+function isEmpty(value: CellValue | undefined): boolean {
+  return value === null || value === undefined || value === "";
+}
+
+function compareValues(a: CellValue, b: CellValue): number {
+  return cmp(toSortKey(a), toSortKey(b));
+}
+
+function compareKeys(a: readonly CellValue[], b: readonly CellValue[]): number {
+  for (let i = 0; i < a.length; i++) {
+    const order = compareValues(a[i], b[i]);
+    if (order !== 0) return order;
+  }
+  return 0;
+}
+
+/**
+ * Identity of a value combination, by canonical text.
+ */
+function keyId(values: readonly CellValue[], types: ColumnType[]): string {
+  return JSON.stringify(values.map((value, i) => cellToText(value, types[i])));
+}
+
+function newAccumulators(aggregates: readonly PivotAggregate[]): Accumulator[] {
+  return aggregates.map((aggregate) => ({
+    rows: 0,
+    sum: 0,
+    numeric: 0,
+    min: null,
+    max: null,
+    distinct: aggregate.fn === "distinct" ? new Set() : null,
+  }));
+}
+
+function accumulate(acc: Accumulator, value: CellValue, type: ColumnType) {
+  acc.rows++;
+  if (isEmpty(value)) return;
+  if (typeof value === "number") {
+    acc.sum += value;
+    acc.numeric++;
+  }
+  if (acc.min === null || compareValues(value, acc.min) < 0) acc.min = value;
+  if (acc.max === null || compareValues(value, acc.max) > 0) acc.max = value;
+  acc.distinct?.add(cellToText(value, type));
+}
+
+function finish(acc: Accumulator | undefined, fn: AggregateFunction) {
+  if (!acc) return null;
+  switch (fn) {
+    case "count":
+      return acc.rows;
+    case "sum":
+      return acc.numeric > 0 ? acc.sum : null;
+    case "avg":
+      return acc.numeric > 0 ? acc.sum / acc.numeric : null;
+    case "min":
+      return acc.min;
+    case "max":
+      return acc.max;
+    case "distinct":
+      return acc.distinct?.size ?? 0;
+  }
+}
+
+/**
+ * Groups a dataset's rows and aggregates them in one streaming pass.
+ *
+ * Only the running aggregates are kept in memory. Groups and pivot keys are
+ * sorted by value; empty values sort first.
+ */
+export async function computePivot(
+  datasetId: number,
+  spec: PivotSpec,
+  options: PivotOptions = {}
+): Promise<PivotResult> {
+  const meta = await db.datasets.get(datasetId);
+  if (!meta) throw new Error(`Dataset ${datasetId} no longer exists`);
+  const typeOf = (col: string): ColumnType => meta.schema[col] ?? "string";
+  const groupTypes = spec.groupBy.map(typeOf);
+  const pivotTypes = spec.pivotBy.map(typeOf);
+
+  const groups = new Map<string, GroupState>();
+  const pivotKeys = new Map<string, CellValue[]>();
+  const nextPage = createRowPageReader(datasetId, {}, PIVOT_PAGE_SIZE);
+  const microYield = createMicroYield();
+  let rowsScanned = 0;
+
+  for (;;) {
+    if (options.signal?.aborted) {
+      throw new DOMException("Pivot aborted", "AbortError");
+    }
+    const page = await nextPage();
+    if (page.length === 0) break;
+
+    for (const row of page) {
+      const groupKey = spec.groupBy.map((col) => row.data[col] ?? null);
+      const groupId = keyId(groupKey, groupTypes);
+      let group = groups.get(groupId);
+      if (!group) {
+        if (groups.size >= MAX_GROUPS) {
+          throw new Error(
+            `More than ${MAX_GROUPS.toLocaleString()} groups; group by fewer or coarser columns`
+          );
+        }
+        group = { key: groupKey, rows: 0, cells: new Map() };
+        groups.set(groupId, group);
+      }
+      group.rows++;
+
+      const pivotKey = spec.pivotBy.map((col) => row.data[col] ?? null);
+      const pivotId = keyId(pivotKey, pivotTypes);
+      if (!pivotKeys.has(pivotId)) {
+        if (pivotKeys.size >= MAX_PIVOT_KEYS) {
+          throw new Error(
+            `More than ${MAX_PIVOT_KEYS} pivot values; pivot by fewer columns`
+          );
+        }
+        pivotKeys.set(pivotId, pivotKey);
+      }
+
+      let accumulators = group.cells.get(pivotId);
+      if (!accumulators) {
+        accumulators = newAccumulators(spec.aggregates);
+        group.cells.set(pivotId, accumulators);
+      }
+      spec.aggregates.forEach((aggregate, i) => {
+        accumulate(
+          accumulators[i],
+          row.data[aggregate.column] ?? null,
+          typeOf(aggregate.column)
+        );
+      });
+    }
+
+    rowsScanned += page.length;
+    options.onProgress?.(rowsScanned);
+    await microYield();
+  }
+
+  const sortedPivotKeys = [...pivotKeys].sort((a, b) =>
+    compareKeys(a[1], b[1])
+  );
+  return {
+    spec,
+    pivotKeys: sortedPivotKeys.map(([, key]) => key),
+    groups: [...groups.values()]
+      .sort((a, b) => compareKeys(a.key, b.key))
+      .map((group) => ({
+        key: group.key,
+        rows: group.rows,
+        cells: sortedPivotKeys.map(([pivotId]) => {
+          const accumulators = group.cells.get(pivotId);
+          return spec.aggregates.map((aggregate, i) =>
+            finish(accumulators?.[i], aggregate.fn)
+          );
+        }),
+      })),
+    rowsScanned,
+  };
+}
+
+/**
+ * Filter showing the rows behind a group, optionally narrowed to one pivot
+ * key, for drilling down in the main table.
+ */
+export function drillDownFilters(
+  columns: readonly string[],
+  values: readonly CellValue[],
+  types: readonly ColumnType[]
+): FilterState {
+  return {
+    combinator: "and",
+    conditions: columns.map((column, i): ColumnFilter =>
+      isEmpty(values[i])
+        ? { column, operator: "empty" }
+        : {
+            column,
+            operator: "equals",
+            value: cellToText(values[i], types[i]),
+          }
+    ),
+  };
+}
@@ -0,0 +1,458 @@
+import { cmp } from "dexie";
+import {
+  db,
+  type CellValue,
+  type ColumnProfile,
+  type ColumnType,
+  type DatasetProfile,
+} from "./db";
+import { cellToText } from "./columnTypes";
+import { toSortKey } from "./sortIndex";
+import { createRowPageReader } from "./rowPages";
+import { createMicroYield } from "./microYield";
+
+/**
+ * Rows read per step while profiling.
+ */
+const PROFILE_PAGE_SIZE = 2000;
+
+/**
+ * Hashes kept per column for the distinct estimate; the error is about
+ * 1/sqrt(SKETCH_SIZE), so roughly 6%.
+ */
+const SKETCH_SIZE = 256;
+
+/**
+ * Frequent values stored per column.
+ */
+const TOP_VALUES = 10;
+
+/**
+ * Distinct values counted per column while profiling; beyond twice as many
+ * the rarest are dropped, so their counts restart if they reappear.
+ */
+const TRACKED_VALUES = 5000;
+
+export interface ProfileOptions {
+  /** AbortSignal to cancel profiling; nothing is stored then */
+  readonly signal?: AbortSignal;
+  /** Callback receiving the number of rows profiled so far */
+  readonly onProgress?: (rowsProfiled: number) => void;
+}
+
+/**
+ * One cell's contribution to a column profile going away, arriving, or both
+ * for an edit.
+ */
+export interface ProfileChange {
+  readonly column: string;
+  readonly removed?: CellValue;
+  readonly added?: CellValue;
+}
+
+/**
+ * Message starting the profiling worker.
+ */
+export interface ProfileRequest {
+  readonly datasetId: number;
+}
+
+/**
+ * Messages posted back by the profiling worker.
+ */
+export type ProfileMessage =
+  | { readonly type: "progress"; readonly rowsProfiled: number }
+  | { readonly type: "done"; readonly profile: DatasetProfile }
+  | { readonly type: "error"; readonly message: string };
+
+/**
+ * Mean of the numeric values of a column, or null without any.
+ */
+export function profileMean(profile: ColumnProfile): number | null {
+  return profile.numeric > 0 ? profile.sum / profile.numeric : null;
+}
+
+function isEmpty(value: CellValue | undefined): boolean {
+  return (
+    value === null ||
+    value === undefined ||
+    (typeof value === "string" && value.trim() === "")
+  );
+}
+
+/**
+ * Whether a value was kept as text because it does not fit the column type.
+ */
+function isMismatch(value: CellValue, type: ColumnType): boolean {
+  return type !== "string" && typeof value === "string";
+}
+
+/**
+ * 32-bit FNV-1a hash of a text, with a final avalanche step so the hashes
+ * spread evenly for the distinct estimate.
+ */
+function hashText(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
+
+/**
+ * Adds a hash to an ascending sketch of the smallest distinct hashes.
+ */
+function addToSketch(sketch: number[], hash: number): void {
+  if (sketch.length >= SKETCH_SIZE && hash >= sketch[sketch.length - 1]) {
+    return;
+  }
+  let low = 0;
+  let high = sketch.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (sketch[mid] < hash) low = mid + 1;
+    else high = mid;
+  }
+  if (sketch[low] === hash) return;
+  sketch.splice(low, 0, hash);
+  if (sketch.length > SKETCH_SIZE) sketch.pop();
+}
+
+/**
+ * Distinct values behind a sketch: exact while it is not full, else the
+ * k-minimum-values estimate.
+ */
+function estimateDistinct(sketch: readonly number[]): number {
+  if (sketch.length < SKETCH_SIZE) return sketch.length;
+  const kth = (sketch[SKETCH_SIZE - 1] + 1) / 2 ** 32;
+  return Math.round((SKETCH_SIZE - 1) / kth);
+}
+
+function compareValues(a: CellValue, b: CellValue): number {
+  return cmp(toSortKey(a), toSortKey(b));
+}
+
+function emptyProfile(): ColumnProfile {
+  return {
+    count: 0,
+    empty: 0,
+    mismatches: 0,
+    distinct: 0,
+    distinctApproximate: false,
+    sketch: [],
+    min: null,
+    max: null,
+    sum: 0,
+    numeric: 0,
+    top: [],
+    topApproximate: false,
+  };
+}
+
+/**
+ * Counts a value in or out of the counters every change affects. Returns the
+ * canonical text of a non-empty value, or null for an empty one.
+ */
+function countValue(
+  profile: ColumnProfile,
+  value: CellValue,
+  type: ColumnType,
+  delta: 1 | -1
+): string | null {
+  profile.count += delta;
+  if (isEmpty(value)) {
+    profile.empty += delta;
+    return null;
+  }
+  if (isMismatch(value, type)) {
+    profile.mismatches += delta;
+  } else if (typeof value === "number") {
+    profile.sum += delta * value;
+    profile.numeric += delta;
+  }
+  return cellToText(value, type);
+}
+
+/**
+ * Widens the bounds of a profile to a value fitting the column type.
+ */
+function extendBounds(profile: ColumnProfile, value: CellValue): void {
+  if (profile.min === null || compareValues(value, profile.min) < 0) {
+    profile.min = value;
+  }
+  if (profile.max === null || compareValues(value, profile.max) > 0) {
+    profile.max = value;
+  }
+}
+
+/**
+ * Accumulates the profile of one column over a full pass of its values.
+ */
+class ColumnProfiler {
+  private readonly profile = emptyProfile();
+  private readonly counts = new Map<string, number>();
+  private readonly type: ColumnType;
+
+  constructor(type: ColumnType) {
+    this.type = type;
+  }
+
+  observe(value: CellValue): void {
+    const text = countValue(this.profile, value, this.type, 1);
+    if (text === null) return;
+
+    addToSketch(this.profile.sketch, hashText(text));
+    if (!isMismatch(value, this.type)) extendBounds(this.profile, value);
+
+    this.counts.set(text, (this.counts.get(text) ?? 0) + 1);
+    if (this.counts.size > TRACKED_VALUES * 2) this.prune();
+  }
+
+  /** Keeps the most frequent values counted so far */
+  private prune(): void {
+    const kept = [...this.counts]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, TRACKED_VALUES);
+    this.counts.clear();
+    for (const [text, count] of kept) this.counts.set(text, count);
+    this.profile.topApproximate = true;
+  }
+
+  result(): ColumnProfile {
+    return {
+      ...this.profile,
+      distinct: estimateDistinct(this.profile.sketch),
+      distinctApproximate: this.profile.sketch.length >= SKETCH_SIZE,
+      top: [...this.counts]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, TOP_VALUES)
+        .map(([value, count]) => ({ value, count })),
+    };
+  }
+}
+
+/**
+ * Profiles every column of a dataset in one pass over its rows.
+ *
+ * Runs in whichever thread calls it; `profileDataset` moves it to a worker.
+ */
+export async function profileRows(
+  datasetId: number,
+  options: ProfileOptions = {}
+): Promise<DatasetProfile> {
+  const meta = await db.datasets.get(datasetId);
+  if (!meta) throw new Error(`Dataset ${datasetId} no longer exists`);
+
+  const profilers = new Map(
+    meta.columns.map((col) => [
+      col,
+      new ColumnProfiler(meta.schema[col] ?? "string"),
+    ])
+  );
+  const nextPage = createRowPageReader(datasetId, {}, PROFILE_PAGE_SIZE);
+  const microYield = createMicroYield();
+  let rowsProfiled = 0;
+
+  for (;;) {
+    if (options.signal?.aborted) {
+      throw new DOMException("Profiling aborted", "AbortError");
+    }
+    const page = await nextPage();
+    if (page.length === 0) break;
+
+    for (const row of page) {
+      for (const [col, profiler] of profilers) {
+        profiler.observe(row.data[col] ?? null);
+      }
+    }
+
+    rowsProfiled += page.length;
+    options.onProgress?.(rowsProfiled);
+    await microYield();
+  }
+
+  return {
+    profiledAt: Date.now(),
+    columns: Object.fromEntries(
+      [...profilers].map(([col, profiler]) => [col, profiler.result()])
+    ),
+  };
+}
+
+function isWorkerSupported(): boolean {
+  return typeof Worker !== "undefined";
+}
+
+/**
+ * Runs `profileRows` in a web worker; aborting terminates the worker.
+ */
+function profileInWorker(
+  datasetId: number,
+  { signal, onProgress }: ProfileOptions
+): Promise<DatasetProfile> {
+  return new Promise<DatasetProfile>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("Profiling aborted", "AbortError"));
+      return;
+    }
+
+    const worker = new Worker(new URL("./profile.worker.ts", import.meta.url), {
+      type: "module",
+    });
+    const finish = (): void => {
+      worker.terminate();
+      signal?.removeEventListener("abort", onAbort);
+    };
+    const onAbort = (): void => {
+      finish();
+      reject(new DOMException("Profiling aborted", "AbortError"));
+    };
+    signal?.addEventListener("abort", onAbort);
+
+    worker.onmessage = (event: MessageEvent<ProfileMessage>) => {
+      const message = event.data;
+      if (message.type === "progress") {
+        onProgress?.(message.rowsProfiled);
+      } else if (message.type === "done") {
+        finish();
+        resolve(message.profile);
+      } else {
+        finish();
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || "Profiling worker failed"));
+    };
+    worker.postMessage({ datasetId } satisfies ProfileRequest);
+  });
+}
+
+/**
+ * Profiles a dataset off the main thread where workers are available and
+ * stores the result with the dataset.
+ *
+ * Edits committed while the pass runs are not reflected; profile again to
+ * pick them up.
+ */
+export async function profileDataset(
+  datasetId: number,
+  options: ProfileOptions = {}
+): Promise<DatasetProfile> {
+  const profile = isWorkerSupported()
+    ? await profileInWorker(datasetId, options)
+    : await profileRows(datasetId, options);
+  if (options.signal?.aborted) {
+    throw new DOMException("Profiling aborted", "AbortError");
+  }
+  await db.datasets.update(datasetId, { profile });
+  return profile;
+}
+
+/**
+ * Column profile with one change applied; the input is left untouched.
+ *
+ * Counts, mean and known frequent values stay exact. A removed value may have
+ * been the last of its kind, so the distinct count becomes an estimate, and
+ * bounds held by a removed value are flagged stale.
+ */
+function applyChange(
+  profile: ColumnProfile,
+  change: ProfileChange,
+  type: ColumnType
+): ColumnProfile {
+  const next: ColumnProfile = {
+    ...profile,
+    sketch: [...profile.sketch],
+    top: profile.top.map((entry) => ({ ...entry })),
+  };
+
+  if (change.removed !== undefined) {
+    const value = change.removed;
+    const text = countValue(next, value, type, -1);
+    if (text !== null) {
+      next.distinctApproximate = true;
+      if (
+        !isMismatch(value, type) &&
+        ((next.min !== null && compareValues(value, next.min) === 0) ||
+          (next.max !== null && compareValues(value, next.max) === 0))
+      ) {
+        next.boundsStale = true;
+      }
+      const entry = next.top.find((e) => e.value === text);
+      if (entry) entry.count--;
+      next.top = next.top.filter((e) => e.count > 0);
+    }
+  }
+
+  if (change.added !== undefined) {
+    const value = change.added;
+    const text = countValue(next, value, type, 1);
+    if (text !== null) {
+      addToSketch(next.sketch, hashText(text));
+      next.distinct = Math.max(next.distinct, estimateDistinct(next.sketch));
+      if (!isMismatch(value, type)) extendBounds(next, value);
+
+      const entry = next.top.find((e) => e.value === text);
+      if (entry) {
+        entry.count++;
+      } else if (!next.topApproximate && next.top.length < TOP_VALUES) {
+        // A short, exact list holds every distinct value, so this one is new
+        next.top.push({ value: text, count: 1 });
+      }
+    }
+  }
+
+  next.top.sort((a, b) => b.count - a.count);
+  return next;
+}
+
+/**
+ * Updates the stored profile of a dataset for changed cells, if it has one.
+ * Call inside a read-write transaction over `db.datasets`.
+ */
+export async function applyProfileChanges(
+  datasetId: number,
+  changes: readonly ProfileChange[]
+): Promise<void> {
+  if (changes.length === 0) return;
+  const meta = await db.datasets.get(datasetId);
+  if (!meta?.profile) return;
+
+  const columns = { ...meta.profile.columns };
+  for (const change of changes) {
+    const profile = columns[change.column];
+    if (!profile) continue;
+    columns[change.column] = applyChange(
+      profile,
+      change,
+      meta.schema[change.column] ?? "string"
+    );
+  }
+  await db.datasets.update(datasetId, {
+    profile: { ...meta.profile, columns },
+  });
+}
+
+/**
+ * Changes for whole rows arriving or going away.
+ */
+export function rowProfileChanges(
+  rows: readonly { readonly data: Record<string, CellValue> }[],
+  columns: readonly string[],
+  direction: "added" | "removed"
+): ProfileChange[] {
+  return rows.flatMap((row) =>
+    columns.map((column) => ({
+      column,
+      [direction]: row.data[column] ?? null,
+    }))
+  );
+}
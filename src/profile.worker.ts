@@ -0,0 +1,24 @@
+import {
+  profileRows,
+  type ProfileMessage,
+  type ProfileRequest,
+} from "./profile";
+
+/**
+ * Profiles one dataset per request off the main thread. The page terminates
+ * the worker to abort.
+ */
+addEventListener("message", async (event: MessageEvent<ProfileRequest>) => {
+  const reply = (message: ProfileMessage): void => postMessage(message);
+  try {
+    const profile = await profileRows(event.data.datasetId, {
+      onProgress: (rowsProfiled) => reply({ type: "progress", rowsProfiled }),
+    });
+    reply({ type: "done", profile });
+  } catch (e) {
+    reply({
+      type: "error",
+      message: (e as Error).message ?? "Profiling failed",
+    });
+  }
+});
@@ -0,0 +1,276 @@
+import Dexie from "dexie";
+import { db, type CellValue, type DeletedRow, type Row } from "./db";
+import { removeSortKeys, syncSortKeys } from "./sortIndex";
+import { addRowTokens, removeRowTokens } from "./searchIndex";
+import { applyProfileChanges, rowProfileChanges } from "./profile";
+import { compileDatasetColumns, computeRow } from "./computedColumns";
+
+/**
+ * Where inserted rows go relative to the anchor row.
+ */
+export type InsertPlacement = "above" | "below";
+
+type RowChangeListener = (datasetId: number) => void;
+
+const listeners = new Set<RowChangeListener>();
+
+/**
+ * Subscribes to committed row inserts and deletions, which shift the position
+ * of every later row, and to bulk rewrites of many rows. Returns the
+ * unsubscribe function.
+ */
+export function subscribeRowChanges(listener: RowChangeListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Tells subscribers that rows of a dataset changed wholesale.
+ */
+export function notifyRowChanges(datasetId: number): void {
+  for (const listener of listeners) listener(datasetId);
+}
+
+const ROW_TABLES = [
+  db.rows,
+  db.datasets,
+  db.sortEntries,
+  db.sortIndexes,
+  db.searchTokens,
+  db.deletedRows,
+];
+
+/**
+ * Deleted rows of a dataset, oldest first.
+ */
+export function deletedRows(datasetId: number) {
+  return db.deletedRows
+    .where("[datasetId+deletedAt]")
+    .between([datasetId, Dexie.minKey], [datasetId, Dexie.maxKey]);
+}
+
+/**
+ * First row of a dataset after the given id.
+ */
+function nextRow(datasetId: number, rowId: number) {
+  return db.rows
+    .where("[datasetId+id]")
+    .between([datasetId, rowId], [datasetId, Dexie.maxKey], false)
+    .first();
+}
+
+/**
+ * `count` increasing ids strictly between `lower` and `upper`, free in both
+ * `rows` and `deletedRows`.
+ *
+ * Rows are shown in id order, so a row placed between two others needs an id
+ * between theirs; ids need not be integers. Without an upper bound the ids
+ * are left to auto-increment, which always sorts last.
+ */
+async function idsBetween(
+  lower: number,
+  upper: number | undefined,
+  count: number
+): Promise<number[] | undefined> {
+  if (upper === undefined) return undefined;
+
+  // Ids are global, so a candidate may belong to another dataset's row;
+  // halve the range until the candidates are free
+  let high = upper;
+  for (;;) {
+    const step = (high - lower) / (count + 1);
+    const ids = Array.from({ length: count }, (_, i) => lower + step * (i + 1));
+    if (ids.some((id, i) => id <= (i > 0 ? ids[i - 1] : lower) || id >= high)) {
+      throw new Error(
+        "No room to insert more rows at this position; insert next to another row"
+      );
+    }
+
+    const [rows, trashed] = await Promise.all([
+      db.rows.bulkGet(ids),
+      db.deletedRows.bulkGet(ids),
+    ]);
+    if (!rows.some(Boolean) && !trashed.some(Boolean)) return ids;
+    high = lower + (high - lower) / 2;
+  }
+}
+
+/**
+ * Adds rows with the given ids (or auto-increment ids), computes their
+ * computed columns and keeps the sort and search indexes, the column profile
+ * and the row count in step. Call inside a transaction over `ROW_TABLES`.
+ */
+async function addRows(
+  datasetId: number,
+  data: Record<string, CellValue>[],
+  ids: number[] | undefined
+): Promise<number[]> {
+  const meta = await db.datasets.get(datasetId);
+  if (!meta) throw new Error(`Dataset ${datasetId} no longer exists`);
+
+  const compiled = compileDatasetColumns(meta);
+  const rows = data.map((values, i): Row => {
+    const row: Row = {
+      ...(ids ? { id: ids[i] } : {}),
+      datasetId,
+      data: { ...values },
+    };
+    computeRow(row, compiled);
+    return row;
+  });
+  const keys = await db.rows.bulkAdd(rows, { allKeys: true });
+  const added = rows.map((row, i) => ({ ...row, id: keys[i] }));
+
+  await syncSortKeys(datasetId, added);
+  await addRowTokens(datasetId, added, meta.schema);
+  await db.datasets.update(datasetId, {
+    rowCount: meta.rowCount + added.length,
+  });
+  await applyProfileChanges(
+    datasetId,
+    rowProfileChanges(added, meta.columns, "added")
+  );
+  return keys;
+}
+
+/**
+ * Inserts `count` blank rows directly above or below a row, in id order.
+ * Returns the new row ids.
+ */
+export async function insertRows(
+  datasetId: number,
+  anchorRowId: number,
+  placement: InsertPlacement,
+  count = 1
+): Promise<number[]> {
+  const ids = await db.transaction("rw", ROW_TABLES, async () => {
+    const meta = await db.datasets.get(datasetId);
+    if (!meta) throw new Error(`Dataset ${datasetId} no longer exists`);
+
+    let lower: number;
+    let upper: number | undefined;
+    if (placement === "above") {
+      const previous = await db.rows
+        .where("[datasetId+id]")
+        .between([datasetId, Dexie.minKey], [datasetId, anchorRowId])
+        .last();
+      // Above the first row, any positive id below the anchor's will do;
+      // keyset readers start after id 0
+      lower = previous?.id ?? Math.max(0, anchorRowId - 1);
+      upper = anchorRowId;
+    } else {
+      const next = await nextRow(datasetId, anchorRowId);
+      lower = anchorRowId;
+      upper = next?.id;
+    }
+
+    const blank = Object.fromEntries(
+      meta.columns.map((column) => [column, null])
+    );
+    return addRows(
+      datasetId,
+      Array.from({ length: count }, () => ({ ...blank })),
+      await idsBetween(lower, upper, count)
+    );
+  });
+  notifyRowChanges(datasetId);
+  return ids;
+}
+
+/**
+ * Inserts copies of rows right after the last of them, keeping their order.
+ * Returns the ids of the copies.
+ */
+export async function duplicateRows(
+  datasetId: number,
+  rowIds: readonly number[]
+): Promise<number[]> {
+  const ids = await db.transaction("rw", ROW_TABLES, async () => {
+    const rows = (await db.rows.bulkGet([...rowIds]))
+      .filter((row): row is Row => row?.datasetId === datasetId)
+      .sort((a, b) => a.id! - b.id!);
+    if (rows.length === 0) return [];
+
+    const last = rows[rows.length - 1].id!;
+    const next = await nextRow(datasetId, last);
+    return addRows(
+      datasetId,
+      rows.map((row) => ({ ...row.data })),
+      await idsBetween(last, next?.id, rows.length)
+    );
+  });
+  notifyRowChanges(datasetId);
+  return ids;
+}
+
+/**
+ * Moves rows to the dataset's trash, from where `restoreRows` brings them
+ * back. Edit history and original values are kept for the restore. Returns
+ * the number of rows deleted.
+ */
+export async function deleteRows(
+  datasetId: number,
+  rowIds: readonly number[]
+): Promise<number> {
+  const deleted = await db.transaction("rw", ROW_TABLES, async () => {
+    const meta = await db.datasets.get(datasetId);
+    if (!meta) throw new Error(`Dataset ${datasetId} no longer exists`);
+
+    const rows = (await db.rows.bulkGet([...rowIds])).filter(
+      (row): row is Row => row?.datasetId === datasetId
+    );
+    if (rows.length === 0) return 0;
+
+    const ids = rows.map((row) => row.id!);
+    const deletedAt = Date.now();
+    await db.deletedRows.bulkPut(
+      rows.map((row): DeletedRow => ({ ...row, id: row.id!, deletedAt }))
+    );
+    await db.rows.bulkDelete(ids);
+    await removeSortKeys(datasetId, ids);
+    await removeRowTokens(datasetId, ids);
+    await db.datasets.update(datasetId, {
+      rowCount: Math.max(0, meta.rowCount - rows.length),
+    });
+    await applyProfileChanges(
+      datasetId,
+      rowProfileChanges(rows, meta.columns, "removed")
+    );
+    return rows.length;
+  });
+  if (deleted > 0) notifyRowChanges(datasetId);
+  return deleted;
+}
+
+/**
+ * Puts deleted rows back under their old ids, so they return to their old
+ * position. Returns the number of rows restored.
+ */
+export async function restoreRows(
+  datasetId: number,
+  rowIds: readonly number[]
+): Promise<number> {
+  const restored = await db.transaction("rw", ROW_TABLES, async () => {
+    const trashed = (await db.deletedRows.bulkGet([...rowIds])).filter(
+      (row): row is DeletedRow => row?.datasetId === datasetId
+    );
+    if (trashed.length === 0) return 0;
+
+    await addRows(
+      datasetId,
+      trashed.map((row) => row.data),
+      trashed.map((row) => row.id)
+    );
+    await db.deletedRows.bulkDelete(trashed.map((row) => row.id));
+    return trashed.length;
+  });
+  if (restored > 0) notifyRowChanges(datasetId);
+  return restored;
+}
+
+/**
+ * Permanently removes a dataset's deleted rows.
+ */
+export async function clearDeletedRows(datasetId: number): Promise<void> {
+  await deletedRows(datasetId).delete();
+}
@@ -0,0 +1,109 @@
+import Dexie from "dexie";
+import { db, type Row } from "./db";
+import { datasetRowsAfter } from "./datasets";
+import type { SortSpec } from "./sortIndex";
+
+/**
+ * Default number of rows per page when walking a whole dataset.
+ */
+const DEFAULT_PAGE_SIZE = 2000;
+
+export interface RowPageOrder {
+  /** Walk rows along this sort; its sort index must already be built */
+  readonly sort?: SortSpec | null;
+  /** Walk exactly these rows in this order; takes precedence over `sort` */
+  readonly rowIds?: readonly number[] | null;
+}
+
+/**
+ * Returns a function yielding consecutive pages of a dataset's rows in the
+ * table's display order, and an empty page once exhausted.
+ *
+ * Each page resumes after the last key seen (keyset pagination) instead of
+ * re-skipping rows with `offset()`, so walking millions of rows stays linear.
+ */
+export function createRowPageReader(
+  datasetId: number,
+  order: RowPageOrder = {},
+  pageSize: number = DEFAULT_PAGE_SIZE
+): () => Promise<Row[]> {
+  if (order.rowIds) return idListPageReader(order.rowIds, pageSize);
+  if (order.sort) return sortedPageReader(datasetId, order.sort, pageSize);
+  return idPageReader(datasetId, pageSize);
+}
+
+function idPageReader(
+  datasetId: number,
+  pageSize: number
+): () => Promise<Row[]> {
+  let lastId = 0;
+  return async () => {
+    const page = await datasetRowsAfter(datasetId, lastId)
+      .limit(pageSize)
+      .toArray();
+    if (page.length > 0) lastId = page[page.length - 1].id!;
+    return page;
+  };
+}
+
+function idListPageReader(
+  rowIds: readonly number[],
+  pageSize: number
+): () => Promise<Row[]> {
+  let offset = 0;
+  return async () => {
+    // Skip over ids whose rows were deleted so a gap never ends the walk early
+    while (offset < rowIds.length) {
+      const ids = rowIds.slice(offset, offset + pageSize);
+      offset += ids.length;
+      const rows = (await db.rows.bulkGet(ids)).filter(
+        (row): row is Row => row !== undefined
+      );
+      if (rows.length > 0) return rows;
+    }
+    return [];
+  };
+}
+
+function sortedPageReader(
+  datasetId: number,
+  sort: SortSpec,
+  pageSize: number
+): () => Promise<Row[]> {
+  // Resume after the last visited [key, rowId]
+  let lower: [unknown, number] | null = null;
+  let upper: [unknown, number] | null = null;
+  const ascending = sort.direction === "asc";
+
+  return async () => {
+    for (;;) {
+      const from: unknown[] = [
+        datasetId,
+        sort.column,
+        ...(lower ?? [Dexie.minKey, Dexie.minKey]),
+      ];
+      const to: unknown[] = [
+        datasetId,
+        sort.column,
+        ...(upper ?? [Dexie.maxKey, Dexie.maxKey]),
+      ];
+
+      let entries = db.sortEntries
+        .where("[datasetId+column+key+rowId]")
+        .between(from, to, !(ascending && lower), !(!ascending && upper));
+      if (!ascending) entries = entries.reverse();
+
+      const page = await entries.limit(pageSize).toArray();
+      if (page.length === 0) return [];
+
+      const last = page[page.length - 1];
+      if (ascending) lower = [last.key, last.rowId];
+      else upper = [last.key, last.rowId];
+
+      const rows = (
+        await db.rows.bulkGet(page.map((entry) => entry.rowId))
+      ).filter((row): row is Row => row !== undefined);
+      if (rows.length > 0) return rows;
+    }
+  };
+}
@@ -0,0 +1,159 @@
+import Dexie from "dexie";
+import { db, type ColumnSchema, type Row, type SearchToken } from "./db";
+import { datasetRowsAfter } from "./datasets";
+import { cellToText } from "./columnTypes";
+import { createMicroYield } from "./microYield";
+
+/**
+ * Rows tokenized per step while (re)building a search index.
+ */
+const BUILD_PAGE_SIZE = 2000;
+
+/** Longer tokens are truncated; nobody searches for 200-character words */
+const MAX_TOKEN_LENGTH = 64;
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Splits text into unique lowercase word tokens.
+ */
+export function tokenize(text: string): string[] {
+  const tokens = new Set<string>();
+  for (const match of text.toLocaleLowerCase().matchAll(TOKEN_PATTERN)) {
+    tokens.add(match[0].slice(0, MAX_TOKEN_LENGTH));
+  }
+  return [...tokens];
+}
+
+function rowTokens(
+  datasetId: number,
+  row: Row,
+  schema: ColumnSchema
+): SearchToken[] {
+  const tokens = new Set<string>();
+  for (const [col, value] of Object.entries(row.data)) {
+    for (const token of tokenize(cellToText(value, schema[col] ?? "string"))) {
+      tokens.add(token);
+    }
+  }
+  return [...tokens].map((token) => ({ datasetId, token, rowId: row.id! }));
+}
+
+/**
+ * Adds index entries for rows that have no entries yet (freshly inserted rows).
+ */
+export async function addRowTokens(
+  datasetId: number,
+  rows: readonly Row[],
+  schema: ColumnSchema
+): Promise<void> {
+  await db.searchTokens.bulkPut(
+    rows.flatMap((row) => rowTokens(datasetId, row, schema))
+  );
+}
+
+/**
+ * Replaces the index entries of changed rows.
+ *
+ * Call inside the same transaction as the row writes so search never drifts.
+ */
+export async function syncRowTokens(
+  datasetId: number,
+  rows: readonly Row[],
+  schema: ColumnSchema
+): Promise<void> {
+  if (rows.length === 0) return;
+  await removeRowTokens(
+    datasetId,
+    rows.map((row) => row.id!)
+  );
+  await addRowTokens(datasetId, rows, schema);
+}
+
+/**
+ * Removes the index entries of the given rows.
+ */
+export async function removeRowTokens(
+  datasetId: number,
+  rowIds: readonly number[]
+): Promise<void> {
+  await db.searchTokens
+    .where("[datasetId+rowId]")
+    .anyOf(rowIds.map((rowId) => [datasetId, rowId]))
+    .delete();
+}
+
+/**
+ * Removes every index entry of a dataset.
+ */
+export async function dropSearchIndex(datasetId: number): Promise<void> {
+  await db.searchTokens
+    .where("[datasetId+rowId]")
+    .between([datasetId, Dexie.minKey], [datasetId, Dexie.maxKey])
+    .delete();
+}
+
+/**
+ * Builds the search index of a dataset imported before search existed, or
+ * whose index was invalidated. No-op when the index is already complete.
+ */
+export async function ensureSearchIndex(
+  datasetId: number,
+  signal?: AbortSignal
+): Promise<void> {
+  const meta = await db.datasets.get(datasetId);
+  if (!meta || meta.searchIndexed) return;
+
+  const microYield = createMicroYield();
+  await dropSearchIndex(datasetId);
+
+  let lastId = 0;
+  for (;;) {
+    if (signal?.aborted) {
+      throw new DOMException("Search index build aborted", "AbortError");
+    }
+
+    const page = await datasetRowsAfter(datasetId, lastId)
+      .limit(BUILD_PAGE_SIZE)
+      .toArray();
+    if (page.length === 0) break;
+
+    await addRowTokens(datasetId, page, meta.schema);
+    lastId = page[page.length - 1].id!;
+    await microYield();
+  }
+
+  await db.datasets.update(datasetId, { searchIndexed: true });
+}
+
+/**
+ * Ids (ascending) of rows containing every query token as a word prefix.
+ */
+export async function searchRowIds(
+  datasetId: number,
+  query: string
+): Promise<number[]> {
+  const tokens = tokenize(query);
+  if (tokens.length === 0) return [];
+
+  let result: Set<number> | null = null;
+  // Rarest-first would be ideal; longer tokens are usually rarer, so start there
+  for (const token of [...tokens].sort((a, b) => b.length - a.length)) {
+    const keys = (await db.searchTokens
+      .where("[datasetId+token+rowId]")
+      .between(
+        [datasetId, token, Dexie.minKey],
+        [datasetId, token + "\uffff", Dexie.maxKey]
+      )
+      .primaryKeys()) as [number, string, number][];
+
+    const ids = new Set<number>();
+    for (const [, , rowId] of keys) {
+      if (!result || result.has(rowId)) ids.add(rowId);
+    }
+    result = ids;
+    if (result.size === 0) break;
+  }
+
+  return [...(result ?? [])].sort((a, b) => a - b);
+}
@@ -0,0 +1,233 @@
+import Dexie, { type IndexableType } from "dexie";
+import { db, type CellValue, type Row, type SortEntry } from "./db";
+import { datasetRowsAfter, type RowAnchor } from "./datasets";
+
+/**
+ * Rows read and indexed per step while building a sort index.
+ */
+const BUILD_PAGE_SIZE = 2000;
+
+export type SortDirection = "asc" | "desc";
+
+export interface SortSpec {
+  readonly column: string;
+  readonly direction: SortDirection;
+}
+
+export interface BuildSortIndexOptions {
+  /** AbortSignal to cancel building; entries written so far are discarded */
+  readonly signal?: AbortSignal;
+  /** Callback receiving the number of rows indexed so far */
+  readonly onProgress?: (rowsIndexed: number) => void;
+}
+
+/**
+ * Maps a cell value to a valid IndexedDB key with a natural ordering.
+ *
+ * Empty cells sort first (as -Infinity), booleans as 0/1 and strings
+ * case-insensitively; numbers and dates keep their native key ordering.
+ */
+export function toSortKey(value: CellValue | undefined): IndexableType {
+  if (value === null || value === undefined) return -Infinity;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (typeof value === "string") return value.toLocaleLowerCase();
+  return value;
+}
+
+function columnEntries(datasetId: number, column: string) {
+  return db.sortEntries
+    .where("[datasetId+column+key+rowId]")
+    .between(
+      [datasetId, column, Dexie.minKey, Dexie.minKey],
+      [datasetId, column, Dexie.maxKey, Dexie.maxKey]
+    );
+}
+
+/**
+ * Columns of a dataset whose sort index is complete.
+ */
+export async function indexedColumns(datasetId: number): Promise<string[]> {
+  const states = await db.sortIndexes
+    .where("datasetId")
+    .equals(datasetId)
+    .toArray();
+  return states.map((state) => state.column);
+}
+
+/**
+ * Builds the persistent sort index of a column, or reuses it if already built.
+ *
+ * Builds in one read-write transaction, so edits made meanwhile wait for it
+ * and an abort or error leaves no entries behind.
+ */
+export async function ensureSortIndex(
+  datasetId: number,
+  column: string,
+  options: BuildSortIndexOptions = {}
+): Promise<void> {
+  await db.transaction(
+    "rw",
+    [db.rows, db.sortEntries, db.sortIndexes],
+    async () => {
+      if (await db.sortIndexes.get([datasetId, column])) return;
+
+      // Start from a clean slate in case an earlier build was interrupted
+      await columnEntries(datasetId, column).delete();
+
+      let lastId = 0;
+      let indexed = 0;
+      for (;;) {
+        if (options.signal?.aborted) {
+          throw new DOMException("Sort index build aborted", "AbortError");
+        }
+
+        const page = await datasetRowsAfter(datasetId, lastId)
+          .limit(BUILD_PAGE_SIZE)
+          .toArray();
+        if (page.length === 0) break;
+
+        await db.sortEntries.bulkPut(
+          page.map((row): SortEntry => ({
+            datasetId,
+            column,
+            key: toSortKey(row.data[column]),
+            rowId: row.id!,
+          }))
+        );
+
+        lastId = page[page.length - 1].id!;
+        indexed += page.length;
+        options.onProgress?.(indexed);
+      }
+
+      await db.sortIndexes.put({ datasetId, column, builtAt: Date.now() });
+    }
+  );
+}
+
+/**
+ * Rows at positions `offset..offset + limit - 1` in the order given by a
+ * built sort index.
+ *
+ * With `anchor`, reading resumes from the anchor's
+ * `[datasetId+column+key+rowId]` entry and skips only the rows between it
+ * and the page, so paging through the view stays linear.
+ */
+export async function sortedRowsPage(
+  datasetId: number,
+  sort: SortSpec,
+  offset: number,
+  limit: number,
+  anchor?: RowAnchor
+): Promise<Row[]> {
+  const outside =
+    anchor && (anchor.index < offset || anchor.index >= offset + limit);
+  const anchorRow = outside ? await db.rows.get(anchor.rowId) : undefined;
+
+  let page: SortEntry[];
+  if (anchor && anchorRow) {
+    const at = [
+      datasetId,
+      sort.column,
+      toSortKey(anchorRow.data[sort.column]),
+      anchor.rowId,
+    ];
+    const after = anchor.index < offset;
+    // Entries on the page's side of the anchor, nearest first
+    const entries =
+      after === (sort.direction === "asc")
+        ? db.sortEntries
+            .where("[datasetId+column+key+rowId]")
+            .between(
+              at,
+              [datasetId, sort.column, Dexie.maxKey, Dexie.maxKey],
+              false,
+              true
+            )
+        : db.sortEntries
+            .where("[datasetId+column+key+rowId]")
+            .between(
+              [datasetId, sort.column, Dexie.minKey, Dexie.minKey],
+              at,
+              true,
+              false
+            )
+            .reverse();
+    page = await entries
+      .offset(after ? offset - anchor.index - 1 : anchor.index - offset - limit)
+      .limit(limit)
+      .toArray();
+    if (!after) page.reverse();
+  } else {
+    let entries = columnEntries(datasetId, sort.column);
+    if (sort.direction === "desc") entries = entries.reverse();
+    page = await entries.offset(offset).limit(limit).toArray();
+  }
+
+  const rows = await db.rows.bulkGet(page.map((entry) => entry.rowId));
+  return rows.filter((row): row is Row => row !== undefined);
+}
+
+/**
+ * Rewrites the sort index entries of the given rows for every indexed column.
+ *
+ * Call inside the same transaction as the row writes so indexes never drift.
+ */
+export async function syncSortKeys(
+  datasetId: number,
+  rows: readonly Row[]
+): Promise<void> {
+  const columns = await indexedColumns(datasetId);
+  if (columns.length === 0 || rows.length === 0) return;
+
+  await removeSortKeys(
+    datasetId,
+    rows.map((row) => row.id!)
+  );
+  await db.sortEntries.bulkPut(
+    rows.flatMap((row) =>
+      columns.map((column): SortEntry => ({
+        datasetId,
+        column,
+        key: toSortKey(row.data[column]),
+        rowId: row.id!,
+      }))
+    )
+  );
+}
+
+/**
+ * Removes the sort index entries of the given rows.
+ */
+export async function removeSortKeys(
+  datasetId: number,
+  rowIds: readonly number[]
+): Promise<void> {
+  await db.sortEntries
+    .where("[datasetId+rowId]")
+    .anyOf(rowIds.map((rowId) => [datasetId, rowId]))
+    .delete();
+}
+
+/**
+ * Drops sort indexes of a dataset, or only of the given column.
+ *
+ * Used when bulk changes (imports, type overrides) make entries stale; the
+ * index is rebuilt on the next sort request.
+ */
+export async function dropSortIndexes(
+  datasetId: number,
+  column?: string
+): Promise<void> {
+  if (column !== undefined) {
+    await db.sortIndexes.delete([datasetId, column]);
+    await columnEntries(datasetId, column).delete();
+    return;
+  }
+
+  await db.sortIndexes.where("datasetId").equals(datasetId).delete();
+  await db.sortEntries
+    .where("[datasetId+rowId]")
+    .between([datasetId, Dexie.minKey], [datasetId, Dexie.maxKey])
+    .delete();
+}
@@ -0,0 +1,396 @@
+import Dexie from "dexie";
+import {
+  db,
+  type CellValue,
+  type ColumnSchema,
+  type ComputedColumn,
+  type ImportReport,
+  type Meta,
+  type Row,
+  type StagedRow,
+} from "./db";
+import { datasetRows } from "./datasets";
+import { cellToText, convertRow } from "./columnTypes";
+import { dropSortIndexes } from "./sortIndex";
+import { addRowTokens, dropSearchIndex, syncRowTokens } from "./searchIndex";
+import { clearEditHistory } from "./editHistory";
+import { clearOriginals, forgetOriginals } from "./changes";
+import { clearDeletedRows } from "./rowEdits";
+import {
+  compileComputedColumns,
+  computeRow,
+  keptComputedColumns,
+} from "./computedColumns";
+
+/**
+ * Number of staged rows moved into `rows` per read/write step during commit.
+ */
+const COMMIT_PAGE_SIZE = 1000;
+
+/**
+ * How staged rows are merged into the target dataset.
+ * - `replace`: staged rows become the dataset's only rows
+ * - `append`: staged rows are added after the existing ones
+ * - `upsert`: rows whose key column value already exists are updated, the rest inserted
+ */
+export type ImportMode = "replace" | "append" | "upsert";
+
+/**
+ * Catalog fields and merge settings used when a staged import is committed.
+ */
+export interface StagedImportResult {
+  /** Target dataset; a new catalog entry is created when omitted (replace mode only) */
+  readonly datasetId?: number;
+  readonly mode: ImportMode;
+  /** Column identifying rows in upsert mode */
+  readonly keyColumn?: string;
+  readonly name: string;
+  readonly fileName: string;
+  readonly columns: string[];
+  /** Types inferred from the file; existing column types take precedence when merging */
+  readonly schema: ColumnSchema;
+  /** Problems found in the file, kept with the dataset */
+  readonly report?: ImportReport;
+}
+
+/**
+ * Row counts reported after an import has been committed.
+ */
+export interface ImportSummary {
+  readonly datasetId: number;
+  readonly inserted: number;
+  readonly updated: number;
+  readonly skipped: number;
+}
+
+/**
+ * Staged rows of one import, ordered by id (i.e. by their position in the source file).
+ */
+export function stagedRows(importId: string) {
+  return db.staging
+    .where("[importId+id]")
+    .between([importId, Dexie.minKey], [importId, Dexie.maxKey]);
+}
+
+/**
+ * Staged rows at positions `offset..offset + limit - 1`, as rows of
+ * `datasetId`, to show a running import like a dataset. Values are still the
+ * source text.
+ */
+export async function stagedRowsPage(
+  importId: string,
+  datasetId: number,
+  offset: number,
+  limit: number
+): Promise<Row[]> {
+  const page = await stagedRows(importId).offset(offset).limit(limit).toArray();
+  return page.map((row) => ({ id: row.id, datasetId, data: row.data }));
+}
+
+/**
+ * Drops everything an import has staged so far.
+ */
+export async function discardStaging(importId: string): Promise<void> {
+  await stagedRows(importId).delete();
+}
+
+/**
+ * Drops staged rows beyond the first `keep`, i.e. rows written after the last
+ * checkpoint of an interrupted import.
+ */
+export async function trimStaging(
+  importId: string,
+  keep: number
+): Promise<void> {
+  const ids = await stagedRows(importId).offset(keep).primaryKeys();
+  await db.staging.bulkDelete(ids);
+}
+
+/**
+ * Existing columns followed by the incoming ones they do not contain yet.
+ */
+function reconcileColumns(
+  existing: readonly string[],
+  incoming: readonly string[]
+): string[] {
+  const known = new Set(existing);
+  return [...existing, ...incoming.filter((col) => !known.has(col))];
+}
+
+/**
+ * Visits staged rows page by page in file order so memory stays bounded.
+ */
+async function forEachStagedPage(
+  importId: string,
+  visit: (page: StagedRow[]) => Promise<void>
+): Promise<void> {
+  let lastId = 0;
+  for (;;) {
+    const page = await db.staging
+      .where("[importId+id]")
+      .between([importId, lastId], [importId, Dexie.maxKey], false)
+      .limit(COMMIT_PAGE_SIZE)
+      .toArray();
+    if (page.length === 0) return;
+
+    await visit(page);
+    lastId = page[page.length - 1].id!;
+  }
+}
+
+/**
+ * Fills columns absent from a row with empty values.
+ */
+function withAllColumns(
+  data: Record<string, CellValue>,
+  columns: readonly string[]
+): Record<string, CellValue> {
+  const filled: Record<string, CellValue> = {};
+  for (const col of columns) {
+    filled[col] = data[col] ?? null;
+  }
+  return filled;
+}
+
+/**
+ * Atomically merges staged rows into a dataset according to `result.mode`.
+ *
+ * Runs as a single read-write transaction: either the target dataset ends up
+ * with the merged rows and updated catalog entry, or nothing changes.
+ */
+export async function commitStaging(
+  importId: string,
+  result: StagedImportResult
+): Promise<ImportSummary> {
+  return db.transaction(
+    "rw",
+    [
+      db.staging,
+      db.rows,
+      db.datasets,
+      db.sortEntries,
+      db.sortIndexes,
+      db.searchTokens,
+      db.importCheckpoints,
+      db.cellEdits,
+      db.originals,
+      db.deletedRows,
+    ],
+    async () => {
+      let inserted = 0;
+      let updated = 0;
+      let skipped = 0;
+
+      let datasetId: number;
+      let existingColumns: string[] = [];
+      let existingSchema: ColumnSchema = {};
+      let existingComputed: ComputedColumn[] = [];
+      let searchIndexed = true;
+
+      if (result.datasetId === undefined) {
+        if (result.mode !== "replace") {
+          throw new Error(
+            `Import mode "${result.mode}" requires a target dataset`
+          );
+        }
+        datasetId = await db.datasets.add({
+          name: result.name,
+          fileName: result.fileName,
+          importedAt: Date.now(),
+          columns: result.columns,
+          schema: result.schema,
+          rowCount: 0,
+        } satisfies Meta);
+      } else {
+        const existing = await db.datasets.get(result.datasetId);
+        if (!existing) {
+          throw new Error(`Dataset ${result.datasetId} no longer exists`);
+        }
+        datasetId = result.datasetId;
+        existingColumns = existing.columns;
+        existingSchema = existing.schema;
+        existingComputed = existing.computed ?? [];
+        searchIndexed = existing.searchIndexed ?? false;
+      }
+
+      // Replaced data keeps the computed columns it still has inputs for
+      const computed =
+        result.mode === "replace"
+          ? keptComputedColumns(existingComputed, result.columns)
+          : existingComputed;
+      const computedNames = computed.map((column) => column.name);
+      const columns =
+        result.mode === "replace"
+          ? [...result.columns, ...computedNames]
+          : reconcileColumns(existingColumns, result.columns);
+      const schema =
+        result.mode === "replace"
+          ? {
+              ...result.schema,
+              ...Object.fromEntries(
+                computedNames.map((name) => [
+                  name,
+                  existingSchema[name] ?? "string",
+                ])
+              ),
+            }
+          : { ...result.schema, ...existingSchema };
+      const compiled = compileComputedColumns(
+        computed,
+        columns.filter((column) => !computedNames.includes(column))
+      );
+
+      // Computes rows, inserts them and adds them to the full-text search index
+      const insertRows = async (rows: Row[]): Promise<number[]> => {
+        for (const row of rows) computeRow(row, compiled);
+        const ids = await db.rows.bulkAdd(rows, { allKeys: true });
+        await addRowTokens(
+          datasetId,
+          rows.map((row, i) => ({ ...row, id: ids[i] })),
+          schema
+        );
+        inserted += rows.length;
+        return ids;
+      };
+
+      if (result.mode === "replace") {
+        await datasetRows(datasetId).delete();
+        await dropSearchIndex(datasetId);
+        // Edits of rows that no longer exist cannot be undone
+        await clearEditHistory(datasetId);
+        await clearOriginals(datasetId);
+        await clearDeletedRows(datasetId);
+        searchIndexed = true;
+        await forEachStagedPage(importId, async (page) => {
+          await insertRows(
+            page.map((staged): Row => ({
+              datasetId,
+              data: convertRow(staged.data, schema),
+            }))
+          );
+        });
+      } else if (result.mode === "append") {
+        await forEachStagedPage(importId, async (page) => {
+          await insertRows(
+            page.map((staged): Row => ({
+              datasetId,
+              data: withAllColumns(convertRow(staged.data, schema), columns),
+            }))
+          );
+        });
+      } else {
+        const keyColumn = result.keyColumn;
+        if (!keyColumn || !result.columns.includes(keyColumn)) {
+          throw new Error(`Key column "${keyColumn ?? ""}" is not in the file`);
+        }
+
+        // Key values are not indexed, so map existing keys to row ids up front
+        // Keys are compared by their canonical text so typed values match
+        const keyType = schema[keyColumn] ?? "string";
+        const idsByKey = new Map<string, number>();
+        await datasetRows(datasetId).each((row) => {
+          const key = cellToText(row.data[keyColumn], keyType);
+          if (key) idsByKey.set(key, row.id!);
+        });
+        // Rows count once, however often their key repeats in the file;
+        // rows inserted by this import are not counted as updated
+        const insertedIds = new Set<number>();
+        const updatedIds = new Set<number>();
+
+        await forEachStagedPage(importId, async (page) => {
+          const toInsert: Row[] = [];
+          const toInsertKeys: string[] = [];
+          const pendingByKey = new Map<string, Row>();
+          const updates = new Map<number, Record<string, CellValue>>();
+
+          for (const staged of page) {
+            const data = convertRow(staged.data, schema);
+            const key = cellToText(data[keyColumn], keyType);
+            if (!key) {
+              skipped++;
+              continue;
+            }
+
+            const rowId = idsByKey.get(key);
+            if (rowId !== undefined) {
+              updates.set(rowId, { ...updates.get(rowId), ...data });
+              continue;
+            }
+
+            const pending = pendingByKey.get(key);
+            if (pending) {
+              // Same key repeated within this page: later values win
+              Object.assign(pending.data, data);
+              continue;
+            }
+
+            const row: Row = {
+              datasetId,
+              data: withAllColumns(data, columns),
+            };
+            toInsert.push(row);
+            toInsertKeys.push(key);
+            pendingByKey.set(key, row);
+          }
+
+          if (updates.size > 0) {
+            const rows = (await db.rows.bulkGet([...updates.keys()]))
+              .filter((row): row is Row => row !== undefined)
+              .map((row) => {
+                const merged = {
+                  ...row,
+                  data: withAllColumns(
+                    { ...row.data, ...updates.get(row.id!) },
+                    columns
+                  ),
+                };
+                computeRow(merged, compiled);
+                return merged;
+              });
+            await db.rows.bulkPut(rows);
+            await syncRowTokens(datasetId, rows, schema);
+            // Re-imported values are the new originals of these cells
+            await forgetOriginals(
+              datasetId,
+              [...updates.keys()],
+              result.columns
+            );
+            for (const rowId of updates.keys()) {
+              if (!insertedIds.has(rowId)) updatedIds.add(rowId);
+            }
+          }
+
+          if (toInsert.length > 0) {
+            const ids = await insertRows(toInsert);
+            ids.forEach((id, i) => {
+              idsByKey.set(toInsertKeys[i], id);
+              insertedIds.add(id);
+            });
+          }
+        });
+        updated = updatedIds.size;
+      }
+
+      await db.datasets.update(datasetId, {
+        fileName: result.fileName,
+        importedAt: Date.now(),
+        columns,
+        schema,
+        rowCount: await datasetRows(datasetId).count(),
+        searchIndexed,
+        computed: computed.length > 0 ? computed : undefined,
+        importReport: result.report,
+        // Profiled values changed wholesale; profile the new data again
+        profile: undefined,
+      });
+
+      // Bulk changes invalidate sort indexes; they are rebuilt on the next sort
+      await dropSortIndexes(datasetId);
+
+      await discardStaging(importId);
+      // A committed import must never be offered for resume
+      await db.importCheckpoints.delete(importId);
+      return { datasetId, inserted, updated, skipped };
+    }
+  );
+}
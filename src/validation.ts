@@ -0,0 +1,309 @@
+import Dexie from "dexie";
+import {
+  db,
+  type CellValue,
+  type ColumnRules,
+  type ColumnType,
+  type Meta,
+} from "./db";
+import { datasetRows } from "./datasets";
+import { cellToText } from "./columnTypes";
+import { createMicroYield } from "./microYield";
+import { createRowPageReader } from "./rowPages";
+import { ensureSortIndex, toSortKey } from "./sortIndex";
+
+/**
+ * Rows checked per step of a validation pass.
+ */
+const VALIDATION_PAGE_SIZE = 2000;
+
+/**
+ * A validation pass stops collecting beyond this many violations.
+ */
+const MAX_VIOLATIONS = 10_000;
+
+/**
+ * A cell breaking one of its column's rules.
+ */
+export interface Violation {
+  readonly rowId: number;
+  readonly column: string;
+  readonly reason: string;
+}
+
+/**
+ * Violations by row id and column, for marking table cells.
+ */
+export type InvalidCells = ReadonlyMap<number, ReadonlyMap<string, string>>;
+
+export interface ValidationOptions {
+  readonly signal?: AbortSignal;
+  /** Called after every page with the number of rows checked */
+  readonly onProgress?: (rowsChecked: number) => void;
+}
+
+/**
+ * Whether rules constrain anything.
+ */
+export function hasRules(rules: ColumnRules | undefined): boolean {
+  return Boolean(
+    rules &&
+    (rules.required ||
+      rules.pattern ||
+      rules.min !== undefined ||
+      rules.max !== undefined ||
+      rules.allowed?.length ||
+      rules.maxLength !== undefined ||
+      rules.unique)
+  );
+}
+
+/**
+ * Reason a value breaks the non-unique rules, or null when it passes.
+ *
+ * Empty values only fail `required`; the other rules apply to content.
+ */
+export function checkValue(
+  value: CellValue | undefined,
+  type: ColumnType,
+  rules: ColumnRules
+): string | null {
+  const text = cellToText(value, type);
+  if (text === "") return rules.required ? "Value is required" : null;
+
+  if (rules.maxLength !== undefined && text.length > rules.maxLength) {
+    return `At most ${rules.maxLength} characters`;
+  }
+  if (rules.pattern && !new RegExp(rules.pattern).test(text)) {
+    return `Must match /${rules.pattern}/`;
+  }
+  if (rules.min !== undefined || rules.max !== undefined) {
+    if (typeof value !== "number") return "Must be a number";
+    if (rules.min !== undefined && value < rules.min) {
+      return `Must be at least ${rules.min}`;
+    }
+    if (rules.max !== undefined && value > rules.max) {
+      return `Must be at most ${rules.max}`;
+    }
+  }
+  if (rules.allowed?.length && !rules.allowed.includes(text)) {
+    return `Must be one of: ${rules.allowed.join(", ")}`;
+  }
+  return null;
+}
+
+/**
+ * Another row of the dataset holding the same value, if any.
+ *
+ * Uses the column's sort index when built, else scans the dataset.
+ */
+async function duplicateRowId(
+  datasetId: number,
+  column: string,
+  rowId: number,
+  value: CellValue,
+  type: ColumnType
+): Promise<number | undefined> {
+  const text = cellToText(value, type);
+  const sameText = (data: Record<string, CellValue>) =>
+    cellToText(data[column], type) === text;
+
+  if (await db.sortIndexes.get([datasetId, column])) {
+    // Sort keys fold case, so candidates are compared by their exact text
+    const key = toSortKey(value);
+    const candidateIds = (
+      await db.sortEntries
+        .where("[datasetId+column+key+rowId]")
+        .between(
+          [datasetId, column, key, Dexie.minKey],
+          [datasetId, column, key, Dexie.maxKey]
+        )
+        .toArray()
+    )
+      .map((entry) => entry.rowId)
+      .filter((id) => id !== rowId);
+    const candidates = await db.rows.bulkGet(candidateIds);
+    return candidates.find((row) => row && sameText(row.data))?.id;
+  }
+
+  const duplicate = await datasetRows(datasetId)
+    .filter((row) => row.id !== rowId && sameText(row.data))
+    .first();
+  return duplicate?.id;
+}
+
+/**
+ * Returns a check for a batch of edits, e.g. a paste or a bulk edit, giving
+ * the reason an edit breaks its column's rules or null when it may be saved.
+ *
+ * Values of unique columns may neither repeat another row's value nor one
+ * accepted earlier in the batch; rows the batch has not written yet count
+ * with the values they hold now. The sort index of a unique column is built
+ * first if an import or type change dropped it, so no check scans the
+ * dataset. Works inside a transaction over the rows and the sort tables.
+ */
+export function createEditValidator(
+  meta: Meta
+): (rowId: number, column: string, value: CellValue) => Promise<string | null> {
+  // Unique values accepted so far, by column and text
+  const claimed = new Map<string, Map<string, number>>();
+
+  return async (rowId, column, value) => {
+    const rules = meta.rules?.[column];
+    if (!rules || meta.id === undefined) return null;
+
+    const type = meta.schema[column] ?? "string";
+    const reason = checkValue(value, type, rules);
+    const text = cellToText(value, type);
+    if (reason || !rules.unique || text === "") return reason;
+
+    let values = claimed.get(column);
+    if (!values) {
+      await ensureSortIndex(meta.id, column);
+      values = new Map();
+      claimed.set(column, values);
+    }
+    const owner = values.get(text);
+    if (owner !== undefined && owner !== rowId) {
+      return `Duplicate of row ${owner}`;
+    }
+    const duplicate = await duplicateRowId(meta.id, column, rowId, value, type);
+    if (duplicate !== undefined) return `Duplicate of row ${duplicate}`;
+    values.set(text, rowId);
+    return null;
+  };
+}
+
+/**
+ * Reason an edit breaks its column's rules, or null when it may be saved.
+ */
+export async function validateEdit(
+  meta: Meta,
+  rowId: number,
+  column: string,
+  value: CellValue
+): Promise<string | null> {
+  return createEditValidator(meta)(rowId, column, value);
+}
+
+/**
+ * First edit of a batch breaking its column's rules, checked as by
+ * `createEditValidator`, or null when all of them may be saved.
+ */
+export async function validateEdits(
+  meta: Meta,
+  cells: readonly {
+    readonly rowId: number;
+    readonly column: string;
+    readonly value: CellValue;
+  }[]
+): Promise<Violation | null> {
+  const check = createEditValidator(meta);
+  for (const { rowId, column, value } of cells) {
+    const reason = await check(rowId, column, value);
+    if (reason) return { rowId, column, reason };
+  }
+  return null;
+}
+
+/**
+ * Stores the rules of one column; empty rules remove the entry.
+ *
+ * Unique columns get a sort index so edits are checked without a scan.
+ */
+export async function saveColumnRules(
+  datasetId: number,
+  column: string,
+  rules: ColumnRules
+): Promise<void> {
+  if (rules.pattern) new RegExp(rules.pattern); // throws on invalid syntax
+
+  const meta = await db.datasets.get(datasetId);
+  if (!meta) throw new Error(`Dataset ${datasetId} not found`);
+
+  const next = { ...meta.rules };
+  if (hasRules(rules)) next[column] = rules;
+  else delete next[column];
+  await db.datasets.update(datasetId, { rules: next });
+
+  if (rules.unique) await ensureSortIndex(datasetId, column);
+}
+
+/**
+ * Checks every row against the dataset's rules, page by page.
+ *
+ * Returns violations in id order, at most `MAX_VIOLATIONS` of them.
+ */
+export async function validateDataset(
+  datasetId: number,
+  options: ValidationOptions = {}
+): Promise<Violation[]> {
+  const meta = await db.datasets.get(datasetId);
+  const ruled = Object.entries(meta?.rules ?? {}).filter(
+    ([column, rules]) => meta?.columns.includes(column) && hasRules(rules)
+  );
+  if (!meta || ruled.length === 0) return [];
+
+  const microYield = createMicroYield();
+  const nextPage = createRowPageReader(datasetId, {}, VALIDATION_PAGE_SIZE);
+  const violations: Violation[] = [];
+  // First row holding each value of unique columns
+  const seen = new Map<string, Map<string, number>>();
+  let checked = 0;
+
+  for (;;) {
+    if (options.signal?.aborted) {
+      throw new DOMException("Validation aborted", "AbortError");
+    }
+
+    const page = await nextPage();
+    if (page.length === 0) break;
+
+    for (const row of page) {
+      for (const [column, rules] of ruled) {
+        const type = meta.schema[column] ?? "string";
+        const value = row.data[column];
+        let reason = checkValue(value, type, rules);
+
+        const text = cellToText(value, type);
+        if (!reason && rules.unique && text !== "") {
+          let values = seen.get(column);
+          if (!values) {
+            values = new Map();
+            seen.set(column, values);
+          }
+          const first = values.get(text);
+          if (first !== undefined) reason = `Duplicate of row ${first}`;
+          else values.set(text, row.id!);
+        }
+
+        if (reason) violations.push({ rowId: row.id!, column, reason });
+      }
+      if (violations.length >= MAX_VIOLATIONS) {
+        return violations.slice(0, MAX_VIOLATIONS);
+      }
+    }
+
+    checked += page.length;
+    options.onProgress?.(checked);
+    await microYield();
+  }
+
+  return violations;
+}
+
+/**
+ * Groups violations by row id and column.
+ */
+export function toInvalidCells(violations: readonly Violation[]): InvalidCells {
+  const cells = new Map<number, Map<string, string>>();
+  for (const { rowId, column, reason } of violations) {
+    let columns = cells.get(rowId);
+    if (!columns) {
+      columns = new Map();
+      cells.set(rowId, columns);
+    }
+    columns.set(column, reason);
+  }
+  return cells;
+}
@@ -0,0 +1,88 @@
+import Dexie from "dexie";
+import { db, type Row } from "./db";
+import { datasetRowsPage } from "./datasets";
+import { sortedRowsPage, type SortSpec } from "./sortIndex";
+
+/**
+ * Index of a row within the table's current view, or -1 when it is not shown.
+ *
+ * Mirrors how `VirtualTable` orders rows: an explicit id list first, then the
+ * sorted column's index, then plain id order. Counting uses IndexedDB key
+ * ranges, so no rows are loaded.
+ */
+export async function rowPosition(
+  datasetId: number,
+  rowId: number,
+  sort: SortSpec | null,
+  rowIds: readonly number[] | null
+): Promise<number> {
+  if (rowIds) return rowIds.indexOf(rowId);
+
+  if (sort) {
+    const entry = await db.sortEntries
+      .where("[datasetId+column+rowId]")
+      .equals([datasetId, sort.column, rowId])
+      .first();
+    if (!entry) return -1;
+
+    const range = db.sortEntries.where("[datasetId+column+key+rowId]");
+    return sort.direction === "asc"
+      ? range
+          .between(
+            [datasetId, sort.column, Dexie.minKey, Dexie.minKey],
+            [datasetId, sort.column, entry.key, rowId],
+            true,
+            false
+          )
+          .count()
+      : range
+          .between(
+            [datasetId, sort.column, entry.key, rowId],
+            [datasetId, sort.column, Dexie.maxKey, Dexie.maxKey],
+            false,
+            true
+          )
+          .count();
+  }
+
+  return db.rows
+    .where("[datasetId+id]")
+    .between([datasetId, Dexie.minKey], [datasetId, rowId], true, false)
+    .count();
+}
+
+/**
+ * Rows at positions `from..to` (inclusive) of the table's current view, in
+ * view order. Rows deleted since an explicit id list was built are left out.
+ */
+export async function viewRows(
+  datasetId: number,
+  from: number,
+  to: number,
+  sort: SortSpec | null,
+  rowIds: readonly number[] | null
+): Promise<Row[]> {
+  const limit = to - from + 1;
+  if (rowIds) {
+    const rows = await db.rows.bulkGet(rowIds.slice(from, to + 1));
+    return rows.filter((row): row is Row => row !== undefined);
+  }
+
+  return sort
+    ? sortedRowsPage(datasetId, sort, from, limit)
+    : datasetRowsPage(datasetId, from, limit);
+}
+
+/**
+ * Ids of the rows at positions `from..to` (inclusive) of the current view.
+ */
+export async function viewRowIds(
+  datasetId: number,
+  from: number,
+  to: number,
+  sort: SortSpec | null,
+  rowIds: readonly number[] | null
+): Promise<number[]> {
+  const rows = await viewRows(datasetId, from, to, sort, rowIds);
+  return rows.map((row) => row.id!);
+}